@@ -5,97 +5,1469 @@
 */
 export const CipherExamABI = {
   "abi": [
+    {
+      "inputs": [],
+      "name": "AnswerCountMismatch",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "AnswerKeyLengthMismatch",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "AttemptAlreadyStarted",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "AttemptNotStarted",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "EndTimeNotLater",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamAlreadyFinished",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamGradedOnChain",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamHasSubmissions",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamNotDraft",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamNotEnded",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamNotFound",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamNotInProgress",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ExamNotOpen",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidAttemptCount",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidAttemptIndex",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidGradeBands",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidGraderKey",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidPenalties",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidPools",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidQuestionCount",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidQuestionIndex",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidQuestionScore",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidSections",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidTimeRange",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NoAnswerKey",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NoAttemptsLeft",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NoResultsToReveal",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NoTimeLimit",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NotAllowed",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NotAuthorized",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "QuestionScoresLengthMismatch",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ScoreCountMismatch",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "StartTimeInPast",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "StatisticsAlreadyRevealed",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "SubmissionNotFound",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "TimeLimitExceeded",
+      "type": "error"
+    },
     {
       "inputs": [],
       "name": "ZamaProtocolUnsupported",
       "type": "error"
     },
     {
-      "anonymous": false,
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes32",
+          "name": "allowListRoot",
+          "type": "bytes32"
+        }
+      ],
+      "name": "AllowListUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "submittedAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "AnswersSubmitted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "maxAttempts",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "enum CipherExam.ScoringPolicy",
+          "name": "scoringPolicy",
+          "type": "uint8"
+        }
+      ],
+      "name": "AttemptPolicyUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "startedAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "AttemptStarted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "durationSeconds",
+          "type": "uint32"
+        }
+      ],
+      "name": "DurationUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "ExamCancelled",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "closedAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "ExamClosed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "creator",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "string",
+          "name": "title",
+          "type": "string"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "questionCount",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "startTime",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "endTime",
+          "type": "uint256"
+        }
+      ],
+      "name": "ExamCreated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "newEndTime",
+          "type": "uint256"
+        }
+      ],
+      "name": "ExamEndTimeExtended",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "ExamPublished",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "string[]",
+          "name": "labels",
+          "type": "string[]"
+        }
+      ],
+      "name": "GradeBandsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "creator",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes",
+          "name": "graderKey",
+          "type": "bytes"
+        }
+      ],
+      "name": "GraderKeyUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes32",
+          "name": "inviteCodeHash",
+          "type": "bytes32"
+        }
+      ],
+      "name": "InviteCodeUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "manualQuestions",
+          "type": "uint256"
+        }
+      ],
+      "name": "ManualQuestionsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32[]",
+          "name": "penalties",
+          "type": "uint32[]"
+        }
+      ],
+      "name": "PenaltiesUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32[]",
+          "name": "firstQuestions",
+          "type": "uint32[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32[]",
+          "name": "draws",
+          "type": "uint32[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32[]",
+          "name": "sizes",
+          "type": "uint32[]"
+        }
+      ],
+      "name": "PoolsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "attemptIndex",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "questionIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "QuestionGraded",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "string[]",
+          "name": "names",
+          "type": "string[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32[]",
+          "name": "ends",
+          "type": "uint32[]"
+        }
+      ],
+      "name": "SectionsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "shuffleQuestions",
+          "type": "bool"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "shuffleOptions",
+          "type": "bool"
+        }
+      ],
+      "name": "ShuffleUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "StatisticsRevealed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        }
+      ],
+      "name": "TotalComputed",
+      "type": "event"
+    },
+    {
+      "inputs": [],
+      "name": "HISTOGRAM_BUCKETS",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "MAX_ANSWER_KEYS",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "MAX_ATTEMPTS",
+      "outputs": [
+        {
+          "internalType": "uint8",
+          "name": "",
+          "type": "uint8"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "MAX_GRADE_BANDS",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "MAX_SECTIONS",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "cancelExam",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "closeExam",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        }
+      ],
+      "name": "computeTotalAndJudge",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "confidentialProtocolId",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "string",
+          "name": "title",
+          "type": "string"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "contentHash",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "uint256",
+          "name": "questionCount",
+          "type": "uint256"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "passingScore",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "externalEuint32[]",
+          "name": "answerKey",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "questionScores",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "uint256",
+          "name": "startTime",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "endTime",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bool",
+          "name": "asDraft",
+          "type": "bool"
+        }
+      ],
+      "name": "createExam",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "examStudents",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "students",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "exams",
+      "outputs": [
+        {
+          "internalType": "string",
+          "name": "title",
+          "type": "string"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "contentHash",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "uint256",
+          "name": "questionCount",
+          "type": "uint256"
+        },
+        {
+          "internalType": "euint32",
+          "name": "passingScore",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "uint256",
+          "name": "startTime",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "endTime",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bool",
+          "name": "isActive",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "isClosed",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "isCancelled",
+          "type": "bool"
+        },
+        {
+          "internalType": "address",
+          "name": "creator",
+          "type": "address"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "allowListRoot",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "inviteCodeHash",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "uint8",
+          "name": "maxAttempts",
+          "type": "uint8"
+        },
+        {
+          "internalType": "enum CipherExam.ScoringPolicy",
+          "name": "scoringPolicy",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint32",
+          "name": "durationSeconds",
+          "type": "uint32"
+        },
+        {
+          "internalType": "bool",
+          "name": "shuffleQuestions",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "shuffleOptions",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "isDraft",
+          "type": "bool"
+        },
+        {
+          "internalType": "uint256",
+          "name": "manualQuestions",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "newEndTime",
+          "type": "uint256"
+        }
+      ],
+      "name": "extendEndTime",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getAccessRules",
+      "outputs": [
+        {
+          "internalType": "bytes32",
+          "name": "allowListRoot",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "inviteCodeHash",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getAttemptPolicy",
+      "outputs": [
+        {
+          "internalType": "uint8",
+          "name": "maxAttempts",
+          "type": "uint8"
+        },
+        {
+          "internalType": "enum CipherExam.ScoringPolicy",
+          "name": "scoringPolicy",
+          "type": "uint8"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        }
+      ],
+      "name": "getAttempts",
+      "outputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "submittedAt",
+          "type": "uint256[]"
+        },
+        {
+          "internalType": "euint32[]",
+          "name": "totals",
+          "type": "bytes32[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        }
+      ],
+      "name": "getClampedFlag",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getContentHash",
+      "outputs": [
+        {
+          "internalType": "bytes32",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getExamInfo",
+      "outputs": [
+        {
+          "internalType": "string",
+          "name": "title",
+          "type": "string"
+        },
+        {
+          "internalType": "uint256",
+          "name": "questionCount",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "questionScores",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "uint256",
+          "name": "startTime",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "endTime",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bool",
+          "name": "isActive",
+          "type": "bool"
+        },
+        {
+          "internalType": "address",
+          "name": "creator",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getExamStatistics",
+      "outputs": [
+        {
+          "internalType": "euint32",
+          "name": "totalSum",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint32",
+          "name": "passCount",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint32[5]",
+          "name": "bucketCounts",
+          "type": "bytes32[5]"
+        },
+        {
+          "internalType": "uint256",
+          "name": "computedCount",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bool",
+          "name": "isRevealed",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getExamStatus",
+      "outputs": [
+        {
+          "internalType": "enum CipherExam.ExamStatus",
+          "name": "",
+          "type": "uint8"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getExamStudents",
+      "outputs": [
+        {
+          "internalType": "address[]",
+          "name": "",
+          "type": "address[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getGradeBands",
+      "outputs": [
+        {
+          "internalType": "string[]",
+          "name": "labels",
+          "type": "string[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        }
+      ],
+      "name": "getGradeIndex",
+      "outputs": [
+        {
+          "internalType": "euint32",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        }
+      ],
+      "name": "getMyEncryptedTotal",
+      "outputs": [
+        {
+          "internalType": "euint32",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
+        }
+      ],
+      "name": "getMyPassedStatus",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
       "inputs": [
         {
-          "indexed": true,
           "internalType": "uint256",
           "name": "examId",
           "type": "uint256"
         },
         {
-          "indexed": true,
           "internalType": "address",
           "name": "student",
           "type": "address"
-        },
+        }
+      ],
+      "name": "getMyScores",
+      "outputs": [
+        {
+          "internalType": "euint32[]",
+          "name": "",
+          "type": "bytes32[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getNextExamId",
+      "outputs": [
         {
-          "indexed": false,
           "internalType": "uint256",
-          "name": "submittedAt",
+          "name": "",
           "type": "uint256"
         }
       ],
-      "name": "AnswersSubmitted",
-      "type": "event"
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getPenalties",
+      "outputs": [
+        {
+          "internalType": "uint32[]",
+          "name": "penalties",
+          "type": "uint32[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
     },
     {
-      "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
           "internalType": "uint256",
           "name": "examId",
           "type": "uint256"
         },
         {
-          "indexed": true,
           "internalType": "address",
-          "name": "creator",
+          "name": "student",
           "type": "address"
-        },
+        }
+      ],
+      "name": "getSectionResults",
+      "outputs": [
         {
-          "indexed": false,
-          "internalType": "string",
-          "name": "title",
-          "type": "string"
+          "internalType": "euint32[]",
+          "name": "totals",
+          "type": "bytes32[]"
         },
         {
-          "indexed": false,
-          "internalType": "uint256",
-          "name": "questionCount",
-          "type": "uint256"
-        },
+          "internalType": "ebool[]",
+          "name": "passed",
+          "type": "bytes32[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
-          "indexed": false,
           "internalType": "uint256",
-          "name": "startTime",
+          "name": "examId",
           "type": "uint256"
+        }
+      ],
+      "name": "getSections",
+      "outputs": [
+        {
+          "internalType": "string[]",
+          "name": "names",
+          "type": "string[]"
         },
         {
-          "indexed": false,
-          "internalType": "uint256",
-          "name": "endTime",
-          "type": "uint256"
+          "internalType": "uint32[]",
+          "name": "ends",
+          "type": "uint32[]"
         }
       ],
-      "name": "ExamCreated",
-      "type": "event"
+      "stateMutability": "view",
+      "type": "function"
     },
     {
-      "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
           "internalType": "uint256",
           "name": "examId",
           "type": "uint256"
+        }
+      ],
+      "name": "getShuffle",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "shuffleQuestions",
+          "type": "bool"
         },
         {
-          "indexed": true,
+          "internalType": "bool",
+          "name": "shuffleOptions",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
           "internalType": "address",
           "name": "student",
           "type": "address"
         }
       ],
-      "name": "TotalComputed",
-      "type": "event"
+      "name": "getStudentExams",
+      "outputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "",
+          "type": "uint256[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
     },
     {
       "inputs": [
@@ -110,18 +1482,21 @@ export const CipherExamABI = {
           "type": "address"
         }
       ],
-      "name": "computeTotalAndJudge",
-      "outputs": [],
-      "stateMutability": "nonpayable",
-      "type": "function"
-    },
-    {
-      "inputs": [],
-      "name": "confidentialProtocolId",
+      "name": "getTimeLimit",
       "outputs": [
+        {
+          "internalType": "uint32",
+          "name": "durationSeconds",
+          "type": "uint32"
+        },
         {
           "internalType": "uint256",
-          "name": "",
+          "name": "startedAt",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "expired",
           "type": "uint256"
         }
       ],
@@ -130,43 +1505,38 @@ export const CipherExamABI = {
     },
     {
       "inputs": [
-        {
-          "internalType": "string",
-          "name": "title",
-          "type": "string"
-        },
         {
           "internalType": "uint256",
-          "name": "questionCount",
+          "name": "examId",
           "type": "uint256"
         },
         {
-          "internalType": "externalEuint32",
-          "name": "passingScore",
-          "type": "bytes32"
-        },
-        {
-          "internalType": "bytes",
-          "name": "passingScoreProof",
-          "type": "bytes"
-        },
-        {
-          "internalType": "uint32[]",
-          "name": "questionScores",
-          "type": "uint32[]"
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
         },
         {
           "internalType": "uint256",
-          "name": "startTime",
+          "name": "attemptIndex",
           "type": "uint256"
         },
         {
           "internalType": "uint256",
-          "name": "endTime",
+          "name": "questionIndex",
           "type": "uint256"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "score",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
         }
       ],
-      "name": "createExam",
+      "name": "gradeQuestion",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
@@ -174,22 +1544,17 @@ export const CipherExamABI = {
     {
       "inputs": [
         {
-          "internalType": "uint256",
-          "name": "",
-          "type": "uint256"
-        },
-        {
-          "internalType": "uint256",
-          "name": "",
-          "type": "uint256"
+          "internalType": "address",
+          "name": "creator",
+          "type": "address"
         }
       ],
-      "name": "examStudents",
+      "name": "graderKeys",
       "outputs": [
         {
-          "internalType": "address",
-          "name": "",
-          "type": "address"
+          "internalType": "bytes",
+          "name": "graderKey",
+          "type": "bytes"
         }
       ],
       "stateMutability": "view",
@@ -199,46 +1564,53 @@ export const CipherExamABI = {
       "inputs": [
         {
           "internalType": "uint256",
-          "name": "",
+          "name": "examId",
           "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "student",
+          "type": "address"
         }
       ],
-      "name": "exams",
+      "name": "hasSubmitted",
       "outputs": [
         {
-          "internalType": "string",
-          "name": "title",
-          "type": "string"
-        },
-        {
-          "internalType": "uint256",
-          "name": "questionCount",
-          "type": "uint256"
-        },
-        {
-          "internalType": "euint32",
-          "name": "passingScore",
-          "type": "bytes32"
-        },
-        {
-          "internalType": "uint256",
-          "name": "startTime",
-          "type": "uint256"
-        },
+          "internalType": "bool",
+          "name": "submitted",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
           "internalType": "uint256",
-          "name": "endTime",
+          "name": "examId",
           "type": "uint256"
-        },
+        }
+      ],
+      "name": "isGradedOnChain",
+      "outputs": [
         {
           "internalType": "bool",
-          "name": "isActive",
+          "name": "",
           "type": "bool"
-        },
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "nextExamId",
+      "outputs": [
         {
-          "internalType": "address",
-          "name": "creator",
-          "type": "address"
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
         }
       ],
       "stateMutability": "view",
@@ -252,45 +1624,63 @@ export const CipherExamABI = {
           "type": "uint256"
         }
       ],
-      "name": "getExamInfo",
-      "outputs": [
-        {
-          "internalType": "string",
-          "name": "title",
-          "type": "string"
-        },
+      "name": "publishExam",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
           "internalType": "uint256",
-          "name": "questionCount",
+          "name": "examId",
           "type": "uint256"
-        },
-        {
-          "internalType": "uint32[]",
-          "name": "questionScores",
-          "type": "uint32[]"
-        },
+        }
+      ],
+      "name": "revealStatistics",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
           "internalType": "uint256",
-          "name": "startTime",
+          "name": "examId",
           "type": "uint256"
         },
+        {
+          "internalType": "bytes32",
+          "name": "allowListRoot",
+          "type": "bytes32"
+        }
+      ],
+      "name": "setAllowListRoot",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
           "internalType": "uint256",
-          "name": "endTime",
+          "name": "examId",
           "type": "uint256"
         },
         {
-          "internalType": "bool",
-          "name": "isActive",
-          "type": "bool"
+          "internalType": "uint8",
+          "name": "maxAttempts",
+          "type": "uint8"
         },
         {
-          "internalType": "address",
-          "name": "creator",
-          "type": "address"
+          "internalType": "enum CipherExam.ScoringPolicy",
+          "name": "scoringPolicy",
+          "type": "uint8"
         }
       ],
-      "stateMutability": "view",
+      "name": "setAttemptPolicy",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
@@ -299,17 +1689,16 @@ export const CipherExamABI = {
           "internalType": "uint256",
           "name": "examId",
           "type": "uint256"
-        }
-      ],
-      "name": "getExamStatus",
-      "outputs": [
+        },
         {
-          "internalType": "uint8",
-          "name": "",
-          "type": "uint8"
+          "internalType": "uint32",
+          "name": "durationSeconds",
+          "type": "uint32"
         }
       ],
-      "stateMutability": "view",
+      "name": "setDuration",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
@@ -318,17 +1707,39 @@ export const CipherExamABI = {
           "internalType": "uint256",
           "name": "examId",
           "type": "uint256"
+        },
+        {
+          "internalType": "string[]",
+          "name": "labels",
+          "type": "string[]"
+        },
+        {
+          "internalType": "externalEuint32[]",
+          "name": "thresholds",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
         }
       ],
-      "name": "getExamStudents",
-      "outputs": [
+      "name": "setGradeBands",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
-          "internalType": "address[]",
-          "name": "",
-          "type": "address[]"
+          "internalType": "bytes",
+          "name": "graderKey",
+          "type": "bytes"
         }
       ],
-      "stateMutability": "view",
+      "name": "setGraderKey",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
@@ -339,20 +1750,14 @@ export const CipherExamABI = {
           "type": "uint256"
         },
         {
-          "internalType": "address",
-          "name": "student",
-          "type": "address"
-        }
-      ],
-      "name": "getMyEncryptedTotal",
-      "outputs": [
-        {
-          "internalType": "euint32",
-          "name": "",
+          "internalType": "bytes32",
+          "name": "inviteCodeHash",
           "type": "bytes32"
         }
       ],
-      "stateMutability": "view",
+      "name": "setInviteCodeHash",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
@@ -363,20 +1768,32 @@ export const CipherExamABI = {
           "type": "uint256"
         },
         {
-          "internalType": "address",
-          "name": "student",
-          "type": "address"
+          "internalType": "uint256",
+          "name": "manualQuestions",
+          "type": "uint256"
         }
       ],
-      "name": "getMyPassedStatus",
-      "outputs": [
+      "name": "setManualQuestions",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
-          "internalType": "ebool",
-          "name": "",
-          "type": "bytes32"
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "penalties",
+          "type": "uint32[]"
         }
       ],
-      "stateMutability": "view",
+      "name": "setPenalties",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
@@ -387,82 +1804,115 @@ export const CipherExamABI = {
           "type": "uint256"
         },
         {
-          "internalType": "address",
-          "name": "student",
-          "type": "address"
-        }
-      ],
-      "name": "getMyScores",
-      "outputs": [
+          "internalType": "uint32[]",
+          "name": "firstQuestions",
+          "type": "uint32[]"
+        },
         {
-          "internalType": "euint32[]",
-          "name": "",
-          "type": "bytes32[]"
+          "internalType": "uint32[]",
+          "name": "draws",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "sizes",
+          "type": "uint32[]"
         }
       ],
-      "stateMutability": "view",
+      "name": "setPools",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
-      "inputs": [],
-      "name": "getNextExamId",
-      "outputs": [
+      "inputs": [
         {
           "internalType": "uint256",
-          "name": "",
+          "name": "examId",
           "type": "uint256"
+        },
+        {
+          "internalType": "string[]",
+          "name": "names",
+          "type": "string[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "ends",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "externalEuint32[]",
+          "name": "thresholds",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
         }
       ],
-      "stateMutability": "view",
+      "name": "setSections",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
       "inputs": [
         {
           "internalType": "uint256",
-          "name": "",
+          "name": "examId",
           "type": "uint256"
         },
         {
-          "internalType": "address",
-          "name": "",
-          "type": "address"
-        }
-      ],
-      "name": "hasSubmitted",
-      "outputs": [
+          "internalType": "bool",
+          "name": "shuffleQuestions",
+          "type": "bool"
+        },
         {
           "internalType": "bool",
-          "name": "",
+          "name": "shuffleOptions",
           "type": "bool"
         }
       ],
-      "stateMutability": "view",
+      "name": "setShuffle",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
-      "inputs": [],
-      "name": "nextExamId",
-      "outputs": [
+      "inputs": [
         {
           "internalType": "uint256",
-          "name": "",
+          "name": "examId",
           "type": "uint256"
+        },
+        {
+          "internalType": "bytes32[]",
+          "name": "allowListProof",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "inviteCode",
+          "type": "bytes32"
         }
       ],
-      "stateMutability": "view",
+      "name": "startAttempt",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
       "inputs": [
         {
           "internalType": "uint256",
-          "name": "",
+          "name": "examId",
           "type": "uint256"
         },
         {
           "internalType": "address",
-          "name": "",
+          "name": "student",
           "type": "address"
         }
       ],
@@ -478,6 +1928,11 @@ export const CipherExamABI = {
           "name": "isPassed",
           "type": "bytes32"
         },
+        {
+          "internalType": "euint32",
+          "name": "gradeIndex",
+          "type": "bytes32"
+        },
         {
           "internalType": "uint256",
           "name": "submittedAt",
@@ -487,6 +1942,11 @@ export const CipherExamABI = {
           "internalType": "bool",
           "name": "exists",
           "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "isComputed",
+          "type": "bool"
         }
       ],
       "stateMutability": "view",
@@ -508,12 +1968,55 @@ export const CipherExamABI = {
           "internalType": "bytes",
           "name": "inputProof",
           "type": "bytes"
+        },
+        {
+          "internalType": "bytes32[]",
+          "name": "allowListProof",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "inviteCode",
+          "type": "bytes32"
         }
       ],
       "name": "submitAnswers",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "examId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "externalEuint32[]",
+          "name": "answers",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        },
+        {
+          "internalType": "bytes32[]",
+          "name": "allowListProof",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "inviteCode",
+          "type": "bytes32"
+        }
+      ],
+      "name": "submitEncryptedAnswers",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
     }
   ]
 } as const;
@@ -4,6 +4,6 @@
   Command: 'npm run genabi'
 */
 export const CipherExamAddresses = { 
-  "11155111": { address: "0x3cAd83Bd5d2595B1B3900Acd68f4b36E39038C1A", chainId: 11155111, chainName: "sepolia" },
-  "31337": { address: "0x75B7D33aE14728D0278A8e8682E56B217682ceFa", chainId: 31337, chainName: "hardhat" },
+  "11155111": { address: "0x3cAd83Bd5d2595B1B3900Acd68f4b36E39038C1A", chainId: 11155111, chainName: "sepolia", deploymentBlock: 0 },
+  "31337": { address: "0x75B7D33aE14728D0278A8e8682E56B217682ceFa", chainId: 31337, chainName: "hardhat", deploymentBlock: 0 },
 };
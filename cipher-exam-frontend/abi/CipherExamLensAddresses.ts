@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const CipherExamLensAddresses = { 
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia", deploymentBlock: 0 },
+  "31337": { address: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512", chainId: 31337, chainName: "hardhat", deploymentBlock: 0 },
+};
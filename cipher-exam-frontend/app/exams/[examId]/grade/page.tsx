@@ -0,0 +1,361 @@
+"use client";
+
+import { useState, useEffect, useCallback, use } from "react";
+import { Navigation } from "@/components/Navigation";
+import { useCipherExam } from "@/hooks/useCipherExam";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { Contract } from "ethers";
+import { CipherExamABI } from "@/abi/CipherExamABI";
+import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
+import { Question } from "@/types/exam";
+import { getQuestionStores, loadVerifiedQuestions } from "@/lib/questionStore";
+import {
+  EssaySubmission,
+  essaySubmissionKey,
+  getEssayStores,
+  loadEssaySubmissions,
+  parseHandGradedText,
+} from "@/lib/essayStore";
+import { decryptAsGrader, deriveGraderKey } from "@/lib/essayEncryption";
+import { answerKeyOrder, resolveSlots } from "@/lib/questionPools";
+import { shuffleSeed } from "@/lib/shuffle";
+import { isManualQuestion } from "@/lib/answerEncoding";
+import { calculateScore } from "@/lib/scoring";
+
+type EssayRow = {
+  student: string;
+  attempt: number; // Index of the attempt, oldest first
+  slots: number[]; // Question index in each slot, as drawn for this student
+  submission: EssaySubmission | null;
+  texts: Record<number, string> | null;
+  isTampered: boolean; // An answer was not encrypted for this student, attempt and question
+};
+
+export default function GradeEssaysPage({ params }: { params: Promise<{ examId: string }> }) {
+  // Next.js 15 requires params to be a Promise in client components
+  const resolvedParams = use(params);
+  const examIdStr = resolvedParams.examId;
+  const { chainId, ethersReadonlyProvider, ethersSigner, isConnected, accounts, connect } = useMetaMaskEthersSigner();
+  const { contract, gradeQuestion } = useCipherExam();
+
+  const [examInfo, setExamInfo] = useState<any>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [rows, setRows] = useState<EssayRow[]>([]);
+  // Keyed by `${student}:${attempt}:${questionIndex}`
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [graded, setGraded] = useState<Record<string, number>>({});
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [gradingKey, setGradingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEssays = useCallback(async () => {
+    if (!chainId || !ethersReadonlyProvider) return;
+
+    const address = CipherExamAddresses[String(chainId) as keyof typeof CipherExamAddresses]?.address;
+    if (!address || address === "0x0000000000000000000000000000000000000000") return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const contractInstance = new Contract(address, CipherExamABI.abi, ethersReadonlyProvider);
+      const examId = BigInt(examIdStr);
+
+      const info = await contractInstance.getExamInfo(examId);
+      const contentHash: string = await contractInstance.getContentHash(examId);
+      const gradedOnChain: boolean = await contractInstance.isGradedOnChain(examId);
+      const { manualQuestions } = await contractInstance.exams(examId);
+      setExamInfo({
+        title: info.title,
+        creator: info.creator as string,
+        questionScores: info.questionScores.map((s: bigint) => Number(s)),
+        gradedOnChain,
+        manualQuestions: BigInt(manualQuestions),
+      });
+
+      const verified = await loadVerifiedQuestions(getQuestionStores(), examIdStr, contentHash);
+      setQuestions(verified?.questions ?? []);
+
+      const essays = await loadEssaySubmissions(getEssayStores(), examIdStr);
+      const byKey = new Map(essays.map((essay) => [essaySubmissionKey(essay.student, essay.attempt), essay]));
+
+      const students: string[] = await contractInstance.getExamStudents(examId);
+      const loaded = await Promise.all(
+        students.map(async (student): Promise<EssayRow[]> => {
+          const [submittedAt] = await contractInstance.getAttempts(examId, student);
+          const slots = resolveSlots(verified?.questions ?? [], shuffleSeed(examIdStr, student));
+          return submittedAt.map((_: bigint, attempt: number) => ({
+            student,
+            attempt,
+            slots,
+            submission: byKey.get(essaySubmissionKey(student, attempt)) ?? null,
+            texts: null,
+            isTampered: false,
+          }));
+        })
+      );
+      setRows(loaded.flat());
+    } catch (err) {
+      console.error("Failed to load essays:", err);
+      setError(err instanceof Error ? err.message : "Failed to load essays");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chainId, ethersReadonlyProvider, examIdStr]);
+
+  useEffect(() => {
+    loadEssays();
+  }, [loadEssays]);
+
+  const handleUnlock = async () => {
+    if (!ethersSigner || !contract) return;
+
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      const graderKey = await deriveGraderKey(ethersSigner);
+      const registeredKey: string = await contract.graderKeys(examInfo.creator);
+      if (registeredKey.toLowerCase() !== graderKey.publicKey.toLowerCase()) {
+        throw new Error("This wallet's grader key does not match the one students encrypted to");
+      }
+
+      const unlocked = await Promise.all(
+        rows.map(async (row) => {
+          if (!row.submission) return row;
+          const texts: Record<number, string> = {};
+          let isTampered = false;
+          for (const [index, envelope] of Object.entries(row.submission.answers)) {
+            const questionIndex = Number(index);
+            const context = { examId: examIdStr, student: row.student, attempt: row.attempt, questionIndex };
+            try {
+              texts[questionIndex] = await decryptAsGrader(graderKey, envelope, context);
+            } catch {
+              isTampered = true;
+            }
+          }
+          return { ...row, texts, isTampered };
+        })
+      );
+      setRows(unlocked);
+
+      // Suggest the score of answers this browser can check, e.g. partial credit with the full questions
+      const suggested: Record<string, string> = {};
+      for (const row of unlocked) {
+        for (const [index, text] of Object.entries(row.texts ?? {})) {
+          const question = questions[row.slots[Number(index)]];
+          if (question.type === "essay" || !question.correctAnswer) continue;
+          const answer = parseHandGradedText(question, text);
+          suggested[`${row.student}:${row.attempt}:${index}`] = String(
+            calculateScore(question, { questionId: question.id, answer })
+          );
+        }
+      }
+      setScores((current) => ({ ...suggested, ...current }));
+    } catch (err) {
+      console.error("Failed to decrypt essays:", err);
+      setError(err instanceof Error ? err.message : "Failed to decrypt essays");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleGrade = async (student: string, attempt: number, questionIndex: number) => {
+    const key = `${student}:${attempt}:${questionIndex}`;
+    const score = parseInt(scores[key] ?? "");
+    const maxScore = examInfo.questionScores[questionIndex];
+    if (isNaN(score) || score < 0 || score > maxScore) {
+      setError(`Enter a score between 0 and ${maxScore}`);
+      return;
+    }
+
+    setGradingKey(key);
+    setError(null);
+    try {
+      await gradeQuestion(BigInt(examIdStr), student, attempt, questionIndex, score);
+      setGraded((current) => ({ ...current, [key]: score }));
+    } catch (err) {
+      console.error("Failed to grade question:", err);
+      setError(err instanceof Error ? err.message : "Failed to grade question");
+    } finally {
+      setGradingKey(null);
+    }
+  };
+
+  // Essays, plus the questions an on-chain graded exam leaves to the creator (indexed by answer key entry)
+  const keyOrder = answerKeyOrder(questions);
+  const isHandGraded = (questionIndex: number) =>
+    questions[questionIndex].type === "essay" ||
+    (examInfo?.gradedOnChain && isManualQuestion(examInfo.manualQuestions, keyOrder.indexOf(questionIndex)));
+  const hasHandGraded =
+    questions.some((q) => q.type === "essay") || (examInfo?.gradedOnChain && examInfo.manualQuestions !== BigInt(0));
+
+  // Hand-graded answers other than essays are shown as the student picked them
+  const formatAnswer = (question: Question, text: string): string => {
+    const answer = parseHandGradedText(question, text);
+    if (!Array.isArray(answer)) return answer;
+    if (question.type === "matching") {
+      return (question.options ?? []).map((left, i) => `${left} → ${answer[i] ?? ""}`).join("\n");
+    }
+    return answer.join(question.type === "ordering" ? " > " : ", ");
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-4xl">
+          <h1 className="text-3xl font-bold mb-8">Grade Answers {examIdStr}</h1>
+          <div className="bg-card p-6 rounded-lg shadow-card text-center">
+            <p className="mb-4">Please connect your wallet to grade answers.</p>
+            <button
+              onClick={connect}
+              className="px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!examInfo) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-4xl">
+          <h1 className="text-3xl font-bold mb-8">Grade Answers {examIdStr}</h1>
+          <div className="bg-card p-6 rounded-lg shadow-card">
+            <p>{error ?? "Loading essays..."}</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (examInfo.creator.toLowerCase() !== accounts?.[0]?.toLowerCase()) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-4xl">
+          <h1 className="text-3xl font-bold mb-8">{examInfo.title} - Grade Answers</h1>
+          <div className="bg-card p-6 rounded-lg shadow-card">
+            <p className="text-muted-foreground">Only the exam creator can grade answers.</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const isUnlocked = rows.some((row) => row.texts !== null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold">{examInfo.title} - Grade Answers</h1>
+          <button
+            onClick={handleUnlock}
+            disabled={isUnlocking || isUnlocked || rows.every((row) => !row.submission)}
+            className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUnlocking ? "Decrypting..." : "Decrypt Answers"}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-error/10 text-error rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {isLoading && rows.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">Loading submissions...</p>
+          </div>
+        ) : !hasHandGraded ? (
+          <div className="bg-card p-6 rounded-lg shadow-card text-center">
+            <p className="text-muted-foreground">
+              {questions.length === 0
+                ? "The questions of this exam are not available in this browser."
+                : "This exam has no hand-graded questions."}
+            </p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="bg-card p-6 rounded-lg shadow-card text-center">
+            <p className="text-muted-foreground">No submissions yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {rows.map((row) => (
+              <div key={`${row.student}:${row.attempt}`} className="bg-card p-6 rounded-lg shadow-card">
+                <p className="font-mono text-xs mb-1">{row.student}</p>
+                <p className="text-sm text-muted-foreground mb-4">Attempt {row.attempt + 1}</p>
+
+                {row.isTampered && (
+                  <p className="text-sm text-error mb-4">
+                    Some answers were not encrypted for this attempt and may have been copied from another submission.
+                  </p>
+                )}
+
+                {!row.submission ? (
+                  <p className="text-sm text-muted-foreground">No hand-graded answers were found for this attempt.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {row.slots.flatMap((q, slot) => (isHandGraded(q) ? [slot] : [])).map((questionIndex) => {
+                      const key = `${row.student}:${row.attempt}:${questionIndex}`;
+                      return (
+                        <div key={questionIndex} className="border border-border rounded-lg p-4">
+                          <h3 className="font-semibold mb-2">
+                            Question {questionIndex + 1}: {questions[row.slots[questionIndex]].title}
+                          </h3>
+                          <p className="text-sm whitespace-pre-wrap mb-4">
+                            {row.texts === null ? (
+                              <span className="text-muted-foreground">Encrypted</span>
+                            ) : (
+                              (row.texts[questionIndex] !== undefined &&
+                                formatAnswer(questions[row.slots[questionIndex]], row.texts[questionIndex])) || (
+                                <span className="text-muted-foreground">No answer</span>
+                              )
+                            )}
+                          </p>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min="0"
+                              max={examInfo.questionScores[questionIndex]}
+                              value={scores[key] ?? ""}
+                              onChange={(e) => setScores((current) => ({ ...current, [key]: e.target.value }))}
+                              className="w-24 px-3 py-1 border border-border rounded-lg"
+                            />
+                            <span className="text-sm text-muted-foreground">
+                              / {examInfo.questionScores[questionIndex]}
+                            </span>
+                            <button
+                              onClick={() => handleGrade(row.student, row.attempt, questionIndex)}
+                              disabled={gradingKey !== null || row.texts === null}
+                              className="px-3 py-1 text-primary border border-primary rounded-lg hover:bg-primary/10 disabled:opacity-50"
+                            >
+                              {gradingKey === key ? "Saving..." : "Save Grade"}
+                            </button>
+                            {graded[key] !== undefined && (
+                              <span className="text-sm text-success">Graded: {graded[key]}</span>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { useState, useEffect, useCallback, use } from "react";
+import { Navigation } from "@/components/Navigation";
+import { useCipherExam } from "@/hooks/useCipherExam";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { Contract } from "ethers";
+import { CipherExamABI } from "@/abi/CipherExamABI";
+import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { ExamStatus } from "@/lib/examStatus";
+
+type GradeRow = {
+  student: string;
+  submittedAt: number;
+  isComputed: boolean;
+  encryptedTotal: string | null;
+  encryptedPassed: string | null;
+  total: number | null;
+  passed: boolean | null;
+};
+
+type SortKey = "student" | "submittedAt" | "total" | "passed";
+
+export default function GradesPage({ params }: { params: Promise<{ examId: string }> }) {
+  // Next.js 15 requires params to be a Promise in client components
+  const resolvedParams = use(params);
+  const examIdStr = resolvedParams.examId;
+  const { chainId, ethersReadonlyProvider, ethersSigner, isConnected, accounts, connect } = useMetaMaskEthersSigner();
+  const { contract, fhevmInstance, computeTotalAndJudge, revealStatistics } = useCipherExam();
+  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+
+  const [examInfo, setExamInfo] = useState<any>(null);
+  const [rows, setRows] = useState<GradeRow[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>("submittedAt");
+  const [sortAsc, setSortAsc] = useState(false);
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [computingStudent, setComputingStudent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGrades = useCallback(async () => {
+    if (!chainId || !ethersReadonlyProvider) return;
+
+    const address = CipherExamAddresses[String(chainId) as keyof typeof CipherExamAddresses]?.address;
+    if (!address || address === "0x0000000000000000000000000000000000000000") return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const contractInstance = new Contract(address, CipherExamABI.abi, ethersReadonlyProvider);
+      const examId = BigInt(examIdStr);
+
+      const info = await contractInstance.getExamInfo(examId);
+      const status = await contractInstance.getExamStatus(examId);
+      const stats = await contractInstance.getExamStatistics(examId);
+      setExamInfo({
+        title: info.title,
+        creator: info.creator as string,
+        status: Number(status),
+        isRevealed: Boolean(stats.isRevealed),
+        maxTotal: info.questionScores.reduce((sum: number, s: bigint) => sum + Number(s), 0),
+      });
+
+      const students: string[] = await contractInstance.getExamStudents(examId);
+      const loaded = await Promise.all(
+        students.map(async (student): Promise<GradeRow> => {
+          const submission = await contractInstance.submissions(examId, student);
+          const isComputed = Boolean(submission.isComputed);
+          return {
+            student,
+            submittedAt: Number(submission.submittedAt),
+            isComputed,
+            encryptedTotal: isComputed ? await contractInstance.getMyEncryptedTotal(examId, student) : null,
+            encryptedPassed: isComputed ? await contractInstance.getMyPassedStatus(examId, student) : null,
+            total: null,
+            passed: null,
+          };
+        })
+      );
+      setRows(loaded);
+    } catch (err) {
+      console.error("Failed to load grades:", err);
+      setError(err instanceof Error ? err.message : "Failed to load grades");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chainId, ethersReadonlyProvider, examIdStr]);
+
+  useEffect(() => {
+    loadGrades();
+  }, [loadGrades]);
+
+  const handleDecryptAll = async () => {
+    if (!fhevmInstance || !contract || !ethersSigner) return;
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      const contractAddress = await contract.getAddress();
+
+      // A single signature covers every handle of this contract
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevmInstance,
+        [contractAddress],
+        ethersSigner,
+        fhevmDecryptionSignatureStorage
+      );
+
+      if (!sig) {
+        throw new Error("Unable to build FHEVM decryption signature");
+      }
+
+      const handles = rows.flatMap((row) =>
+        row.encryptedTotal && row.encryptedPassed
+          ? [
+              { handle: row.encryptedTotal, contractAddress },
+              { handle: row.encryptedPassed, contractAddress },
+            ]
+          : []
+      );
+
+      if (handles.length === 0) return;
+
+      const res = await fhevmInstance.userDecrypt(
+        handles,
+        sig.privateKey,
+        sig.publicKey,
+        sig.signature,
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
+      );
+
+      setRows((current) =>
+        current.map((row) => {
+          if (!row.encryptedTotal || !row.encryptedPassed) return row;
+          const passedValue = (res as any)[row.encryptedPassed];
+          return {
+            ...row,
+            total: Number((res as any)[row.encryptedTotal] || BigInt(0)),
+            passed: typeof passedValue === "boolean" ? passedValue : Boolean(passedValue),
+          };
+        })
+      );
+    } catch (err) {
+      console.error("Failed to decrypt:", err);
+      setError(err instanceof Error ? err.message : "Failed to decrypt");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleCompute = async (student: string) => {
+    setComputingStudent(student);
+    setError(null);
+    try {
+      await computeTotalAndJudge(BigInt(examIdStr), student);
+      await loadGrades();
+    } catch (err) {
+      console.error("Failed to compute total:", err);
+      setError(err instanceof Error ? err.message : "Failed to compute total");
+    } finally {
+      setComputingStudent(null);
+    }
+  };
+
+  const handleRevealStatistics = async () => {
+    // Revealed statistics are frozen, so no answer can be graded afterwards
+    if (!confirm("Statistics can only be revealed once, and no answer can be graded afterwards. Reveal them now?")) {
+      return;
+    }
+    setIsRevealing(true);
+    setError(null);
+    try {
+      await revealStatistics(BigInt(examIdStr));
+      setExamInfo((current: any) => ({ ...current, isRevealed: true }));
+      alert("Class statistics are now publicly visible on the results page.");
+    } catch (err) {
+      console.error("Failed to reveal statistics:", err);
+      setError(err instanceof Error ? err.message : "Failed to reveal statistics");
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(true);
+    }
+  };
+
+  const sortedRows = [...rows].sort((a, b) => {
+    let cmp: number;
+    switch (sortKey) {
+      case "student":
+        cmp = a.student.localeCompare(b.student);
+        break;
+      case "submittedAt":
+        cmp = a.submittedAt - b.submittedAt;
+        break;
+      case "total":
+        cmp = (a.total ?? -1) - (b.total ?? -1);
+        break;
+      case "passed":
+        cmp = Number(a.passed ?? -1) - Number(b.passed ?? -1);
+        break;
+    }
+    return sortAsc ? cmp : -cmp;
+  });
+
+  const sortIndicator = (key: SortKey) => (key === sortKey ? (sortAsc ? " ▲" : " ▼") : "");
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-5xl">
+          <h1 className="text-3xl font-bold mb-8">Gradebook {examIdStr}</h1>
+          <div className="bg-card p-6 rounded-lg shadow-card text-center">
+            <p className="mb-4">Please connect your wallet to view the gradebook.</p>
+            <button
+              onClick={connect}
+              className="px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!examInfo) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-5xl">
+          <h1 className="text-3xl font-bold mb-8">Gradebook {examIdStr}</h1>
+          <div className="bg-card p-6 rounded-lg shadow-card">
+            <p>{error ?? "Loading gradebook..."}</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (examInfo.creator.toLowerCase() !== accounts?.[0]?.toLowerCase()) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-5xl">
+          <h1 className="text-3xl font-bold mb-8">{examInfo.title} - Gradebook</h1>
+          <div className="bg-card p-6 rounded-lg shadow-card">
+            <p className="text-muted-foreground">Only the exam creator can view the gradebook.</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold">{examInfo.title} - Gradebook</h1>
+          <div className="flex gap-2">
+            {(examInfo.status === ExamStatus.Closed || examInfo.status === ExamStatus.Cancelled) && (
+              <button
+                onClick={handleRevealStatistics}
+                disabled={isRevealing || examInfo.isRevealed || rows.every((r) => !r.isComputed)}
+                className="px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {examInfo.isRevealed ? "Statistics Revealed" : isRevealing ? "Revealing..." : "Reveal Class Statistics"}
+              </button>
+            )}
+            <button
+              onClick={handleDecryptAll}
+              disabled={isDecrypting || !fhevmInstance || rows.every((r) => !r.isComputed)}
+              className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDecrypting ? "Decrypting..." : "Decrypt All Totals"}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-error/10 text-error rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {isLoading && rows.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">Loading submissions...</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="bg-card p-6 rounded-lg shadow-card text-center">
+            <p className="text-muted-foreground">No submissions yet.</p>
+          </div>
+        ) : (
+          <div className="bg-card rounded-lg shadow-card overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b border-border text-left">
+                <tr>
+                  <th className="p-4 cursor-pointer" onClick={() => toggleSort("student")}>
+                    Student{sortIndicator("student")}
+                  </th>
+                  <th className="p-4 cursor-pointer" onClick={() => toggleSort("submittedAt")}>
+                    Submitted{sortIndicator("submittedAt")}
+                  </th>
+                  <th className="p-4 cursor-pointer" onClick={() => toggleSort("total")}>
+                    Total{sortIndicator("total")}
+                  </th>
+                  <th className="p-4 cursor-pointer" onClick={() => toggleSort("passed")}>
+                    Status{sortIndicator("passed")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map((row) => (
+                  <tr key={row.student} className="border-b border-border last:border-0">
+                    <td className="p-4 font-mono text-xs">{row.student}</td>
+                    <td className="p-4">{new Date(row.submittedAt * 1000).toLocaleString()}</td>
+                    <td className="p-4">
+                      {!row.isComputed ? (
+                        <button
+                          onClick={() => handleCompute(row.student)}
+                          disabled={computingStudent !== null}
+                          className="px-3 py-1 text-primary border border-primary rounded-lg hover:bg-primary/10 disabled:opacity-50"
+                        >
+                          {computingStudent === row.student ? "Computing..." : "Compute"}
+                        </button>
+                      ) : row.total === null ? (
+                        <span className="text-muted-foreground">Encrypted</span>
+                      ) : (
+                        <span className="font-semibold">
+                          {row.total}/{examInfo.maxTotal}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      {row.passed === null ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : row.passed ? (
+                        <span className="text-success font-semibold">Passed</span>
+                      ) : (
+                        <span className="text-error font-semibold">Failed</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useEffect, useCallback, use } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Navigation } from "@/components/Navigation";
+import { useCipherExam } from "@/hooks/useCipherExam";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { Contract, ZeroAddress } from "ethers";
+import { CipherExamABI } from "@/abi/CipherExamABI";
+import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
+import { ExamStatus, getStatusLabel } from "@/lib/examStatus";
+import { Question } from "@/types/exam";
+import { getQuestionStores, loadVerifiedQuestions } from "@/lib/questionStore";
+import { QuestionFormat, exportQuestions } from "@/lib/questionFormats";
+import { createDraft, emptyExamForm } from "@/lib/examDrafts";
+
+type ExamDetails = {
+  title: string;
+  creator: string;
+  questionCount: number;
+  maxTotal: number;
+  startTime: number;
+  endTime: number;
+  status: ExamStatus;
+  submissionCount: number;
+  maxAttempts: number;
+  scoringPolicy: number;
+  durationSeconds: number;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  isDraft: boolean;
+};
+
+export default function ExamPage({ params }: { params: Promise<{ examId: string }> }) {
+  // Next.js 15 requires params to be a Promise in client components
+  const resolvedParams = use(params);
+  const examIdStr = resolvedParams.examId;
+  const router = useRouter();
+  const { chainId, ethersReadonlyProvider, isConnected, accounts, connect } = useMetaMaskEthersSigner();
+  const { cancelExam, extendEndTime, closeExam, publishExam, isLoading } = useCipherExam();
+
+  const [exam, setExam] = useState<ExamDetails | null>(null);
+  const [newEndTime, setNewEndTime] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<Question[] | null>(null);
+  const [exportWarnings, setExportWarnings] = useState<string[]>([]);
+
+  const loadExam = useCallback(async () => {
+    if (!chainId || !ethersReadonlyProvider) return;
+
+    const address = CipherExamAddresses[String(chainId) as keyof typeof CipherExamAddresses]?.address;
+    if (!address || address === "0x0000000000000000000000000000000000000000") return;
+
+    try {
+      const contract = new Contract(address, CipherExamABI.abi, ethersReadonlyProvider);
+      const examId = BigInt(examIdStr);
+      const info = await contract.getExamInfo(examId);
+      const status = await contract.getExamStatus(examId);
+      const students: string[] = await contract.getExamStudents(examId);
+      const [maxAttempts, scoringPolicy] = await contract.getAttemptPolicy(examId);
+      const [durationSeconds] = await contract.getTimeLimit(examId, ZeroAddress);
+      const [shuffleQuestions, shuffleOptions] = await contract.getShuffle(examId);
+      const { isDraft } = await contract.exams(examId);
+
+      setExam({
+        title: info.title,
+        creator: info.creator,
+        questionCount: Number(info.questionCount),
+        maxTotal: info.questionScores.reduce((sum: number, s: bigint) => sum + Number(s), 0),
+        startTime: Number(info.startTime),
+        endTime: Number(info.endTime),
+        status: Number(status),
+        submissionCount: students.length,
+        maxAttempts: Number(maxAttempts),
+        scoringPolicy: Number(scoringPolicy),
+        durationSeconds: Number(durationSeconds),
+        shuffleQuestions: Boolean(shuffleQuestions),
+        shuffleOptions: Boolean(shuffleOptions),
+        isDraft: Boolean(isDraft),
+      });
+
+      const contentHash: string = await contract.getContentHash(examId);
+      const verified = await loadVerifiedQuestions(getQuestionStores(), examIdStr, contentHash).catch(() => null);
+      setQuestions(verified?.questions ?? null);
+    } catch (err) {
+      console.error("Failed to load exam:", err);
+      setError(err instanceof Error ? err.message : "Failed to load exam");
+    }
+  }, [chainId, ethersReadonlyProvider, examIdStr]);
+
+  useEffect(() => {
+    loadExam();
+  }, [loadExam]);
+
+  const runAction = async (action: () => Promise<unknown>): Promise<boolean> => {
+    setError(null);
+    try {
+      await action();
+      await loadExam();
+      return true;
+    } catch (err) {
+      console.error("Exam update failed:", err);
+      setError(err instanceof Error ? err.message : "Exam update failed");
+      return false;
+    }
+  };
+
+  const handleExtend = () => {
+    const timestamp = Math.floor(new Date(newEndTime).getTime() / 1000);
+    if (!newEndTime || !exam || timestamp <= exam.endTime) {
+      setError("The new end time must be later than the current one");
+      return;
+    }
+    runAction(() => extendEndTime(BigInt(examIdStr), timestamp)).then((ok) => ok && setNewEndTime(""));
+  };
+
+  const handleClose = () => {
+    if (!confirm("Close this exam now? Students will no longer be able to submit.")) return;
+    runAction(() => closeExam(BigInt(examIdStr)));
+  };
+
+  const handlePublish = () => {
+    runAction(() => publishExam(BigInt(examIdStr)));
+  };
+
+  const handleCancel = () => {
+    if (!confirm("Cancel this exam? This cannot be undone.")) return;
+    runAction(() => cancelExam(BigInt(examIdStr)));
+  };
+
+  const handleExport = (format: QuestionFormat) => {
+    if (!questions) return;
+    setExportWarnings(exportQuestions(questions, format, `exam-${examIdStr}`));
+  };
+
+  // Start a new draft with this exam's questions and settings; dates and access are set per run,
+  // and the passing score is encrypted on-chain, so the creator enters those again
+  const handleClone = async () => {
+    if (!exam || !questions) return;
+    const draft = await createDraft({
+      ...emptyExamForm(),
+      title: exam.title,
+      maxAttempts: exam.maxAttempts,
+      scoringPolicy: exam.scoringPolicy,
+      durationMinutes: Math.round(exam.durationSeconds / 60),
+      shuffleQuestions: exam.shuffleQuestions,
+      shuffleOptions: exam.shuffleOptions,
+      questions,
+    });
+    const missingAnswers = questions.some((q) => q.type !== "essay" && !q.correctAnswer);
+    alert(
+      "Set the dates and passing score of the copy before creating it." +
+        (missingAnswers ? "\nThis browser only has the public questions, so fill in the correct answers as well." : "")
+    );
+    router.push(`/exams/create/?draft=${draft.id}`);
+  };
+
+  if (!exam) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-4xl">
+          <h1 className="text-3xl font-bold mb-8">Exam {examIdStr}</h1>
+          <div className="bg-card p-6 rounded-lg shadow-card">
+            <p>{error ?? "Loading exam information..."}</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const statusInfo = getStatusLabel(exam.status, exam.isDraft);
+  const isCreator = isConnected && exam.creator.toLowerCase() === accounts?.[0]?.toLowerCase();
+  const isManageable = exam.status === ExamStatus.Scheduled || exam.status === ExamStatus.Open;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex justify-between items-start mb-8">
+          <h1 className="text-3xl font-bold">{exam.title}</h1>
+          <span className={`px-2 py-1 text-xs rounded ${statusInfo.color}`}>{statusInfo.label}</span>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-error/10 text-error rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-card p-6 rounded-lg shadow-card mb-6 space-y-2 text-sm">
+          <p>Questions: {exam.questionCount} ({exam.maxTotal} points)</p>
+          <p>Start: {new Date(exam.startTime * 1000).toLocaleString()}</p>
+          <p>End: {new Date(exam.endTime * 1000).toLocaleString()}</p>
+          <p>Submissions: {exam.submissionCount}</p>
+          <p className="text-muted-foreground">
+            Creator: <span className="font-mono text-xs">{exam.creator}</span>
+          </p>
+        </div>
+
+        {!isConnected && (
+          <div className="bg-card p-6 rounded-lg shadow-card text-center mb-6">
+            <p className="mb-4">Please connect your wallet to take this exam.</p>
+            <button
+              onClick={connect}
+              className="px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90"
+            >
+              Connect Wallet
+            </button>
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-6">
+          {exam.status === ExamStatus.Open && isConnected && (
+            <Link
+              href={`/exams/${examIdStr}/take`}
+              className="flex-1 text-center px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+            >
+              Take Exam
+            </Link>
+          )}
+          {exam.status === ExamStatus.Closed && isConnected && (
+            <Link
+              href={`/exams/${examIdStr}/results`}
+              className="flex-1 text-center px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10"
+            >
+              View Results
+            </Link>
+          )}
+          {isCreator && (
+            <Link
+              href={`/exams/${examIdStr}/grades`}
+              className="flex-1 text-center px-4 py-2 border border-border rounded-lg hover:bg-muted/50"
+            >
+              Gradebook
+            </Link>
+          )}
+          {isCreator && (
+            <Link
+              href={`/exams/${examIdStr}/grade`}
+              className="flex-1 text-center px-4 py-2 border border-border rounded-lg hover:bg-muted/50"
+            >
+              Grade Answers
+            </Link>
+          )}
+          {isCreator && questions && (
+            <button
+              onClick={handleClone}
+              className="flex-1 text-center px-4 py-2 border border-border rounded-lg hover:bg-muted/50"
+            >
+              Clone Exam
+            </button>
+          )}
+        </div>
+
+        {questions && (
+          <div className="bg-card p-6 rounded-lg shadow-card mb-6">
+            <h2 className="text-xl font-semibold mb-2">Export Questions</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              For Moodle and other LMSs. Answers are only included if this browser has them.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleExport("gift")}
+                className="flex-1 px-4 py-2 border border-border rounded-lg hover:bg-muted/50"
+              >
+                Moodle GIFT
+              </button>
+              <button
+                onClick={() => handleExport("qti")}
+                className="flex-1 px-4 py-2 border border-border rounded-lg hover:bg-muted/50"
+              >
+                QTI 2.1 Package
+              </button>
+            </div>
+            {exportWarnings.map((warning, i) => (
+              <p key={i} className="text-sm text-error mt-2">
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {isCreator && isManageable && (
+          <div className="bg-card p-6 rounded-lg shadow-card space-y-6">
+            <h2 className="text-xl font-semibold">Manage Exam</h2>
+
+            {exam.isDraft && (
+              <div className="p-4 bg-muted/50 rounded-lg flex justify-between items-center gap-4">
+                <p className="text-sm">
+                  This exam is a draft and does not accept submissions until it is published.
+                </p>
+                <button
+                  onClick={handlePublish}
+                  disabled={isLoading}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Publish
+                </button>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Extend End Time</label>
+              <div className="flex gap-2">
+                <input
+                  type="datetime-local"
+                  value={newEndTime}
+                  onChange={(e) => setNewEndTime(e.target.value)}
+                  className="flex-1 px-4 py-2 border border-border rounded-lg"
+                />
+                <button
+                  onClick={handleExtend}
+                  disabled={isLoading || !newEndTime}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Extend
+                </button>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              {exam.status === ExamStatus.Open && (
+                <button
+                  onClick={handleClose}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Close Early
+                </button>
+              )}
+              <button
+                onClick={handleCancel}
+                disabled={isLoading}
+                className="flex-1 px-4 py-2 border border-error text-error rounded-lg hover:bg-error/10 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel Exam
+              </button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -9,6 +9,25 @@ import { Contract } from "ethers";
 import { CipherExamABI } from "@/abi/CipherExamABI";
 import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
 import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { ClassStatistics, summarizeStatistics } from "@/lib/statistics";
+import { SCORING_POLICY_LABELS, ScoringPolicy } from "@/lib/attemptPolicy";
+import { gradeLabel } from "@/lib/gradeBands";
+
+type SectionResult = {
+  name: string;
+  start: number; // First question index
+  end: number; // Exclusive end question index
+  encryptedTotal: string;
+  encryptedPassed: string;
+  decryptedTotal: number | null;
+  decryptedPassed: boolean | null;
+};
+
+type AttemptResult = {
+  submittedAt: number;
+  encryptedTotal: string;
+  decryptedTotal: number | null;
+};
 
 export default function ResultsPage({ params }: { params: Promise<{ examId: string }> }) {
   // Next.js 15 requires params to be a Promise in client components
@@ -22,10 +41,19 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
   const [encryptedTotal, setEncryptedTotal] = useState<string | null>(null);
   const [encryptedPassed, setEncryptedPassed] = useState<string | null>(null);
   const [encryptedScores, setEncryptedScores] = useState<string[]>([]);
+  const [encryptedGrade, setEncryptedGrade] = useState<string | null>(null);
+  const [gradeLabels, setGradeLabels] = useState<string[]>([]);
+  const [sections, setSections] = useState<SectionResult[]>([]);
   
   const [decryptedTotal, setDecryptedTotal] = useState<number | null>(null);
   const [decryptedPassed, setDecryptedPassed] = useState<boolean | null>(null);
   const [decryptedScores, setDecryptedScores] = useState<number[]>([]);
+  const [decryptedGrade, setDecryptedGrade] = useState<number | null>(null);
+
+  const [attempts, setAttempts] = useState<AttemptResult[]>([]);
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>(ScoringPolicy.Best);
+  
+  const [classStats, setClassStats] = useState<ClassStatistics | null>(null);
   
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -46,6 +74,7 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
           title: info.title,
           questionCount: Number(info.questionCount),
           questionScores: info.questionScores.map((s: bigint) => Number(s)),
+          penalties: (await contractInstance.getPenalties(examId)).map((p: bigint) => Number(p)),
         });
 
         const total = await contractInstance.getMyEncryptedTotal(examId, accounts[0]);
@@ -55,6 +84,43 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
         setEncryptedTotal(total);
         setEncryptedPassed(passed);
         setEncryptedScores(scores);
+
+        const labels: string[] = [...(await contractInstance.getGradeBands(examId))];
+        setGradeLabels(labels);
+        if (labels.length > 0) {
+          setEncryptedGrade(await contractInstance.getGradeIndex(examId, accounts[0]));
+        }
+
+        const [sectionNames, sectionEnds] = await contractInstance.getSections(examId);
+        if (sectionNames.length > 0) {
+          const [sectionTotals, sectionPassed] = await contractInstance.getSectionResults(examId, accounts[0]);
+          setSections(
+            sectionTotals.map((handle: string, i: number) => ({
+              name: sectionNames[i],
+              start: i === 0 ? 0 : Number(sectionEnds[i - 1]),
+              end: Number(sectionEnds[i]),
+              encryptedTotal: handle,
+              encryptedPassed: sectionPassed[i],
+              decryptedTotal: null,
+              decryptedPassed: null,
+            }))
+          );
+        }
+
+        const [, policy] = await contractInstance.getAttemptPolicy(examId);
+        setScoringPolicy(Number(policy));
+
+        const submission = await contractInstance.submissions(examId, accounts[0]);
+        if (submission.exists) {
+          const [times, totals] = await contractInstance.getAttempts(examId, accounts[0]);
+          setAttempts(
+            totals.map((handle: string, i: number) => ({
+              submittedAt: Number(times[i]),
+              encryptedTotal: handle,
+              decryptedTotal: null,
+            }))
+          );
+        }
       } catch (err) {
         console.error("Failed to load results:", err);
         setError(err instanceof Error ? err.message : "Failed to load results");
@@ -64,6 +130,45 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
     loadExamAndResults();
   }, [chainId, ethersReadonlyProvider, accounts, examIdStr]);
 
+  useEffect(() => {
+    const loadClassStatistics = async () => {
+      if (!chainId || !ethersReadonlyProvider || !fhevmInstance) return;
+
+      const address = CipherExamAddresses[String(chainId) as keyof typeof CipherExamAddresses]?.address;
+      if (!address || address === "0x0000000000000000000000000000000000000000") return;
+
+      try {
+        const contractInstance = new Contract(address, CipherExamABI.abi, ethersReadonlyProvider);
+        const examId = BigInt(examIdStr);
+
+        const stats = await contractInstance.getExamStatistics(examId);
+        if (!stats.isRevealed) return;
+
+        const info = await contractInstance.getExamInfo(examId);
+        const maxTotal = info.questionScores.reduce((sum: number, s: bigint) => sum + Number(s), 0);
+
+        // Aggregates are publicly decryptable once the creator revealed them
+        const bucketHandles: string[] = [...stats.bucketCounts];
+        const res = await fhevmInstance.publicDecrypt([stats.totalSum, stats.passCount, ...bucketHandles]);
+        const clear = (handle: string) => Number(res.clearValues[handle as `0x${string}`] || BigInt(0));
+
+        setClassStats(
+          summarizeStatistics(
+            Number(stats.computedCount),
+            clear(stats.totalSum),
+            clear(stats.passCount),
+            bucketHandles.map(clear),
+            maxTotal
+          )
+        );
+      } catch (err) {
+        console.error("Failed to load class statistics:", err);
+      }
+    };
+
+    loadClassStatistics();
+  }, [chainId, ethersReadonlyProvider, fhevmInstance, examIdStr]);
+
   const handleDecrypt = async () => {
     if (!fhevmInstance || !contract || !ethersSigner || !accounts?.[0] || encryptedTotal === null) return;
 
@@ -86,12 +191,16 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
         throw new Error("Unable to build FHEVM decryption signature");
       }
 
-      // Prepare handles for decryption
-      const handles = [
-        { handle: encryptedTotal, contractAddress },
-        ...(encryptedPassed ? [{ handle: encryptedPassed, contractAddress }] : []),
-        ...encryptedScores.map((score) => ({ handle: score, contractAddress })),
-      ];
+      // Prepare handles for decryption; under the "last" policy the total is the latest attempt's handle
+      const uniqueHandles = new Set([
+        encryptedTotal,
+        ...(encryptedPassed ? [encryptedPassed] : []),
+        ...(encryptedGrade ? [encryptedGrade] : []),
+        ...sections.flatMap((section) => [section.encryptedTotal, section.encryptedPassed]),
+        ...encryptedScores,
+        ...attempts.map((attempt) => attempt.encryptedTotal),
+      ]);
+      const handles = [...uniqueHandles].map((handle) => ({ handle, contractAddress }));
 
       // Decrypt all handles at once
       const res = await fhevmInstance.userDecrypt(
@@ -113,8 +222,30 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
         setDecryptedPassed(typeof passedValue === "boolean" ? passedValue : Boolean(passedValue));
       }
 
-      const decrypted = encryptedScores.map((score) => Number((res as any)[score] || BigInt(0)));
+      if (encryptedGrade) {
+        setDecryptedGrade(Number((res as any)[encryptedGrade] || BigInt(0)));
+      }
+
+      // With negative marking, scores are stored offset by the question's penalty
+      const decrypted = encryptedScores.map(
+        (score, i) => Number((res as any)[score] || BigInt(0)) - (examInfo?.penalties[i] ?? 0)
+      );
       setDecryptedScores(decrypted);
+
+      setSections((prev) =>
+        prev.map((section) => ({
+          ...section,
+          decryptedTotal: Number((res as any)[section.encryptedTotal] || BigInt(0)),
+          decryptedPassed: Boolean((res as any)[section.encryptedPassed]),
+        }))
+      );
+
+      setAttempts((prev) =>
+        prev.map((attempt) => ({
+          ...attempt,
+          decryptedTotal: Number((res as any)[attempt.encryptedTotal] || BigInt(0)),
+        }))
+      );
     } catch (err) {
       console.error("Failed to decrypt:", err);
       setError(err instanceof Error ? err.message : "Failed to decrypt");
@@ -178,6 +309,11 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
                 <p className="text-sm text-muted-foreground">
                   Pass/Fail Handle: <span className="font-mono text-xs">{encryptedPassed}</span>
                 </p>
+                {encryptedGrade && (
+                  <p className="text-sm text-muted-foreground">
+                    Grade Handle: <span className="font-mono text-xs">{encryptedGrade}</span>
+                  </p>
+                )}
               </div>
 
               {decryptedTotal === null ? (
@@ -191,7 +327,14 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
               ) : (
                 <div className="mt-4 space-y-4">
                   <div className="p-4 bg-success/10 rounded-lg">
-                    <p className="text-lg font-semibold">Total Score: {decryptedTotal}</p>
+                    <p className="text-lg font-semibold">
+                      Total Score: {decryptedTotal}
+                      {attempts.length > 1 && (
+                        <span className="text-sm font-normal text-muted-foreground">
+                          {" "}({SCORING_POLICY_LABELS[scoringPolicy]}, {attempts.length} attempts)
+                        </span>
+                      )}
+                    </p>
                     <p className="text-sm">
                       Status: {decryptedPassed ? (
                         <span className="text-success font-semibold">Passed</span>
@@ -199,14 +342,75 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
                         <span className="text-error font-semibold">Failed</span>
                       )}
                     </p>
+                    {decryptedScores.some((score) => score < 0) && (
+                      <p className="text-sm text-error">
+                        Includes penalties for wrong answers:{" "}
+                        {decryptedScores.filter((score) => score < 0).reduce((sum, score) => sum + score, 0)} (the total
+                        never goes below 0)
+                      </p>
+                    )}
+                    {decryptedGrade !== null && (
+                      <p className="text-sm">
+                        Grade: <span className="font-semibold">{gradeLabel(gradeLabels, decryptedGrade)}</span>
+                      </p>
+                    )}
                   </div>
 
+                  {sections.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-2">Sections:</h3>
+                      <div className="space-y-1">
+                        {sections.map((section, index) => (
+                          <div key={index} className="flex justify-between p-2 bg-muted rounded text-sm">
+                            <span>
+                              {section.name} (questions {section.start + 1}-{section.end})
+                            </span>
+                            <span>
+                              <span className="font-semibold">
+                                {section.decryptedTotal} /{" "}
+                                {examInfo.questionScores
+                                  .slice(section.start, section.end)
+                                  .reduce((sum: number, score: number) => sum + score, 0)}
+                              </span>{" "}
+                              {section.decryptedPassed ? (
+                                <span className="text-success font-semibold">Passed</span>
+                              ) : (
+                                <span className="text-error font-semibold">Failed</span>
+                              )}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {attempts.length > 1 && (
+                    <div>
+                      <h3 className="font-semibold mb-2">Attempts:</h3>
+                      <div className="space-y-1">
+                        {attempts.map((attempt, index) => (
+                          <div key={index} className="flex justify-between p-2 bg-muted rounded text-sm">
+                            <span>
+                              #{index + 1} - {new Date(attempt.submittedAt * 1000).toLocaleString()}
+                            </span>
+                            <span className="font-semibold">{attempt.decryptedTotal}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div>
-                    <h3 className="font-semibold mb-2">Question Scores:</h3>
+                    <h3 className="font-semibold mb-2">
+                      {attempts.length > 1 ? "Question Scores (latest attempt):" : "Question Scores:"}
+                    </h3>
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                       {decryptedScores.map((score, index) => (
                         <div key={index} className="p-2 bg-muted rounded">
-                          <p className="text-sm">Q{index + 1}: {score}/{examInfo.questionScores[index]}</p>
+                          <p className="text-sm">
+                            Q{index + 1}: {score}/{examInfo.questionScores[index]}
+                            {score < 0 && <span className="text-error"> (wrong answer penalty)</span>}
+                          </p>
                         </div>
                       ))}
                     </div>
@@ -222,6 +426,41 @@ export default function ResultsPage({ params }: { params: Promise<{ examId: stri
             </div>
           </div>
         )}
+
+        {classStats && (
+          <div className="bg-card p-6 rounded-lg shadow-card mt-6">
+            <h2 className="text-xl font-semibold mb-4">Class Statistics</h2>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Students</p>
+                <p className="text-lg font-semibold">{classStats.count}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Mean Score</p>
+                <p className="text-lg font-semibold">{classStats.mean.toFixed(1)}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Pass Rate</p>
+                <p className="text-lg font-semibold">{(classStats.passRate * 100).toFixed(0)}%</p>
+              </div>
+            </div>
+            <h3 className="font-semibold mb-2">Score Distribution:</h3>
+            <div className="space-y-2">
+              {classStats.histogram.map((bucket) => (
+                <div key={bucket.label} className="flex items-center gap-3 text-sm">
+                  <span className="w-20 text-muted-foreground">{bucket.label}</span>
+                  <div className="flex-1 bg-muted rounded h-4">
+                    <div
+                      className="bg-primary rounded h-4"
+                      style={{ width: `${classStats.count > 0 ? (bucket.count / classStats.count) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="w-8 text-right">{bucket.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </main>
     </div>
   );
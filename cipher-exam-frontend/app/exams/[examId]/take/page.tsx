@@ -1,16 +1,44 @@
 "use client";
 
-import { useState, useEffect, use } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef, use } from "react";
 import { useRouter } from "next/navigation";
 import { Navigation } from "@/components/Navigation";
+import { ExamQuestionCard, initialAnswer } from "@/components/ExamQuestionCard";
 import { useCipherExam } from "@/hooks/useCipherExam";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { Contract } from "ethers";
+import { Contract, ZeroHash } from "ethers";
 import { CipherExamABI } from "@/abi/CipherExamABI";
 import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
 import { Question, StudentAnswer } from "@/types/exam";
-import { loadExamQuestions } from "@/lib/questionStorage";
-import { calculateScore } from "@/lib/scoring";
+import { JsonFileQuestionStore, getQuestionStores, loadVerifiedQuestions } from "@/lib/questionStore";
+import { offsetScore } from "@/lib/scoring";
+import { encodeAnswer, isManualQuestion } from "@/lib/answerEncoding";
+import { ExamStatus, getStatusLabel } from "@/lib/examStatus";
+import { SCORING_POLICY_LABELS, ScoringPolicy } from "@/lib/attemptPolicy";
+import { EncryptedEnvelope, encryptForGrader } from "@/lib/essayEncryption";
+import { getEssayStore, handGradedText } from "@/lib/essayStore";
+import { displayedOptions, questionOrder, shuffleSeed } from "@/lib/shuffle";
+import { answerKeyOrder, hasPools, resolveSlots } from "@/lib/questionPools";
+import {
+  ExamAccess,
+  OPEN_ACCESS,
+  allowListProof,
+  allowListRoot,
+  inviteCodeBytes,
+  inviteCodeHash,
+  loadRoster,
+  parseRosterCsv,
+} from "@/lib/allowList";
+
+const AUTO_SUBMIT_MARGIN_SECONDS = 15;
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
 
 export default function TakeExamPage({ params }: { params: Promise<{ examId: string }> }) {
   // Next.js 15 requires params to be a Promise in client components
@@ -18,12 +46,58 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
   const examIdStr = resolvedParams.examId;
   const router = useRouter();
   const { chainId, ethersReadonlyProvider, isConnected, accounts, connect } = useMetaMaskEthersSigner();
-  const { submitAnswers, computeTotalAndJudge, isLoading, error, fhevmInstance } = useCipherExam();
+  const {
+    contract,
+    submitAnswers,
+    submitEncryptedAnswers,
+    computeTotalAndJudge,
+    startAttempt,
+    isLoading,
+    error,
+    fhevmInstance,
+  } = useCipherExam();
   
   const [examInfo, setExamInfo] = useState<any>(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [loadedQuestions, setLoadedQuestions] = useState<Question[]>([]);
   const [studentAnswers, setStudentAnswers] = useState<StudentAnswer[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [questionError, setQuestionError] = useState<string | null>(null);
+  const [fileStore] = useState(() => new JsonFileQuestionStore());
+  const [rosterText, setRosterText] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [attempts, setAttempts] = useState<{ used: number; submitted: number; max: number; policy: ScoringPolicy } | null>(null);
+  const [timeLimit, setTimeLimit] = useState<{ duration: number; startedAt: number } | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  // Set while the countdown runs, so a page opened after the deadline does not auto-submit
+  const autoSubmitArmed = useRef(false);
+  // Hand-graded answers stored for an attempt whose transaction has not gone through yet; they cannot be replaced
+  const savedHandGraded = useRef<{ attempt: number; texts: string[] } | null>(null);
+
+  const seed = accounts?.[0] ? shuffleSeed(examIdStr, accounts[0]) : null;
+  // Index of the student's question in every slot; pools can only be drawn once the wallet is known
+  const slots = useMemo(() => {
+    if (!hasPools(loadedQuestions)) return loadedQuestions.map((_, i) => i);
+    return seed ? resolveSlots(loadedQuestions, seed) : [];
+  }, [loadedQuestions, seed]);
+  const questions = useMemo(() => slots.map((i) => loadedQuestions[i]), [slots, loadedQuestions]);
+
+  // Essays, plus the questions an on-chain graded exam leaves to the creator (indexed by answer key entry)
+  const keyOrder = useMemo(() => answerKeyOrder(loadedQuestions), [loadedQuestions]);
+  const isHandGraded = (question: Question, i: number) =>
+    question.type === "essay" ||
+    (examInfo?.gradedOnChain && isManualQuestion(examInfo.manualQuestions, keyOrder.indexOf(slots[i])));
+  const essayStore = getEssayStore();
+  // Hand-graded answers need the shared answer server; without it they would silently score 0
+  const cannotDeliver = !essayStore && questions.some(isHandGraded);
+
+  useEffect(() => {
+    setStudentAnswers(
+      questions.map((q) => ({
+        questionId: q.id,
+        answer: initialAnswer(q),
+      }))
+    );
+  }, [questions]);
 
   useEffect(() => {
     const loadExam = async () => {
@@ -36,6 +110,12 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
         const contract = new Contract(address, CipherExamABI.abi, ethersReadonlyProvider);
         const examId = BigInt(examIdStr);
         const info = await contract.getExamInfo(examId);
+        const gradedOnChain = await contract.isGradedOnChain(examId);
+        const { manualQuestions } = await contract.exams(examId);
+        const contentHash: string = await contract.getContentHash(examId);
+        const status = await contract.getExamStatus(examId);
+        const accessRules = await contract.getAccessRules(examId);
+        const [shuffleQuestions, shuffleOptions] = await contract.getShuffle(examId);
         
         setExamInfo({
           title: info.title,
@@ -43,37 +123,26 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
           questionScores: info.questionScores.map((s: bigint) => Number(s)),
           startTime: Number(info.startTime),
           endTime: Number(info.endTime),
+          creator: info.creator as string,
+          gradedOnChain,
+          manualQuestions: BigInt(manualQuestions),
+          contentHash,
+          status: Number(status),
+          allowListRoot: accessRules.allowListRoot as string,
+          inviteCodeHash: accessRules.inviteCodeHash as string,
+          shuffleQuestions: Boolean(shuffleQuestions),
+          shuffleOptions: Boolean(shuffleOptions),
         });
+        setRosterText(loadRoster(examIdStr)?.join("\n") ?? "");
 
-        // Load questions from localStorage
-        const loadedQuestions = loadExamQuestions(examIdStr);
-        if (loadedQuestions && loadedQuestions.length > 0) {
-          setQuestions(loadedQuestions);
-          setStudentAnswers(
-            loadedQuestions.map((q) => ({
-              questionId: q.id,
-              answer: q.type === "multiple-choice" ? [] : "",
-            }))
-          );
-        } else {
-          // Fallback: create placeholder questions if not found
-          const placeholderQuestions: Question[] = Array.from({ length: Number(info.questionCount) }).map(
-            (_, i) => ({
-              id: `q${i}`,
-              title: `Question ${i + 1}`,
-              type: "single-choice",
-              options: ["Option A", "Option B", "Option C", "Option D"],
-              correctAnswer: "",
-              maxScore: Number(info.questionScores[i]),
-            })
-          );
-          setQuestions(placeholderQuestions);
-          setStudentAnswers(
-            placeholderQuestions.map((q) => ({
-              questionId: q.id,
-              answer: q.type === "multiple-choice" ? [] : "",
-            }))
-          );
+        // Load questions from the configured stores and verify them against the on-chain hash
+        try {
+          const verified = await loadVerifiedQuestions(getQuestionStores(), examIdStr, contentHash);
+          if (verified) {
+            setLoadedQuestions(verified.questions);
+          }
+        } catch (err) {
+          setQuestionError(err instanceof Error ? err.message : String(err));
         }
       } catch (err) {
         console.error("Failed to load exam:", err);
@@ -83,6 +152,127 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
     loadExam();
   }, [chainId, ethersReadonlyProvider, examIdStr]);
 
+  const loadAttempts = useCallback(async () => {
+    if (!chainId || !ethersReadonlyProvider || !accounts?.[0]) return;
+
+    const address = CipherExamAddresses[String(chainId) as keyof typeof CipherExamAddresses]?.address;
+    if (!address || address === "0x0000000000000000000000000000000000000000") return;
+
+    try {
+      const contract = new Contract(address, CipherExamABI.abi, ethersReadonlyProvider);
+      const examId = BigInt(examIdStr);
+      const [maxAttempts, scoringPolicy] = await contract.getAttemptPolicy(examId);
+      const submission = await contract.submissions(examId, accounts[0]);
+      const submitted = submission.exists ? (await contract.getAttempts(examId, accounts[0]))[0].length : 0;
+      const [durationSeconds, startedAt, expired] = await contract.getTimeLimit(examId, accounts[0]);
+      // Timed attempts that ran out without a submission count against the limit too
+      setAttempts({
+        used: submitted + Number(expired),
+        submitted,
+        max: Number(maxAttempts),
+        policy: Number(scoringPolicy),
+      });
+      setTimeLimit({ duration: Number(durationSeconds), startedAt: Number(startedAt) });
+    } catch (err) {
+      console.error("Failed to load attempts:", err);
+    }
+  }, [chainId, ethersReadonlyProvider, accounts, examIdStr]);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [loadAttempts]);
+
+  const isTimed = timeLimit !== null && timeLimit.duration > 0;
+  const hasStarted = isTimed && timeLimit.startedAt > 0;
+  // An attempt past its on-chain deadline can be restarted; restarting uses it up
+  const hasExpired = hasStarted && now > timeLimit.startedAt + timeLimit.duration;
+  const usedAttempts = attempts ? attempts.used + (hasExpired ? 1 : 0) : 0;
+  const noAttemptsLeft = attempts !== null && usedAttempts >= attempts.max;
+  // Submit a little before the on-chain deadline so the transaction is mined in time
+  const deadline =
+    hasStarted && examInfo
+      ? Math.min(timeLimit.startedAt + timeLimit.duration, examInfo.endTime) - AUTO_SUBMIT_MARGIN_SECONDS
+      : null;
+  const secondsLeft = deadline !== null ? Math.max(0, deadline - now) : null;
+
+  useEffect(() => {
+    if (deadline === null) return;
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  useEffect(() => {
+    if (secondsLeft === null) return;
+    if (secondsLeft > 0) {
+      autoSubmitArmed.current = true;
+    } else if (autoSubmitArmed.current) {
+      autoSubmitArmed.current = false;
+      if (!isSubmitting) handleSubmit(true);
+    }
+  }, [secondsLeft]);
+
+  const handleImportFile = async (file: File) => {
+    setQuestionError(null);
+    try {
+      await fileStore.importFile(file);
+      const verified = await loadVerifiedQuestions([fileStore], examIdStr, examInfo.contentHash);
+      if (verified) {
+        setLoadedQuestions(verified.questions);
+      } else {
+        setQuestionError(`The imported file does not contain questions for exam ${examIdStr}`);
+      }
+    } catch (err) {
+      setQuestionError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Build the allow-list proof and invite code for restricted exams, or explain why access is missing
+  const resolveAccess = (student: string): ExamAccess | string => {
+    const access: ExamAccess = { ...OPEN_ACCESS };
+    if (examInfo.allowListRoot === ZeroHash && examInfo.inviteCodeHash === ZeroHash) {
+      return access;
+    }
+
+    if (inviteCode.trim()) {
+      access.inviteCode = inviteCodeBytes(inviteCode);
+      if (examInfo.inviteCodeHash !== ZeroHash && inviteCodeHash(inviteCode) === examInfo.inviteCodeHash) {
+        return access;
+      }
+    }
+
+    if (examInfo.allowListRoot !== ZeroHash) {
+      const { addresses } = parseRosterCsv(rosterText);
+      if (addresses.length > 0 && allowListRoot(addresses) !== examInfo.allowListRoot) {
+        return "The roster does not match the allow-list recorded on-chain";
+      }
+      const proof = addresses.length > 0 ? allowListProof(addresses, student) : null;
+      if (proof) {
+        access.allowListProof = proof;
+        return access;
+      }
+    }
+
+    return inviteCode.trim() ? "The invite code is not valid for this exam" : "You are not on the roster of this exam";
+  };
+
+  const handleStart = async () => {
+    if (!accounts?.[0]) return;
+
+    const access = resolveAccess(accounts[0]);
+    if (typeof access === "string") {
+      alert(access);
+      return;
+    }
+
+    try {
+      await startAttempt(BigInt(examIdStr), access);
+      setNow(Math.floor(Date.now() / 1000));
+      await loadAttempts();
+    } catch (err) {
+      console.error("Failed to start attempt:", err);
+    }
+  };
+
   const updateAnswer = (questionIndex: number, answer: string | string[]) => {
     const updated = [...studentAnswers];
     updated[questionIndex] = {
@@ -92,7 +282,12 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
     setStudentAnswers(updated);
   };
 
-  const handleSubmit = async () => {
+  // Questions and options are only displayed in the student's order; answers stay at their slot index
+  const displayOrder =
+    examInfo?.shuffleQuestions && seed ? questionOrder(questions.length, seed) : questions.map((_, i) => i);
+
+  // When the timer runs out, whatever has been answered so far is submitted
+  const handleSubmit = async (timeUp = false) => {
     if (!isConnected || !accounts?.[0]) {
       connect();
       return;
@@ -103,30 +298,84 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
       return;
     }
 
-    // Validate all questions are answered
-    for (let i = 0; i < studentAnswers.length; i++) {
-      const answer = studentAnswers[i].answer;
+    // Validate all questions are answered, in the order the student sees them
+    for (let position = 0; position < displayOrder.length && !timeUp; position++) {
+      const answer = studentAnswers[displayOrder[position]].answer;
       if (
         !answer ||
-        (Array.isArray(answer) && answer.length === 0) ||
+        (Array.isArray(answer) && (answer.length === 0 || answer.includes(""))) ||
         (typeof answer === "string" && !answer.trim())
       ) {
-        alert(`Please answer question ${i + 1}`);
+        alert(`Please answer question ${position + 1}`);
         return;
       }
     }
 
+    const access = resolveAccess(accounts[0]);
+    if (typeof access === "string") {
+      alert(access);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      // Calculate scores for each question
-      const scores: number[] = [];
-      for (let i = 0; i < questions.length; i++) {
-        const score = calculateScore(questions[i], studentAnswers[i]);
-        scores.push(score);
+      const examId = BigInt(examIdStr);
+      let txHash: string;
+
+      // Essays and the other hand-graded answers go to the creator encrypted to their grader key.
+      // They are stored before the answers are submitted, so a recorded attempt never lacks them
+      const handGradedIndexes = questions.flatMap((q, i) => (isHandGraded(q, i) ? [i] : []));
+      const attempt = attempts?.submitted ?? 0;
+      const handGradedTexts = handGradedIndexes.map((i) => handGradedText(questions[i], studentAnswers[i].answer));
+      const saved = savedHandGraded.current;
+      if (saved && saved.attempt === attempt) {
+        if (saved.texts.some((text, i) => text !== handGradedTexts[i])) {
+          throw new Error("Your hand-graded answers for this attempt were already stored and can no longer be changed");
+        }
+      } else if (handGradedIndexes.length > 0) {
+        if (!essayStore) {
+          throw new Error("No answer server is configured, so your hand-graded answers cannot reach the exam creator");
+        }
+        const graderKey: string = await contract.graderKeys(examInfo.creator);
+        if (graderKey === "0x") {
+          throw new Error(
+            "The exam creator has not registered a grader key, so hand-graded answers cannot be delivered"
+          );
+        }
+        const essays: Record<number, EncryptedEnvelope> = {};
+        for (const [position, i] of handGradedIndexes.entries()) {
+          essays[i] = await encryptForGrader(graderKey, handGradedTexts[position], {
+            examId: examIdStr,
+            student: accounts[0],
+            attempt,
+            questionIndex: i,
+          });
+        }
+        await essayStore.save({
+          examId: examIdStr,
+          student: accounts[0],
+          attempt,
+          answers: essays,
+          submittedAt: Math.floor(Date.now() / 1000),
+        });
+        savedHandGraded.current = { attempt, texts: handGradedTexts };
+      }
+
+      if (examInfo.gradedOnChain) {
+        // Send encrypted answers; the contract grades them against the answer key.
+        // Hand-graded answers were delivered above, so their slot carries a blank
+        const answers = questions.map((q, i) => (isHandGraded(q, i) ? 0 : encodeAnswer(q, studentAnswers[i].answer)));
+        txHash = await submitEncryptedAnswers(examId, answers, access);
+      } else {
+        // Calculate scores for each question, offset by any penalty for a wrong answer
+        const scores: number[] = [];
+        for (let i = 0; i < questions.length; i++) {
+          const score = offsetScore(questions[i], studentAnswers[i]);
+          scores.push(score);
+        }
+        txHash = await submitAnswers(examId, scores, access);
       }
 
-      const examId = BigInt(examIdStr);
-      const txHash = await submitAnswers(examId, scores);
       await computeTotalAndJudge(examId, accounts[0]);
       
       alert(`Answers submitted! Transaction: ${txHash}`);
@@ -186,76 +435,131 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
             End: {new Date(examInfo.endTime * 1000).toLocaleString()}
           </p>
           <p className="text-sm">Total Questions: {examInfo.questionCount}</p>
+          {attempts && attempts.max > 1 && (
+            <p className="text-sm mt-2">
+              Attempts used: {usedAttempts}/{attempts.max} ({SCORING_POLICY_LABELS[attempts.policy]} counts)
+            </p>
+          )}
         </div>
 
+        {noAttemptsLeft && (
+          <div className="mb-6 p-4 bg-error/10 text-error rounded-lg">
+            You have used all your attempts for this exam.
+          </div>
+        )}
+
+        {isTimed && (
+          <div className="sticky top-0 z-10 mb-6 p-4 bg-card rounded-lg shadow-card flex justify-between items-center">
+            <span className="text-sm">Time limit: {formatDuration(timeLimit.duration)}</span>
+            {secondsLeft !== null && (
+              <span className={`font-mono text-lg font-semibold ${secondsLeft < 60 ? "text-error" : ""}`}>
+                {secondsLeft > 0 ? formatDuration(secondsLeft) : "Time is up"}
+              </span>
+            )}
+          </div>
+        )}
+
+        {cannotDeliver && (
+          <div className="mb-6 p-4 bg-error/10 text-error rounded-lg">
+            Some answers of this exam are graded by hand, but no answer server is configured to deliver them to the
+            exam creator. Ask the creator for the app with its question server before starting.
+          </div>
+        )}
+
+        {examInfo.status !== ExamStatus.Open && (
+          <div className="mb-6 p-4 bg-error/10 text-error rounded-lg">
+            This exam is {getStatusLabel(examInfo.status).label.toLowerCase()} and does not accept submissions.
+          </div>
+        )}
+
+        {(examInfo.allowListRoot !== ZeroHash || examInfo.inviteCodeHash !== ZeroHash) && (
+          <div className="bg-card p-6 rounded-lg shadow-card mb-6 space-y-4">
+            <p className="font-semibold">This exam is restricted</p>
+            {examInfo.allowListRoot !== ZeroHash && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Course Roster</label>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Paste the roster shared by the exam creator; it is checked against the allow-list recorded on-chain.
+                </p>
+                <textarea
+                  value={rosterText}
+                  onChange={(e) => setRosterText(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-border rounded-lg font-mono text-xs"
+                />
+              </div>
+            )}
+            {examInfo.inviteCodeHash !== ZeroHash && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Invite Code</label>
+                <input
+                  type="text"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  className="w-full px-4 py-2 border border-border rounded-lg"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {loadedQuestions.length === 0 && (
+          <div className="bg-card p-6 rounded-lg shadow-card mb-6">
+            <p className="mb-2">
+              {questionError ?? "The questions for this exam are not available in this browser."}
+            </p>
+            <p className="text-sm text-muted-foreground mb-4">
+              Import the question file shared by the exam creator. It is checked against the content hash recorded on-chain.
+            </p>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+              }}
+              className="text-sm"
+            />
+          </div>
+        )}
+
+        {isTimed && (!hasStarted || hasExpired) && questions.length > 0 && (
+          <div className="bg-card p-6 rounded-lg shadow-card mb-6 text-center">
+            {hasExpired && (
+              <p className="mb-2 text-error">
+                Your last attempt ran out of time without a submission and counts as used.
+              </p>
+            )}
+            <p className="mb-4">
+              You will have {formatDuration(timeLimit.duration)} to answer once you start. Your answers are submitted
+              automatically when the time runs out.
+            </p>
+            <button
+              onClick={handleStart}
+              disabled={isLoading || examInfo.status !== ExamStatus.Open || noAttemptsLeft || cannotDeliver}
+              className="px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? "Starting..." : hasExpired ? "Start Again" : "Start Attempt"}
+            </button>
+          </div>
+        )}
+
         <div className="space-y-6 mb-6">
-          {questions.map((question, index) => {
+          {(!isTimed || (hasStarted && !hasExpired)) && displayOrder.map((index, position) => {
+            const question = questions[index];
             const studentAnswer = studentAnswers[index];
-            const currentAnswer = studentAnswer?.answer || (question.type === "multiple-choice" ? [] : "");
+            const currentAnswer = studentAnswer?.answer || initialAnswer(question);
 
             return (
-              <div key={question.id} className="bg-card p-6 rounded-lg shadow-card">
-                <div className="flex justify-between items-start mb-4">
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-lg mb-2">
-                      Question {index + 1}: {question.title}
-                    </h3>
-                    <span className="text-sm text-muted-foreground">
-                      Type: {question.type.replace("-", " ")} | Max Score: {question.maxScore} points
-                    </span>
-                  </div>
-                </div>
-
-                {question.type === "single-choice" && question.options && (
-                  <div className="space-y-2">
-                    {question.options.map((option, optIndex) => (
-                      <label key={optIndex} className="flex items-center gap-3 p-3 border border-border rounded-lg hover:bg-muted/50 cursor-pointer">
-                        <input
-                          type="radio"
-                          name={`question-${index}`}
-                          value={option}
-                          checked={currentAnswer === option}
-                          onChange={(e) => updateAnswer(index, e.target.value)}
-                          className="w-4 h-4"
-                        />
-                        <span>{option}</span>
-                      </label>
-                    ))}
-                  </div>
-                )}
-
-                {question.type === "multiple-choice" && question.options && (
-                  <div className="space-y-2">
-                    {question.options.map((option, optIndex) => (
-                      <label key={optIndex} className="flex items-center gap-3 p-3 border border-border rounded-lg hover:bg-muted/50 cursor-pointer">
-                        <input
-                          type="checkbox"
-                          checked={(currentAnswer as string[]).includes(option)}
-                          onChange={(e) => {
-                            const current = currentAnswer as string[];
-                            const updated = e.target.checked
-                              ? [...current, option]
-                              : current.filter((a) => a !== option);
-                            updateAnswer(index, updated);
-                          }}
-                          className="w-4 h-4"
-                        />
-                        <span>{option}</span>
-                      </label>
-                    ))}
-                  </div>
-                )}
-
-                {(question.type === "fill-blank" || question.type === "essay") && (
-                  <textarea
-                    value={currentAnswer as string}
-                    onChange={(e) => updateAnswer(index, e.target.value)}
-                    rows={question.type === "essay" ? 6 : 3}
-                    className="w-full px-4 py-2 border border-border rounded-lg"
-                    placeholder={question.type === "essay" ? "Write your essay answer here..." : "Enter your answer..."}
-                  />
-                )}
-              </div>
+              <ExamQuestionCard
+                key={question.id}
+                question={question}
+                name={`question-${index}`}
+                position={position}
+                options={displayedOptions(question, index, seed, examInfo.shuffleOptions)}
+                answer={currentAnswer}
+                onChange={(answer) => updateAnswer(index, answer)}
+              />
             );
           })}
         </div>
@@ -267,8 +571,16 @@ export default function TakeExamPage({ params }: { params: Promise<{ examId: str
         )}
 
         <button
-          onClick={handleSubmit}
-          disabled={isSubmitting || isLoading}
+          onClick={() => handleSubmit()}
+          disabled={
+            isSubmitting ||
+            isLoading ||
+            questions.length === 0 ||
+            examInfo.status !== ExamStatus.Open ||
+            noAttemptsLeft ||
+            cannotDeliver ||
+            (isTimed && (!hasStarted || secondsLeft === 0))
+          }
           className="w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isSubmitting || isLoading ? "Submitting..." : "Submit Answers"}
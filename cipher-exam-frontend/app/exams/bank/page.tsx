@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import { Navigation } from "@/components/Navigation";
+import { QuestionEditor } from "@/components/QuestionEditor";
+import { BankFilterBar, BankQuestionSummary, DIFFICULTY_LABELS } from "@/components/QuestionBankPicker";
+import { useQuestionBank } from "@/hooks/useQuestionBank";
+import { BankQuestion, Question, QuestionDifficulty } from "@/types/exam";
+import {
+  BankFilter,
+  deleteBankQuestion,
+  exportBank,
+  filterBankQuestions,
+  getBankHistory,
+  importBank,
+  parseTags,
+  saveBankQuestion,
+} from "@/lib/questionBank";
+import { downloadBlob } from "@/lib/questionFormats";
+
+type Draft = {
+  id?: string; // Unset for a new bank question
+  question: Question;
+  tagsText: string;
+  difficulty: QuestionDifficulty;
+  topic: string;
+};
+
+const NEW_QUESTION: Question = {
+  id: "bank",
+  title: "",
+  type: "single-choice",
+  options: ["Option A", "Option B"],
+  correctAnswer: "",
+  maxScore: 10,
+};
+
+export default function QuestionBankPage() {
+  const { entries, tags, topics, isLoading, error, refresh } = useQuestionBank();
+  const [filter, setFilter] = useState<BankFilter>({});
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [history, setHistory] = useState<{ id: string; versions: BankQuestion[] } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const matches = filterBankQuestions(entries, filter);
+
+  const editEntry = (entry: BankQuestion) => {
+    setHistory(null);
+    setDraft({
+      id: entry.id,
+      question: structuredClone(entry.question),
+      tagsText: entry.tags.join(", "),
+      difficulty: entry.difficulty,
+      topic: entry.topic,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.question.title.trim()) {
+      setMessage("The question title is required");
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const saved = await saveBankQuestion({
+        id: draft.id,
+        question: draft.question,
+        tags: parseTags(draft.tagsText),
+        difficulty: draft.difficulty,
+        topic: draft.topic,
+      });
+      setDraft(null);
+      setMessage(`Saved version ${saved.version}`);
+      await refresh();
+    } catch (err) {
+      console.error("Failed to save bank question:", err);
+      setMessage(err instanceof Error ? err.message : "Failed to save bank question");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: BankQuestion) => {
+    if (!confirm(`Delete "${entry.question.title}" and all its versions? Exams created from it keep their copy.`)) {
+      return;
+    }
+    await deleteBankQuestion(entry.id);
+    if (history?.id === entry.id) setHistory(null);
+    await refresh();
+  };
+
+  const showHistory = async (entry: BankQuestion) => {
+    setDraft(null);
+    setHistory({ id: entry.id, versions: await getBankHistory(entry.id) });
+  };
+
+  // Restoring an old version stores it as the newest one, so the history stays intact
+  const restoreVersion = async (version: BankQuestion) => {
+    const saved = await saveBankQuestion(version);
+    setHistory({ id: version.id, versions: await getBankHistory(version.id) });
+    setMessage(`Restored version ${version.version} as version ${saved.version}`);
+    await refresh();
+  };
+
+  const handleExport = async () => {
+    const data = await exportBank();
+    downloadBlob("question-bank.json", JSON.stringify(data, null, 2), "application/json");
+  };
+
+  const handleImport = async (file: File) => {
+    setMessage(null);
+    try {
+      const imported = await importBank(await file.text());
+      setMessage(`Imported ${imported} question version(s)`);
+      await refresh();
+    } catch (err) {
+      console.error("Failed to import question bank:", err);
+      setMessage(err instanceof Error ? err.message : "Failed to import question bank");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold">Question Bank</h1>
+          <div className="flex gap-2">
+            <label className="px-4 py-2 border border-border rounded-lg hover:bg-muted/50 cursor-pointer">
+              Import
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = "";
+                }}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={entries.length === 0}
+              className="px-4 py-2 border border-border rounded-lg hover:bg-muted/50 disabled:opacity-50"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => {
+                setHistory(null);
+                setDraft({ question: { ...NEW_QUESTION }, tagsText: "", difficulty: "medium", topic: "" });
+              }}
+              className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+            >
+              + New Question
+            </button>
+          </div>
+        </div>
+
+        {(error || message) && (
+          <div className={`mb-6 p-4 rounded-lg ${error ? "bg-error/10 text-error" : "bg-primary/10"}`}>
+            {error ?? message}
+          </div>
+        )}
+
+        {draft && (
+          <div className="bg-card p-6 rounded-lg shadow-card mb-6 space-y-4">
+            <h2 className="text-xl font-semibold">{draft.id ? "Edit Question" : "New Question"}</h2>
+            {draft.id && (
+              <p className="text-sm text-muted-foreground">
+                Saving creates a new version; exams that already use this question are not changed.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Tags (comma separated)</label>
+                <input
+                  type="text"
+                  value={draft.tagsText}
+                  onChange={(e) => setDraft({ ...draft, tagsText: e.target.value })}
+                  className="w-full px-4 py-2 border border-border rounded-lg"
+                  placeholder="algebra, week-3"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Topic</label>
+                <input
+                  type="text"
+                  value={draft.topic}
+                  onChange={(e) => setDraft({ ...draft, topic: e.target.value })}
+                  list="bank-topics"
+                  className="w-full px-4 py-2 border border-border rounded-lg"
+                />
+                <datalist id="bank-topics">
+                  {topics.map((topic) => (
+                    <option key={topic} value={topic} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Difficulty</label>
+                <select
+                  value={draft.difficulty}
+                  onChange={(e) => setDraft({ ...draft, difficulty: e.target.value as QuestionDifficulty })}
+                  className="w-full px-4 py-2 border border-border rounded-lg"
+                >
+                  {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <QuestionEditor
+              key={draft.id ?? "new"}
+              question={draft.question}
+              index={0}
+              onUpdate={(question) => setDraft((current) => (current ? { ...current, question } : current))}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 border border-border rounded-lg hover:bg-muted/50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {history && (
+          <div className="bg-card p-6 rounded-lg shadow-card mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">Version History</h2>
+              <button onClick={() => setHistory(null)} className="text-sm text-muted-foreground hover:text-foreground">
+                Close
+              </button>
+            </div>
+            <div className="space-y-2">
+              {history.versions.map((version, i) => (
+                <div key={version.version} className="flex items-center gap-3 p-3 border border-border rounded-lg">
+                  <BankQuestionSummary entry={version} />
+                  <span className="text-sm text-muted-foreground">{new Date(version.updatedAt).toLocaleString()}</span>
+                  {i > 0 && (
+                    <button
+                      onClick={() => restoreVersion(version)}
+                      className="px-3 py-1 text-primary border border-primary rounded-lg hover:bg-primary/10"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-card p-6 rounded-lg shadow-card">
+          <div className="mb-4">
+            <BankFilterBar filter={filter} tags={tags} topics={topics} onChange={setFilter} />
+          </div>
+
+          {isLoading && entries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">Loading question bank...</p>
+          ) : matches.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              {entries.length === 0
+                ? "No questions yet. Create one here or use \"Save to Bank\" while creating an exam."
+                : "No questions match these filters."}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {matches.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-3 p-3 border border-border rounded-lg">
+                  <BankQuestionSummary entry={entry} />
+                  <button onClick={() => editEntry(entry)} className="text-sm text-primary hover:text-primary/80">
+                    Edit
+                  </button>
+                  <button onClick={() => showHistory(entry)} className="text-sm text-primary hover:text-primary/80">
+                    History
+                  </button>
+                  <button onClick={() => handleDelete(entry)} className="text-sm text-error hover:text-error/80">
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,34 +1,191 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Navigation } from "@/components/Navigation";
 import { QuestionEditor } from "@/components/QuestionEditor";
+import { QuestionBankPicker } from "@/components/QuestionBankPicker";
+import { BulkImportReport } from "@/components/BulkImportReport";
+import { ExamPreview } from "@/components/ExamPreview";
+import { GradeBandsEditor } from "@/components/GradeBandsEditor";
+import { SectionsEditor } from "@/components/SectionsEditor";
 import { useCipherExam } from "@/hooks/useCipherExam";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { Question } from "@/types/exam";
-import { saveExamQuestions } from "@/lib/questionStorage";
+import { BankQuestion, ExamForm, ExamSection, GradeBand, Question } from "@/types/exam";
+import { MAX_ANSWER_KEYS, encodeCorrectAnswer, isKeyGradable, manualQuestionMask } from "@/lib/answerEncoding";
+import { validateQuestion } from "@/lib/questionValidation";
+import { computeContentHash, toPublicQuestion } from "@/lib/contentHash";
+import { JsonFileQuestionStore, LocalStorageQuestionStore, getRemoteQuestionStore } from "@/lib/questionStore";
+import { getEssayStore } from "@/lib/essayStore";
+import { allowListRoot, inviteCodeHash, parseRosterCsv, saveRoster } from "@/lib/allowList";
+import { MAX_ATTEMPTS, SCORING_POLICY_LABELS, ScoringPolicy } from "@/lib/attemptPolicy";
+import { deriveGraderKey } from "@/lib/essayEncryption";
+import { saveBankQuestion, toExamQuestion } from "@/lib/questionBank";
+import { answerKeyOrder, poolLayout, slotPenalties, slotScores, validatePools } from "@/lib/questionPools";
+import { QUESTION_FILE_ACCEPT, importQuestionFile } from "@/lib/questionFormats";
+import { BULK_IMPORT_ACCEPT, BulkImportRow, parseBulkQuestions } from "@/lib/bulkImport";
+import { percentToPoints, validateGradeBands } from "@/lib/gradeBands";
+import { sectionEnds, sectionThresholds, validateSections } from "@/lib/examSections";
+import { deleteDraft, emptyExamForm, getDraft, newDraftId, saveDraft, saveTemplate } from "@/lib/examDrafts";
+
+const AUTOSAVE_DELAY_MS = 1000;
+const EMPTY_FORM = emptyExamForm();
 
 export default function CreateExamPage() {
   const router = useRouter();
-  const { isConnected, connect } = useMetaMaskEthersSigner();
-  const { createExam, isLoading, error } = useCipherExam();
-
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [passingScore, setPassingScore] = useState(60);
-  const [startTime, setStartTime] = useState("");
-  const [endTime, setEndTime] = useState("");
-  const [questions, setQuestions] = useState<Question[]>([
-    {
-      id: "q1",
-      title: "",
-      type: "single-choice",
-      options: ["Option A", "Option B"],
-      correctAnswer: "",
-      maxScore: 30,
-    },
-  ]);
+  const { isConnected, connect, accounts, ethersSigner } = useMetaMaskEthersSigner();
+  const {
+    contract,
+    createExam,
+    publishExam,
+    setAllowListRoot,
+    setInviteCodeHash,
+    setAttemptPolicy,
+    setDuration,
+    setShuffle,
+    setGradeBands,
+    setSections,
+    setPenalties,
+    setManualQuestions,
+    setPools,
+    setGraderKey,
+    isLoading,
+    error,
+  } = useCipherExam();
+
+  const [title, setTitle] = useState(EMPTY_FORM.title);
+  const [description, setDescription] = useState(EMPTY_FORM.description);
+  const [passingScore, setPassingScore] = useState(EMPTY_FORM.passingScore);
+  const [passingScoreUnit, setPassingScoreUnit] = useState(EMPTY_FORM.passingScoreUnit);
+  const [startTime, setStartTime] = useState(EMPTY_FORM.startTime);
+  const [endTime, setEndTime] = useState(EMPTY_FORM.endTime);
+  const [rosterText, setRosterText] = useState(EMPTY_FORM.rosterText);
+  const [inviteCode, setInviteCode] = useState(EMPTY_FORM.inviteCode);
+  const [maxAttempts, setMaxAttempts] = useState(EMPTY_FORM.maxAttempts);
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>(EMPTY_FORM.scoringPolicy);
+  const [durationMinutes, setDurationMinutes] = useState(EMPTY_FORM.durationMinutes);
+  const [shuffleQuestions, setShuffleQuestions] = useState(EMPTY_FORM.shuffleQuestions);
+  const [shuffleOptions, setShuffleOptions] = useState(EMPTY_FORM.shuffleOptions);
+  const [gradeBands, updateGradeBands] = useState<GradeBand[]>(EMPTY_FORM.gradeBands);
+  const [sections, updateSections] = useState<ExamSection[]>(EMPTY_FORM.sections);
+  const [showBank, setShowBank] = useState(false);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [bulkImport, setBulkImport] = useState<{ fileName: string; rows: BulkImportRow[] } | null>(null);
+  const [questions, setQuestions] = useState<Question[]>(EMPTY_FORM.questions);
+
+  const [draftName, setDraftName] = useState("");
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  // Set once the draft from the URL (if any) is loaded, so autosave never overwrites it with an empty form
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const draftRef = useRef<{ id: string; createdAt: number; createdExamId?: string } | null>(null);
+  // Exam already created on-chain from this draft; Create Exam resumes its remaining steps instead of creating another
+  const [createdExamId, setCreatedExamId] = useState<string | null>(null);
+
+  const form: ExamForm = useMemo(
+    () => ({
+      title,
+      description,
+      passingScore,
+      passingScoreUnit,
+      startTime,
+      endTime,
+      rosterText,
+      inviteCode,
+      maxAttempts,
+      scoringPolicy,
+      durationMinutes,
+      shuffleQuestions,
+      shuffleOptions,
+      gradeBands,
+      sections,
+      questions,
+    }),
+    [
+      title,
+      description,
+      passingScore,
+      passingScoreUnit,
+      startTime,
+      endTime,
+      rosterText,
+      inviteCode,
+      maxAttempts,
+      scoringPolicy,
+      durationMinutes,
+      shuffleQuestions,
+      shuffleOptions,
+      gradeBands,
+      sections,
+      questions,
+    ]
+  );
+
+  const applyForm = (loaded: ExamForm) => {
+    setTitle(loaded.title);
+    setDescription(loaded.description);
+    setPassingScore(loaded.passingScore);
+    setPassingScoreUnit(loaded.passingScoreUnit);
+    setStartTime(loaded.startTime);
+    setEndTime(loaded.endTime);
+    setRosterText(loaded.rosterText);
+    setInviteCode(loaded.inviteCode);
+    setMaxAttempts(loaded.maxAttempts);
+    setScoringPolicy(loaded.scoringPolicy);
+    setDurationMinutes(loaded.durationMinutes);
+    setShuffleQuestions(loaded.shuffleQuestions);
+    setShuffleOptions(loaded.shuffleOptions);
+    updateGradeBands(loaded.gradeBands);
+    updateSections(loaded.sections);
+    setQuestions(loaded.questions);
+  };
+
+  // Resume the draft named in the URL (/exams/create/?draft=<id>)
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("draft");
+    if (!id) {
+      setDraftLoaded(true);
+      return;
+    }
+    getDraft(id)
+      .then((draft) => {
+        if (!draft) return;
+        draftRef.current = { id: draft.id, createdAt: draft.createdAt, createdExamId: draft.createdExamId };
+        setCreatedExamId(draft.createdExamId ?? null);
+        setDraftName(draft.name);
+        setSavedAt(draft.updatedAt);
+        applyForm({ ...emptyExamForm(), ...draft.form });
+      })
+      .catch((err) => console.error("Failed to load draft:", err))
+      .finally(() => setDraftLoaded(true));
+  }, []);
+
+  // Autosave shortly after the last edit; the first save creates the draft and puts it in the URL
+  useEffect(() => {
+    if (!draftLoaded) return;
+    if (!draftRef.current && !title.trim() && !questions.some((q) => q.title.trim())) return;
+
+    const timer = setTimeout(async () => {
+      const now = Date.now();
+      if (!draftRef.current) {
+        draftRef.current = { id: newDraftId(), createdAt: now };
+        window.history.replaceState(null, "", `?draft=${draftRef.current.id}`);
+      }
+      try {
+        await saveDraft({ ...draftRef.current, name: draftName, form, updatedAt: now });
+        setSavedAt(now);
+      } catch (err) {
+        console.error("Failed to save draft:", err);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [form, draftName, draftLoaded]);
+
+  const roster = useMemo(() => parseRosterCsv(rosterText), [rosterText]);
+  const examSlotScores = slotScores(questions);
+  const examTotal = examSlotScores.reduce((sum, score) => sum + score, 0);
+  const passingPoints = passingScoreUnit === "percent" ? percentToPoints(passingScore, examTotal) : passingScore;
 
   const addQuestion = () => {
     const newQuestion: Question = {
@@ -48,6 +205,71 @@ export default function CreateExamPage() {
     setQuestions(updated);
   };
 
+  // Added questions replace the untouched starter question
+  const appendQuestions = (added: Question[]) => {
+    const isBlankStart = questions.length === 1 && !questions[0].title.trim();
+    setQuestions([...(isBlankStart ? [] : questions), ...added]);
+  };
+
+  // Inserted questions are copies, so later edits in the bank do not affect this exam
+  const insertFromBank = (entry: BankQuestion) => {
+    appendQuestions([toExamQuestion(entry)]);
+  };
+
+  const handleImportQuestions = async (file: File) => {
+    try {
+      const { questions: imported, warnings } = await importQuestionFile(file);
+      if (imported.length === 0) {
+        setImportWarnings([`No questions found in ${file.name}`, ...warnings]);
+        return;
+      }
+      appendQuestions(imported);
+      setImportWarnings(warnings);
+    } catch (err) {
+      console.error("Failed to import questions:", err);
+      setImportWarnings([err instanceof Error ? err.message : String(err)]);
+    }
+  };
+
+  // Bulk imports are only validated here; the report decides what gets added
+  const handleBulkImport = async (file: File) => {
+    try {
+      setImportWarnings([]);
+      setBulkImport({ fileName: file.name, rows: parseBulkQuestions(file.name, await file.text()) });
+    } catch (err) {
+      console.error("Failed to read bulk import:", err);
+      setBulkImport(null);
+      setImportWarnings([err instanceof Error ? err.message : String(err)]);
+    }
+  };
+
+  const saveToBank = async (question: Question) => {
+    if (!question.title.trim()) {
+      alert("Give the question a title before saving it to the bank");
+      return;
+    }
+    try {
+      await saveBankQuestion({ question, tags: [], difficulty: "medium", topic: "" });
+      alert("Saved to the question bank. Add tags, topic and difficulty on the Question Bank page.");
+    } catch (err) {
+      console.error("Failed to save to question bank:", err);
+      alert(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Templates keep everything but the dates and access settings, which change with every run
+  const handleSaveTemplate = async () => {
+    const name = prompt("Template name", draftName.trim() || title.trim());
+    if (name === null) return;
+    try {
+      const template = await saveTemplate(name, form);
+      alert(`Saved template "${template.name}". Start a new exam from it on the My Drafts page.`);
+    } catch (err) {
+      console.error("Failed to save template:", err);
+      alert(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   const deleteQuestion = (index: number) => {
     if (questions.length <= 1) {
       alert("At least one question is required");
@@ -70,41 +292,225 @@ export default function CreateExamPage() {
     }
 
     for (let i = 0; i < questions.length; i++) {
-      const q = questions[i];
-      if (!q.title.trim()) {
-        alert(`Question ${i + 1} title is required`);
-        return;
-      }
-      if (!q.correctAnswer || (Array.isArray(q.correctAnswer) && q.correctAnswer.length === 0)) {
-        alert(`Question ${i + 1} correct answer is required`);
-        return;
-      }
-      if ((q.type === "single-choice" || q.type === "multiple-choice") && (!q.options || q.options.length < 2)) {
-        alert(`Question ${i + 1} must have at least 2 options`);
+      const problems = validateQuestion(questions[i]);
+      if (problems.length > 0) {
+        alert(`Question ${i + 1}: ${problems[0]}`);
         return;
       }
     }
 
+    // The contract keeps one answer key entry per question, pool members included
+    if (questions.length > MAX_ANSWER_KEYS) {
+      alert(`An exam can hold at most ${MAX_ANSWER_KEYS} questions, pool members included`);
+      return;
+    }
+
+    const poolError = validatePools(questions);
+    if (poolError) {
+      alert(poolError);
+      return;
+    }
+
+    // Students deliver hand-graded answers through the shared answer server; without one they would score 0
+    if (!getEssayStore() && questions.some((q) => !isKeyGradable(q))) {
+      alert(
+        "Essays and other hand-graded questions need a question server (NEXT_PUBLIC_QUESTION_STORE_URL) " +
+          "to deliver the answers to you"
+      );
+      return;
+    }
+
+    if (passingPoints > examTotal) {
+      alert(`The passing score cannot exceed the exam total of ${examTotal} points`);
+      return;
+    }
+
+    const bandError = validateGradeBands(gradeBands);
+    if (bandError) {
+      alert(bandError);
+      return;
+    }
+
+    const sectionError = validateSections(sections, examSlotScores.length);
+    if (sectionError) {
+      alert(sectionError);
+      return;
+    }
+
+    if (roster.invalid.length > 0) {
+      alert(`The roster has ${roster.invalid.length} invalid line(s); fix them before creating the exam`);
+      return;
+    }
+
     try {
       const startTimestamp = Math.floor(new Date(startTime).getTime() / 1000);
       const endTimestamp = Math.floor(new Date(endTime).getTime() / 1000);
-      const questionCount = questions.length;
-      const questionScores = questions.map((q) => q.maxScore);
+      // One on-chain question per slot; pooled questions share their pool's slots
+      const questionScores = slotScores(questions);
+      const questionCount = questionScores.length;
       const totalScore = questionScores.reduce((sum, score) => sum + score, 0);
 
-      const result = await createExam(
-        title,
-        questionCount,
-        passingScore,
-        questionScores,
-        startTimestamp,
-        endTimestamp
-      );
+      // Grade on-chain: questions with a single exact answer are matched against an encrypted key,
+      // the others (essays, partial credit) get an empty key entry and are graded by the creator.
+      // Every pool member has its own entry, and the contract draws each student's entries like the take page
+      const keyQuestions = answerKeyOrder(questions).map((i) => questions[i]);
+      const answerKey = keyQuestions.map((q) => (isKeyGradable(q) ? encodeCorrectAnswer(q) : 0));
+      const manualQuestions = manualQuestionMask(keyQuestions);
+      const pools = poolLayout(questions);
+
+      // Settings and the grader key follow in separate transactions; the exam is created as a draft
+      // and only published once they are all in place, so no submission can slip in between
+      const penalties = slotPenalties(questions);
+      // Answers the creator grades by hand reach them encrypted to their grader key
+      const needsGraderKey = manualQuestions !== BigInt(0) || questions.some((q) => q.type === "essay");
+      const asDraft =
+        roster.addresses.length > 0 ||
+        inviteCode.trim() !== "" ||
+        maxAttempts > 1 ||
+        durationMinutes > 0 ||
+        shuffleQuestions ||
+        shuffleOptions ||
+        gradeBands.length > 0 ||
+        sections.length > 0 ||
+        penalties.some((penalty) => penalty > 0) ||
+        pools.draws.length > 0 ||
+        needsGraderKey;
+
+      // A previous attempt from this draft may have created the exam and failed in a later step:
+      // resume that exam if it is still this form's, rather than leaving it behind and creating a second one
+      const contentHash = computeContentHash(questions);
+      let examId: bigint | null = null;
+      let txHash: string | undefined;
+      let isDraft = asDraft;
+      const resumeId = draftRef.current?.createdExamId;
+      if (resumeId) {
+        const exam = await contract.exams(BigInt(resumeId));
+        const isSameExam =
+          String(exam.creator).toLowerCase() === accounts?.[0]?.toLowerCase() && exam.contentHash === contentHash;
+        if (isSameExam) {
+          examId = BigInt(resumeId);
+          isDraft = Boolean(exam.isDraft);
+        } else if (
+          !confirm(
+            `Exam #${resumeId} was already created from this draft but no longer matches it and stays unpublished.` +
+              "\nCreate a new exam anyway?"
+          )
+        ) {
+          return;
+        }
+      }
+
+      if (examId === null) {
+        const result = await createExam(
+          title,
+          contentHash,
+          questionCount,
+          passingPoints,
+          answerKey,
+          questionScores,
+          startTimestamp,
+          endTimestamp,
+          asDraft
+        );
+        examId = BigInt(result.examId);
+        txHash = result.txHash;
+
+        // Remember the exam on the draft at once, so a failed step below is retried on it
+        if (draftRef.current) {
+          draftRef.current = { ...draftRef.current, createdExamId: String(examId) };
+          await saveDraft({ ...draftRef.current, name: draftName, form, updatedAt: Date.now() });
+          setCreatedExamId(String(examId));
+        }
+      }
 
       // Save questions with the actual exam ID
-      saveExamQuestions(String(result.examId), questions);
+      const examIdStr = String(examId);
+      await new LocalStorageQuestionStore().save(examIdStr, questions);
+
+      if (roster.addresses.length > 0) {
+        saveRoster(examIdStr, roster.addresses);
+      }
+
+      // Access restrictions and settings are set in follow-up transactions once the exam ID is known;
+      // they can only change while the exam is a draft, and resending one that already succeeded is harmless
+      if (isDraft) {
+        if (roster.addresses.length > 0) {
+          await setAllowListRoot(examId, allowListRoot(roster.addresses));
+        }
+        if (inviteCode.trim()) {
+          await setInviteCodeHash(examId, inviteCodeHash(inviteCode));
+        }
+        if (maxAttempts > 1) {
+          await setAttemptPolicy(examId, maxAttempts, scoringPolicy);
+        }
+        if (durationMinutes > 0) {
+          await setDuration(examId, durationMinutes * 60);
+        }
+        if (shuffleQuestions || shuffleOptions) {
+          await setShuffle(examId, shuffleQuestions, shuffleOptions);
+        }
+        if (gradeBands.length > 0) {
+          await setGradeBands(
+            examId,
+            gradeBands.map((band) => band.label.trim()),
+            gradeBands.map((band) => percentToPoints(band.minPercent, totalScore))
+          );
+        }
+        if (sections.length > 0) {
+          await setSections(
+            examId,
+            sections.map((section) => section.name.trim()),
+            sectionEnds(sections),
+            sectionThresholds(sections, questionScores)
+          );
+        }
+        if (penalties.some((penalty) => penalty > 0)) {
+          await setPenalties(examId, penalties);
+        }
+
+        if (pools.draws.length > 0) {
+          await setPools(examId, pools.firstQuestions, pools.draws, pools.sizes);
+        }
+        if (manualQuestions !== BigInt(0)) {
+          await setManualQuestions(examId, manualQuestions);
+        }
+      }
+
+      // Students encrypt hand-graded answers to the creator's grader key, which is registered once per wallet
+      if (needsGraderKey && accounts?.[0] && ethersSigner) {
+        const registeredKey: string = await contract.graderKeys(accounts[0]);
+        if (registeredKey === "0x") {
+          const graderKey = await deriveGraderKey(ethersSigner);
+          await setGraderKey(graderKey.publicKey);
+        }
+      }
+      if (isDraft) {
+        await publishExam(examId);
+      }
 
-      alert(`Exam created! Exam ID: ${result.examId}\nTransaction: ${result.txHash}`);
+      // Answers are graded on-chain, so students never receive them
+      const sharedQuestions = questions.map(toPublicQuestion);
+      const remoteStore = getRemoteQuestionStore();
+      if (remoteStore) {
+        await remoteStore.save(examIdStr, sharedQuestions);
+      } else {
+        await new JsonFileQuestionStore().save(examIdStr, sharedQuestions);
+      }
+
+      // Keep the draft until every step succeeded, so a failed follow-up can be retried from it
+      if (draftRef.current) {
+        await deleteDraft(draftRef.current.id);
+        draftRef.current = null;
+        setCreatedExamId(null);
+      }
+
+      alert(
+        `Exam created! Exam ID: ${examIdStr}` +
+          (txHash ? `\nTransaction: ${txHash}` : "") +
+          (remoteStore ? "" : "\nShare the downloaded question file with your students.") +
+          (roster.addresses.length > 0 ? "\nShare the roster with your students so they can prove they are on it." : "") +
+          (inviteCode.trim() ? `\nInvite code: ${inviteCode.trim()}` : "")
+      );
       router.push("/exams");
     } catch (err) {
       console.error("Failed to create exam:", err);
@@ -132,11 +538,61 @@ export default function CreateExamPage() {
     );
   }
 
+  if (isPreviewing) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8 max-w-4xl">
+          <ExamPreview form={form} onClose={() => setIsPreviewing(false)} />
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
       <main className="container mx-auto px-4 py-8 max-w-2xl">
-        <h1 className="text-3xl font-bold mb-8">Create New Exam</h1>
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-3xl font-bold">Create New Exam</h1>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSaveTemplate}
+              className="px-4 py-2 border border-border rounded-lg hover:bg-muted/50 font-medium"
+            >
+              Save as Template
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsPreviewing(true)}
+              className="px-4 py-2 text-primary border border-primary rounded-lg hover:bg-primary/10 font-medium"
+            >
+              Preview
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 mb-8 text-sm">
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            className="flex-1 px-3 py-1 border border-border rounded-lg"
+            placeholder={title.trim() ? `Draft name (defaults to "${title.trim()}")` : "Draft name"}
+          />
+          <span className="text-muted-foreground">
+            {savedAt ? `Draft saved ${new Date(savedAt).toLocaleTimeString()}` : "Autosaves as you type"}
+          </span>
+          <Link href="/exams/drafts" className="text-primary hover:text-primary/80">
+            My Drafts
+          </Link>
+        </div>
+        {createdExamId && (
+          <div className="mb-6 p-4 rounded-lg bg-warning/10 text-warning">
+            Exam #{createdExamId} was created from this draft but is not published yet. Create Exam resumes its
+            remaining steps; edit the questions only if you mean to leave it unpublished and create a new exam.
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="bg-card p-6 rounded-lg shadow-card space-y-6">
           <div>
             <label className="block text-sm font-medium mb-2">Exam Title *</label>
@@ -162,17 +618,50 @@ export default function CreateExamPage() {
 
           <div>
             <label className="block text-sm font-medium mb-2">
-              Passing Score (out of {questions.reduce((sum, q) => sum + q.maxScore, 0)}) *
+              Passing Score (out of {passingScoreUnit === "percent" ? "100%" : examTotal}) *
             </label>
-            <input
-              type="number"
-              min="0"
-              max={questions.reduce((sum, q) => sum + q.maxScore, 0)}
-              value={passingScore}
-              onChange={(e) => setPassingScore(parseInt(e.target.value) || 0)}
-              required
-              className="w-full px-4 py-2 border border-border rounded-lg"
-            />
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                max={passingScoreUnit === "percent" ? 100 : examTotal}
+                value={passingScore}
+                onChange={(e) => setPassingScore(parseInt(e.target.value) || 0)}
+                required
+                className="flex-1 px-4 py-2 border border-border rounded-lg"
+              />
+              <select
+                value={passingScoreUnit}
+                onChange={(e) => setPassingScoreUnit(e.target.value as ExamForm["passingScoreUnit"])}
+                className="px-4 py-2 border border-border rounded-lg"
+              >
+                <option value="points">points</option>
+                <option value="percent">%</option>
+              </select>
+            </div>
+            {passingScoreUnit === "percent" && (
+              <p className="text-sm text-muted-foreground mt-1">
+                {passingPoints} of {examTotal} points
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Grade Bands (optional)</label>
+            <p className="text-sm text-muted-foreground mb-2">
+              Letter grades by percentage of the total, best first. Thresholds are encrypted like the passing
+              score, and each student can decrypt only their own grade.
+            </p>
+            <GradeBandsEditor bands={gradeBands} maxTotal={examTotal} onChange={updateGradeBands} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Sections (optional)</label>
+            <p className="text-sm text-muted-foreground mb-2">
+              Split the questions, in order, into sections that must each be passed as well as the total. A section
+              weighs as much as its share of the points.
+            </p>
+            <SectionsEditor sections={sections} slotScores={examSlotScores} onChange={updateSections} />
           </div>
 
           <div>
@@ -197,20 +686,205 @@ export default function CreateExamPage() {
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Attempts per Student</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_ATTEMPTS}
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(Math.min(MAX_ATTEMPTS, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-full px-4 py-2 border border-border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Scoring Policy</label>
+              <select
+                value={scoringPolicy}
+                onChange={(e) => setScoringPolicy(Number(e.target.value) as ScoringPolicy)}
+                disabled={maxAttempts <= 1}
+                className="w-full px-4 py-2 border border-border rounded-lg disabled:opacity-50"
+              >
+                {Object.entries(SCORING_POLICY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Time Limit per Attempt (minutes, 0 = none)</label>
+            <p className="text-sm text-muted-foreground mb-2">
+              The clock starts when a student begins an attempt; answers are submitted automatically when it runs out.
+            </p>
+            <input
+              type="number"
+              min="0"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-full px-4 py-2 border border-border rounded-lg"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Order per Student</label>
+            <p className="text-sm text-muted-foreground mb-2">
+              Each student gets their own fixed order, derived from the exam ID and their address.
+            </p>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={shuffleQuestions}
+                  onChange={(e) => setShuffleQuestions(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span className="text-sm">Shuffle question order</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={shuffleOptions}
+                  onChange={(e) => setShuffleOptions(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span className="text-sm">Shuffle options of choice questions</span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Student Roster (optional)</label>
+            <p className="text-sm text-muted-foreground mb-2">
+              Restrict the exam to these wallet addresses: one per line, or a CSV with an address column.
+            </p>
+            <textarea
+              value={rosterText}
+              onChange={(e) => setRosterText(e.target.value)}
+              rows={4}
+              className="w-full px-4 py-2 border border-border rounded-lg font-mono text-xs"
+              placeholder={"address\n0x..."}
+            />
+            <input
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) setRosterText(await file.text());
+              }}
+              className="mt-2 text-sm"
+            />
+            {rosterText.trim() && (
+              <div className="mt-2 text-sm">
+                <p className="text-muted-foreground">
+                  {roster.addresses.length} student(s)
+                  {roster.duplicates > 0 && `, ${roster.duplicates} duplicate(s) ignored`}
+                </p>
+                {roster.invalid.map((entry) => (
+                  <p key={entry.line} className="text-error">
+                    Line {entry.line}: invalid address &quot;{entry.value}&quot;
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Invite Code (optional)</label>
+            <input
+              type="text"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              className="w-full px-4 py-2 border border-border rounded-lg"
+              placeholder="Students outside the roster can join with this code"
+            />
+          </div>
+
           <div>
             <div className="flex justify-between items-center mb-4">
               <label className="block text-sm font-medium">
                 Questions ({questions.length})
                 <span className="text-error ml-1">*</span>
               </label>
-              <button
-                type="button"
-                onClick={addQuestion}
-                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 font-medium"
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowBank(!showBank)}
+                  className="px-4 py-2 text-primary border border-primary rounded-lg hover:bg-primary/10 font-medium"
+                >
+                  From Bank
+                </button>
+                <button
+                  type="button"
+                  onClick={addQuestion}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 font-medium"
+                >
+                  + Add Question
+                </button>
+              </div>
+            </div>
+            <div className="mb-4 text-sm">
+              <label className="text-primary hover:text-primary/80 cursor-pointer">
+                Import from GIFT or QTI 2.1...
+                <input
+                  type="file"
+                  accept={QUESTION_FILE_ACCEPT}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportQuestions(file);
+                    e.target.value = "";
+                  }}
+                  className="hidden"
+                />
+              </label>
+              <span className="text-muted-foreground mx-2">·</span>
+              <label className="text-primary hover:text-primary/80 cursor-pointer">
+                Bulk import CSV or JSON...
+                <input
+                  type="file"
+                  accept={BULK_IMPORT_ACCEPT}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleBulkImport(file);
+                    e.target.value = "";
+                  }}
+                  className="hidden"
+                />
+              </label>
+              <a
+                href="/question-import.schema.json"
+                target="_blank"
+                className="text-muted-foreground hover:text-foreground ml-2"
               >
-                + Add Question
-              </button>
+                (JSON schema)
+              </a>
+              {importWarnings.map((warning, i) => (
+                <p key={i} className="text-error mt-1">
+                  {warning}
+                </p>
+              ))}
             </div>
+            {bulkImport && (
+              <div className="mb-4">
+                <BulkImportReport
+                  fileName={bulkImport.fileName}
+                  rows={bulkImport.rows}
+                  onAccept={(accepted) => {
+                    appendQuestions(accepted);
+                    setBulkImport(null);
+                  }}
+                  onClose={() => setBulkImport(null)}
+                />
+              </div>
+            )}
+            {showBank && (
+              <div className="mb-4">
+                <QuestionBankPicker onInsert={insertFromBank} onClose={() => setShowBank(false)} />
+              </div>
+            )}
             {questions.length === 0 ? (
               <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
                 <p className="text-muted-foreground mb-4">No questions added yet</p>
@@ -231,6 +905,7 @@ export default function CreateExamPage() {
                     index={index}
                     onUpdate={(updated) => updateQuestion(index, updated)}
                     onDelete={() => deleteQuestion(index)}
+                    onSaveToBank={() => saveToBank(question)}
                   />
                 ))}
                 <div className="text-center pt-2">
@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Navigation } from "@/components/Navigation";
+import { ExamDraft, ExamTemplate } from "@/types/exam";
+import {
+  deleteDraft,
+  deleteTemplate,
+  draftFromTemplate,
+  draftName,
+  duplicateDraft,
+  listDrafts,
+  listTemplates,
+} from "@/lib/examDrafts";
+
+export default function DraftsPage() {
+  const router = useRouter();
+  const [drafts, setDrafts] = useState<ExamDraft[]>([]);
+  const [templates, setTemplates] = useState<ExamTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDrafts(await listDrafts());
+      setTemplates(await listTemplates());
+    } catch (err) {
+      console.error("Failed to load drafts:", err);
+      setError(err instanceof Error ? err.message : "Failed to load drafts");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDuplicate = async (draft: ExamDraft) => {
+    await duplicateDraft(draft);
+    await refresh();
+  };
+
+  const handleDelete = async (draft: ExamDraft) => {
+    const orphan = draft.createdExamId
+      ? `\nExam #${draft.createdExamId} created from it stays unpublished; cancel it from its exam page.`
+      : "";
+    if (!confirm(`Delete the draft "${draftName(draft)}"?${orphan}`)) {
+      return;
+    }
+    await deleteDraft(draft.id);
+    await refresh();
+  };
+
+  const handleUseTemplate = async (template: ExamTemplate) => {
+    const draft = await draftFromTemplate(template);
+    router.push(`/exams/create/?draft=${draft.id}`);
+  };
+
+  const handleDeleteTemplate = async (template: ExamTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+    await deleteTemplate(template.id);
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold">My Drafts</h1>
+          <Link href="/exams/create" className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90">
+            + New Exam
+          </Link>
+        </div>
+
+        {error && <div className="mb-6 p-4 rounded-lg bg-error/10 text-error">{error}</div>}
+
+        <div className="bg-card p-6 rounded-lg shadow-card">
+          <p className="text-sm text-muted-foreground mb-4">
+            Drafts are saved in this browser while you edit an exam and removed once the exam is created.
+          </p>
+          {isLoading && drafts.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">Loading drafts...</p>
+          ) : drafts.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No drafts yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {drafts.map((draft) => (
+                <div key={draft.id} className="flex items-center gap-3 p-3 border border-border rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{draftName(draft)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {draft.form.questions.length} question(s) · edited {new Date(draft.updatedAt).toLocaleString()}
+                    </p>
+                    {draft.createdExamId && (
+                      <p className="text-sm text-warning">
+                        Exam #{draft.createdExamId} created on-chain but not published; resume to finish it
+                      </p>
+                    )}
+                  </div>
+                  <Link href={`/exams/create/?draft=${draft.id}`} className="text-sm text-primary hover:text-primary/80">
+                    Resume
+                  </Link>
+                  <button onClick={() => handleDuplicate(draft)} className="text-sm text-primary hover:text-primary/80">
+                    Duplicate
+                  </button>
+                  <button onClick={() => handleDelete(draft)} className="text-sm text-error hover:text-error/80">
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-card p-6 rounded-lg shadow-card mt-6">
+          <h2 className="text-xl font-semibold mb-2">Templates</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Saved with &quot;Save as Template&quot; on the Create Exam page: questions, scores, passing score, attempts,
+            time limit and shuffle settings. Using a template starts a new draft with empty dates and access.
+          </p>
+          {templates.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No templates yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <div key={template.id} className="flex items-center gap-3 p-3 border border-border rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{template.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {template.settings.questions.length} question(s) · saved{" "}
+                      {new Date(template.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleUseTemplate(template)}
+                    className="text-sm text-primary hover:text-primary/80"
+                  >
+                    Use
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTemplate(template)}
+                    className="text-sm text-error hover:text-error/80"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
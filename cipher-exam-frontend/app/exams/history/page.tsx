@@ -1,118 +1,47 @@
 "use client";
 
-import { useState, useEffect } from "react";
 import Link from "next/link";
 import { Navigation } from "@/components/Navigation";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { Contract } from "ethers";
-import { CipherExamABI } from "@/abi/CipherExamABI";
-import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
+import { useExamIndex } from "@/hooks/useExamIndex";
+import { ExamStatus, getStatusLabel } from "@/lib/examStatus";
 
 type ExamHistoryItem = {
-  examId: bigint;
+  examId: number;
   title: string;
   questionCount: number;
   submittedAt: number;
+  attemptTimes: number[];
   startTime: number;
   endTime: number;
-  status: number; // 0 = not started, 1 = in progress, 2 = ended
+  status: ExamStatus;
 };
 
 export default function HistoryPage() {
-  const { chainId, ethersReadonlyProvider, isConnected, connect, accounts } = useMetaMaskEthersSigner();
-  const [history, setHistory] = useState<ExamHistoryItem[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadHistory = async () => {
-      if (!chainId || !ethersReadonlyProvider || !accounts?.[0]) {
-        setHistory([]);
-        return;
-      }
-
-      const address = CipherExamAddresses[String(chainId) as keyof typeof CipherExamAddresses]?.address;
-      if (!address || address === "0x0000000000000000000000000000000000000000") {
-        setHistory([]);
-        return;
-      }
-
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const contract = new Contract(address, CipherExamABI.abi, ethersReadonlyProvider);
-        const userAddress = accounts[0];
-        
-        // Get total number of exams
-        const nextExamId = await contract.getNextExamId();
-        const examCount = Number(nextExamId);
-
-        // Check each exam for user submissions
-        const historyPromises: Promise<ExamHistoryItem | null>[] = [];
-        for (let i = 0; i < examCount; i++) {
-          historyPromises.push(
-            (async () => {
-              try {
-                // Check if user has submitted by checking submission.exists
-                // This works because submissions is a public mapping
-                const submission = await contract.submissions(BigInt(i), userAddress);
-                if (!submission.exists) {
-                  return null;
-                }
-
-                // Get exam info
-                const info = await contract.getExamInfo(BigInt(i));
-                const status = await contract.getExamStatus(BigInt(i));
-                
-                // Get submission timestamp
-                const submittedAt = Number(submission.submittedAt);
-
-                return {
-                  examId: BigInt(i),
-                  title: info.title,
-                  questionCount: Number(info.questionCount),
-                  submittedAt,
-                  startTime: Number(info.startTime),
-                  endTime: Number(info.endTime),
-                  status: Number(status),
-                };
-              } catch {
-                return null;
-              }
-            })()
-          );
-        }
-
-        const results = await Promise.all(historyPromises);
-        const validHistory = results
-          .filter((item): item is ExamHistoryItem => item !== null)
-          .sort((a, b) => b.submittedAt - a.submittedAt); // Sort by most recent first
-
-        setHistory(validHistory);
-      } catch (err) {
-        console.error("Failed to load history:", err);
-        setError(err instanceof Error ? err.message : "Failed to load exam history");
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadHistory();
-  }, [chainId, ethersReadonlyProvider, accounts]);
-
-  const getStatusLabel = (status: number) => {
-    switch (status) {
-      case 0:
-        return { label: "Not Started", color: "text-muted-foreground bg-muted" };
-      case 1:
-        return { label: "In Progress", color: "text-primary bg-primary/10" };
-      case 2:
-        return { label: "Ended", color: "text-muted-foreground bg-muted" };
-      default:
-        return { label: "Unknown", color: "text-muted-foreground bg-muted" };
-    }
-  };
+  const { isConnected, connect, accounts } = useMetaMaskEthersSigner();
+  const { exams, submissions, isIndexing, hasIndex, error } = useExamIndex();
+
+  const userAddress = accounts?.[0]?.toLowerCase();
+  const history: ExamHistoryItem[] = submissions
+    .filter((s) => s.student.toLowerCase() === userAddress)
+    .flatMap((s) => {
+      const exam = exams.find((e) => e.id === s.examId);
+      if (!exam) return [];
+      return [
+        {
+          examId: exam.id,
+          title: exam.title,
+          questionCount: exam.questionCount,
+          submittedAt: s.submittedAt,
+          attemptTimes: s.attemptTimes,
+          startTime: exam.startTime,
+          endTime: exam.endTime,
+          status: exam.status,
+        },
+      ];
+    })
+    .sort((a, b) => b.submittedAt - a.submittedAt); // Sort by most recent first
+  const isLoading = isIndexing && !hasIndex;
 
   return (
     <div className="min-h-screen bg-background">
@@ -191,6 +120,16 @@ export default function HistoryPage() {
                   
                   <div className="space-y-2 mb-4 text-sm text-muted-foreground">
                     <p>Exam Period: {new Date(item.startTime * 1000).toLocaleString()} - {new Date(item.endTime * 1000).toLocaleString()}</p>
+                    {item.attemptTimes.length > 1 && (
+                      <div>
+                        <p>Attempts: {item.attemptTimes.length}</p>
+                        <ol className="list-decimal list-inside">
+                          {item.attemptTimes.map((t, i) => (
+                            <li key={i}>{new Date(t * 1000).toLocaleString()}</li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex gap-2">
@@ -0,0 +1,89 @@
+// components/BulkImportReport.tsx
+"use client";
+
+import { Question } from "@/types/exam";
+import { BulkImportRow, CSV_COLUMNS, acceptedQuestions } from "@/lib/bulkImport";
+
+type Props = {
+  fileName: string;
+  rows: BulkImportRow[];
+  onAccept: (questions: Question[]) => void;
+  onClose: () => void;
+};
+
+// Per-row validation report shown before bulk imported questions are added to the exam
+export function BulkImportReport({ fileName, rows, onAccept, onClose }: Props) {
+  const valid = acceptedQuestions(rows);
+  const failed = rows.length - valid.length;
+  const rowLabel = fileName.toLowerCase().endsWith(".csv") ? "Line" : "Item";
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Bulk Import: {fileName}</h3>
+        <button type="button" onClick={onClose} className="text-sm text-muted-foreground hover:text-foreground">
+          Close
+        </button>
+      </div>
+
+      <p className="text-sm">
+        {valid.length} of {rows.length} question(s) are valid
+        {failed > 0 && <span className="text-error">; {failed} will be skipped unless fixed in the file</span>}
+      </p>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No questions found. CSV files need a header row with the columns {CSV_COLUMNS.join(", ")}.
+        </p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 pr-3">{rowLabel}</th>
+                <th className="py-1 pr-3">Question</th>
+                <th className="py-1">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.row} className="border-t border-border align-top">
+                  <td className="py-1 pr-3">{row.row}</td>
+                  <td className="py-1 pr-3">
+                    {row.question?.title || <span className="text-muted-foreground">(untitled)</span>}
+                    {row.question && <span className="text-muted-foreground"> · {row.question.type}</span>}
+                  </td>
+                  <td className="py-1">
+                    {row.errors.length === 0 ? (
+                      <span className="text-success">OK</span>
+                    ) : (
+                      <ul className="text-error">
+                        {row.errors.map((error, i) => (
+                          <li key={i}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onClose} className="px-4 py-2 border border-border rounded-lg hover:bg-muted/50">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onAccept(valid)}
+          disabled={valid.length === 0}
+          className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+        >
+          Add {valid.length} Question(s)
+        </button>
+      </div>
+    </div>
+  );
+}
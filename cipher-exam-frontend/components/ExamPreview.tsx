@@ -0,0 +1,150 @@
+// components/ExamPreview.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { hexlify, randomBytes } from "ethers";
+import { ExamForm } from "@/types/exam";
+import { ExamQuestionCard, initialAnswer } from "@/components/ExamQuestionCard";
+import { calculatePenalty, calculateScore } from "@/lib/scoring";
+import { displayedOptions, questionOrder } from "@/lib/shuffle";
+import { hasPools, resolveSlots } from "@/lib/questionPools";
+import { percentToPoints } from "@/lib/gradeBands";
+import { sectionEnds, sectionThresholds } from "@/lib/examSections";
+
+type Props = {
+  form: ExamForm;
+  onClose: () => void;
+};
+
+// The exam as a student will see it on the take page. There is no exam ID or student before
+// the exam is created, so a random seed stands in for one student's shuffle and pool draw.
+export function ExamPreview({ form, onClose }: Props) {
+  const [seed, setSeed] = useState(() => hexlify(randomBytes(32)));
+  const [answers, setAnswers] = useState<(string | string[])[]>([]);
+  const [showScore, setShowScore] = useState(false);
+
+  const questions = useMemo(() => {
+    if (!hasPools(form.questions)) return form.questions;
+    return resolveSlots(form.questions, seed).map((i) => form.questions[i]);
+  }, [form.questions, seed]);
+
+  useEffect(() => {
+    setAnswers(questions.map(initialAnswer));
+    setShowScore(false);
+  }, [questions]);
+
+  const displayOrder = form.shuffleQuestions ? questionOrder(questions.length, seed) : questions.map((_, i) => i);
+  const studentAnswers = questions.map((question, i) => ({
+    questionId: question.id,
+    answer: answers[i] ?? initialAnswer(question),
+  }));
+  // Net score per question: negative for a penalised wrong answer. Totals are floored at 0 as on-chain
+  const scores = questions.map(
+    (question, i) => calculateScore(question, studentAnswers[i]) - calculatePenalty(question, studentAnswers[i])
+  );
+  const penaltyTotal = questions.reduce((sum, question, i) => sum + calculatePenalty(question, studentAnswers[i]), 0);
+  const total = Math.max(0, scores.reduce((sum, score) => sum + score, 0));
+  const maxTotal = questions.reduce((sum, question) => sum + question.maxScore, 0);
+  const passingPoints =
+    form.passingScoreUnit === "percent" ? percentToPoints(form.passingScore, maxTotal) : form.passingScore;
+  const grade = form.gradeBands.find((band) => total >= percentToPoints(band.minPercent, maxTotal));
+  const thresholds = sectionThresholds(form.sections, questions.map((question) => question.maxScore));
+  const sectionResults = sectionEnds(form.sections).map((end, i) => {
+    const subtotal = Math.max(
+      0,
+      scores.slice(end - form.sections[i].questionCount, end).reduce((sum, score) => sum + score, 0)
+    );
+    return { name: form.sections[i].name, subtotal, passed: subtotal >= thresholds[i] };
+  });
+  const passed = total >= passingPoints && sectionResults.every((section) => section.passed);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-primary/10 rounded-lg flex flex-wrap justify-between items-center gap-2">
+        <span className="text-sm">Preview: nothing is sent on-chain and answers are not kept.</span>
+        <div className="flex gap-2">
+          {(form.shuffleQuestions || form.shuffleOptions || hasPools(form.questions)) && (
+            <button
+              type="button"
+              onClick={() => setSeed(hexlify(randomBytes(32)))}
+              className="px-3 py-1 text-primary border border-primary rounded-lg hover:bg-primary/10"
+            >
+              Another Student
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1 border border-border rounded-lg hover:bg-muted/50"
+          >
+            Back to Editing
+          </button>
+        </div>
+      </div>
+
+      <h1 className="text-3xl font-bold">{form.title || "Untitled exam"}</h1>
+      <div className="bg-card p-6 rounded-lg shadow-card">
+        {form.startTime && (
+          <p className="text-sm text-muted-foreground mb-2">Start: {new Date(form.startTime).toLocaleString()}</p>
+        )}
+        {form.endTime && (
+          <p className="text-sm text-muted-foreground mb-4">End: {new Date(form.endTime).toLocaleString()}</p>
+        )}
+        <p className="text-sm">Total Questions: {questions.length}</p>
+        {form.durationMinutes > 0 && <p className="text-sm mt-2">Time limit: {form.durationMinutes} minutes</p>}
+      </div>
+
+      <div className="space-y-6">
+        {displayOrder.map((index, position) => {
+          const question = questions[index];
+          return (
+            <ExamQuestionCard
+              key={question.id}
+              question={question}
+              name={`preview-${index}`}
+              position={position}
+              options={displayedOptions(question, index, seed, form.shuffleOptions)}
+              answer={answers[index] ?? initialAnswer(question)}
+              onChange={(answer) => {
+                const updated = [...answers];
+                updated[index] = answer;
+                setAnswers(updated);
+              }}
+            />
+          );
+        })}
+      </div>
+
+      <div className="bg-card p-6 rounded-lg shadow-card">
+        {showScore ? (
+          <div className="space-y-1">
+            <p className="font-semibold">
+              Score: {total} / {maxTotal} ({passed ? "Passed" : "Failed"}, passing score{" "}
+              {passingPoints})
+            </p>
+            {penaltyTotal > 0 && (
+              <p className="text-sm text-error">Penalties for wrong answers: -{penaltyTotal}</p>
+            )}
+            {form.gradeBands.length > 0 && <p>Grade: {grade?.label ?? "No grade"}</p>}
+            {sectionResults.map((section, i) => (
+              <p key={i} className="text-sm">
+                {section.name}: {section.subtotal} ({section.passed ? "Passed" : "Failed"})
+              </p>
+            ))}
+            {questions.some((question) => question.type === "essay") && (
+              <p className="text-sm text-muted-foreground">Essays are graded by hand and count as 0 here.</p>
+            )}
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setShowScore(true)}
+            className="w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary/90"
+          >
+            Check Answers
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+// components/ExamQuestionCard.tsx
+"use client";
+
+import { useState } from "react";
+import { Question } from "@/types/exam";
+import { toPublicQuestion } from "@/lib/contentHash";
+
+// Ordering items and matching right items, sorted so their position does not give the answer away
+function choices(question: Question): string[] {
+  return toPublicQuestion(question).choices ?? [];
+}
+
+// Ordering items start sorted, matching pairs start empty
+export function initialAnswer(question: Question): string | string[] {
+  switch (question.type) {
+    case "multiple-choice":
+      return [];
+    case "ordering":
+      return choices(question);
+    case "matching":
+      return (question.options || []).map(() => "");
+    default:
+      return "";
+  }
+}
+
+type Props = {
+  question: Question;
+  name: string; // Unique per question, groups the radio buttons
+  position: number; // Where the student sees the question, from 0
+  options: string[]; // Choice options in the order the student sees them
+  answer: string | string[];
+  onChange: (answer: string | string[]) => void;
+};
+
+// One question as a student answers it, shared by the take page and the draft preview
+export function ExamQuestionCard({ question, name, position, options, answer, onChange }: Props) {
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const moveItem = (from: number, to: number) => {
+    const items = [...(answer as string[])];
+    if (to < 0 || to >= items.length) return;
+    const [item] = items.splice(from, 1);
+    items.splice(to, 0, item);
+    onChange(items);
+  };
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-card">
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex-1">
+          <h3 className="font-semibold text-lg mb-2">
+            Question {position + 1}: {question.title}
+          </h3>
+          <span className="text-sm text-muted-foreground">
+            Type: {question.type.replace("-", " ")} | Max Score: {question.maxScore} points
+          </span>
+        </div>
+      </div>
+
+      {(question.type === "single-choice" || question.type === "true-false") && question.options && (
+        <div className="space-y-2">
+          {options.map((option, optIndex) => (
+            <label key={optIndex} className="flex items-center gap-3 p-3 border border-border rounded-lg hover:bg-muted/50 cursor-pointer">
+              <input
+                type="radio"
+                name={name}
+                value={option}
+                checked={answer === option}
+                onChange={(e) => onChange(e.target.value)}
+                className="w-4 h-4"
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === "multiple-choice" && question.options && (
+        <div className="space-y-2">
+          {options.map((option, optIndex) => (
+            <label key={optIndex} className="flex items-center gap-3 p-3 border border-border rounded-lg hover:bg-muted/50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={(answer as string[]).includes(option)}
+                onChange={(e) => {
+                  const current = answer as string[];
+                  const updated = e.target.checked
+                    ? [...current, option]
+                    : current.filter((a) => a !== option);
+                  onChange(updated);
+                }}
+                className="w-4 h-4"
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === "numeric" && (
+        <input
+          type="text"
+          inputMode="decimal"
+          value={answer as string}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-4 py-2 border border-border rounded-lg"
+          placeholder="Enter a number..."
+        />
+      )}
+
+      {question.type === "ordering" && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Drag the items, or use the arrows, to put them in order.</p>
+          {(answer as string[]).map((item, itemIndex) => (
+            <div
+              key={item}
+              draggable
+              onDragStart={() => setDragging(itemIndex)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragging !== null) moveItem(dragging, itemIndex);
+                setDragging(null);
+              }}
+              onDragEnd={() => setDragging(null)}
+              className={`flex items-center gap-3 p-3 border border-border rounded-lg cursor-move ${
+                dragging === itemIndex ? "opacity-50" : "hover:bg-muted/50"
+              }`}
+            >
+              <span className="w-6 text-sm text-muted-foreground">{itemIndex + 1}.</span>
+              <span className="flex-1">{item}</span>
+              <button
+                type="button"
+                onClick={() => moveItem(itemIndex, itemIndex - 1)}
+                disabled={itemIndex === 0}
+                className="px-2 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                aria-label="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveItem(itemIndex, itemIndex + 1)}
+                disabled={itemIndex === (answer as string[]).length - 1}
+                className="px-2 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                aria-label="Move down"
+              >
+                ↓
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {question.type === "matching" && question.options && (
+        <div className="space-y-2">
+          {question.options.map((left, leftIndex) => (
+            <div key={leftIndex} className="flex items-center gap-3 p-3 border border-border rounded-lg">
+              <span className="flex-1">{left}</span>
+              <select
+                value={(answer as string[])[leftIndex] ?? ""}
+                onChange={(e) => {
+                  const updated = [...(answer as string[])];
+                  updated[leftIndex] = e.target.value;
+                  onChange(updated);
+                }}
+                className="flex-1 px-3 py-2 border border-border rounded-lg"
+              >
+                <option value="">Select a match...</option>
+                {choices(question).map((right) => (
+                  <option key={right} value={right}>
+                    {right}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(question.type === "fill-blank" || question.type === "essay") && (
+        <textarea
+          value={answer as string}
+          onChange={(e) => onChange(e.target.value)}
+          rows={question.type === "essay" ? 6 : 3}
+          className="w-full px-4 py-2 border border-border rounded-lg"
+          placeholder={question.type === "essay" ? "Write your essay answer here..." : "Enter your answer..."}
+        />
+      )}
+    </div>
+  );
+}
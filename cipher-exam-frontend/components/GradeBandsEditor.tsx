@@ -0,0 +1,73 @@
+// components/GradeBandsEditor.tsx
+"use client";
+
+import { GradeBand } from "@/types/exam";
+import { DEFAULT_GRADE_BANDS, MAX_GRADE_BANDS, percentToPoints } from "@/lib/gradeBands";
+
+type Props = {
+  bands: GradeBand[];
+  maxTotal: number;
+  onChange: (bands: GradeBand[]) => void;
+};
+
+export function GradeBandsEditor({ bands, maxTotal, onChange }: Props) {
+  const updateBand = (index: number, updates: Partial<GradeBand>) => {
+    onChange(bands.map((band, i) => (i === index ? { ...band, ...updates } : band)));
+  };
+
+  if (bands.length === 0) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_GRADE_BANDS.map((band) => ({ ...band })))}
+        className="text-sm text-primary hover:text-primary/80"
+      >
+        + Add grade bands (A to F)
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {bands.map((band, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={band.label}
+            onChange={(e) => updateBand(index, { label: e.target.value })}
+            className="w-24 px-3 py-2 border border-border rounded-lg"
+            placeholder="Label"
+          />
+          <span className="text-sm">from</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={band.minPercent}
+            onChange={(e) => updateBand(index, { minPercent: parseFloat(e.target.value) || 0 })}
+            className="w-24 px-3 py-2 border border-border rounded-lg"
+          />
+          <span className="text-sm text-muted-foreground flex-1">
+            % ({percentToPoints(band.minPercent, maxTotal)} of {maxTotal} points)
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(bands.filter((_, i) => i !== index))}
+            className="text-sm text-error hover:text-error/80"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      {bands.length < MAX_GRADE_BANDS && (
+        <button
+          type="button"
+          onClick={() => onChange([...bands, { label: "", minPercent: 0 }])}
+          className="text-sm text-primary hover:text-primary/80"
+        >
+          + Add Band
+        </button>
+      )}
+    </div>
+  );
+}
@@ -31,6 +31,12 @@ export function Navigation() {
               <Link href="/exams/create" className="text-sm font-medium hover:text-primary transition-colors">
                 Create Exam
               </Link>
+              <Link href="/exams/bank" className="text-sm font-medium hover:text-primary transition-colors">
+                Question Bank
+              </Link>
+              <Link href="/exams/drafts" className="text-sm font-medium hover:text-primary transition-colors">
+                My Drafts
+              </Link>
             </div>
           </div>
           
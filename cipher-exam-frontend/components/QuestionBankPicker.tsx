@@ -0,0 +1,141 @@
+// components/QuestionBankPicker.tsx
+"use client";
+
+import { useState } from "react";
+import { BankQuestion, QuestionDifficulty } from "@/types/exam";
+import { BankFilter, filterBankQuestions } from "@/lib/questionBank";
+import { useQuestionBank } from "@/hooks/useQuestionBank";
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+type FilterBarProps = {
+  filter: BankFilter;
+  tags: string[];
+  topics: string[];
+  onChange: (filter: BankFilter) => void;
+};
+
+export function BankFilterBar({ filter, tags, topics, onChange }: FilterBarProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+      <input
+        type="text"
+        value={filter.text ?? ""}
+        onChange={(e) => onChange({ ...filter, text: e.target.value })}
+        className="px-3 py-2 border border-border rounded-lg"
+        placeholder="Search questions..."
+      />
+      <select
+        value={filter.tag ?? ""}
+        onChange={(e) => onChange({ ...filter, tag: e.target.value })}
+        className="px-3 py-2 border border-border rounded-lg"
+      >
+        <option value="">All tags</option>
+        {tags.map((tag) => (
+          <option key={tag} value={tag}>
+            {tag}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filter.topic ?? ""}
+        onChange={(e) => onChange({ ...filter, topic: e.target.value })}
+        className="px-3 py-2 border border-border rounded-lg"
+      >
+        <option value="">All topics</option>
+        {topics.map((topic) => (
+          <option key={topic} value={topic}>
+            {topic}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filter.difficulty ?? ""}
+        onChange={(e) => onChange({ ...filter, difficulty: e.target.value as QuestionDifficulty | "" })}
+        className="px-3 py-2 border border-border rounded-lg"
+      >
+        <option value="">Any difficulty</option>
+        {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export function BankQuestionSummary({ entry }: { entry: BankQuestion }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="font-medium truncate">{entry.question.title || "Untitled question"}</p>
+      <p className="text-sm text-muted-foreground">
+        {entry.question.type.replace("-", " ")} · {entry.question.maxScore} points · {DIFFICULTY_LABELS[entry.difficulty]}
+        {entry.topic && ` · ${entry.topic}`} · v{entry.version}
+      </p>
+      {entry.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {entry.tags.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 text-xs bg-primary/10 text-primary rounded">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type PickerProps = {
+  onInsert: (entry: BankQuestion) => void;
+  onClose: () => void;
+};
+
+export function QuestionBankPicker({ onInsert, onClose }: PickerProps) {
+  const { entries, tags, topics, isLoading, error } = useQuestionBank();
+  const [filter, setFilter] = useState<BankFilter>({});
+
+  const matches = filterBankQuestions(entries, filter);
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Question Bank</h3>
+        <button type="button" onClick={onClose} className="text-sm text-muted-foreground hover:text-foreground">
+          Close
+        </button>
+      </div>
+
+      <BankFilterBar filter={filter} tags={tags} topics={topics} onChange={setFilter} />
+
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      {isLoading && entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Loading question bank...</p>
+      ) : matches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {entries.length === 0 ? "The question bank is empty." : "No questions match these filters."}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {matches.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-3 p-3 border border-border rounded-lg">
+              <BankQuestionSummary entry={entry} />
+              <button
+                type="button"
+                onClick={() => onInsert(entry)}
+                className="px-3 py-1 text-primary border border-primary rounded-lg hover:bg-primary/10"
+              >
+                Insert
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,28 +1,43 @@
 // components/QuestionEditor.tsx
 "use client";
 
-import { Question, QuestionType } from "@/types/exam";
+import { FillBlankMatch, MultipleChoiceScoring, Question, QuestionType } from "@/types/exam";
 import { useState } from "react";
+import { isKeyGradable } from "@/lib/answerEncoding";
+import { TRUE_FALSE_OPTIONS, acceptsPenalty } from "@/lib/scoring";
 
 type Props = {
   question: Question;
   index: number;
   onUpdate: (question: Question) => void;
-  onDelete: () => void;
+  onDelete?: () => void;
+  onSaveToBank?: () => void;
 };
 
-export function QuestionEditor({ question, index, onUpdate, onDelete }: Props) {
+export function QuestionEditor({ question, index, onUpdate, onDelete, onSaveToBank }: Props) {
   const [localQuestion, setLocalQuestion] = useState(question);
 
   const updateQuestion = (updates: Partial<Question>) => {
     const updated = { ...localQuestion, ...updates };
+    // Ordering items are entered in the correct order
+    if (updated.type === "ordering") {
+      updated.correctAnswer = [...(updated.options || [])];
+    }
+    // Hand-graded questions cannot take a penalty
+    if (!acceptsPenalty(updated)) {
+      delete updated.penalty;
+    }
     setLocalQuestion(updated);
     onUpdate(updated);
   };
 
   const addOption = () => {
     const options = localQuestion.options || [];
-    updateQuestion({ options: [...options, ""] });
+    const updates: Partial<Question> = { options: [...options, ""] };
+    if (localQuestion.optionWeights) {
+      updates.optionWeights = [...localQuestion.optionWeights, 0];
+    }
+    updateQuestion(updates);
   };
 
   const updateOption = (optIndex: number, value: string) => {
@@ -33,24 +48,88 @@ export function QuestionEditor({ question, index, onUpdate, onDelete }: Props) {
 
   const removeOption = (optIndex: number) => {
     const options = localQuestion.options?.filter((_, i) => i !== optIndex) || [];
-    updateQuestion({ options });
+    const updates: Partial<Question> = { options };
+    if (localQuestion.optionWeights) {
+      updates.optionWeights = localQuestion.optionWeights.filter((_, i) => i !== optIndex);
+    }
+    updateQuestion(updates);
+  };
+
+  // Options with a positive weight count as the correct answers of a weighted question
+  const updateOptionWeight = (optIndex: number, weight: number) => {
+    const options = localQuestion.options || [];
+    const optionWeights = options.map((_, i) => (i === optIndex ? weight : localQuestion.optionWeights?.[i] || 0));
+    updateQuestion({
+      optionWeights,
+      correctAnswer: options.filter((_, i) => optionWeights[i] > 0),
+    });
+  };
+
+  const updateScoring = (scoring: MultipleChoiceScoring) => {
+    const updates: Partial<Question> = { scoring };
+    if (scoring === "weighted") {
+      const correct = (localQuestion.correctAnswer as string[]) || [];
+      // Start from the current correct answers sharing the max score
+      updates.optionWeights = (localQuestion.options || []).map((opt) =>
+        correct.includes(opt) ? Math.floor(localQuestion.maxScore / Math.max(1, correct.length)) : 0
+      );
+    } else {
+      updates.optionWeights = undefined;
+    }
+    updateQuestion(updates);
   };
 
   const updateCorrectAnswer = (value: string | string[]) => {
     updateQuestion({ correctAnswer: value });
   };
 
+  // Matching pairs keep the left items in `options` and their right items at the same index in `correctAnswer`
+  const updatePair = (pairIndex: number, side: "left" | "right", value: string) => {
+    const options = [...(localQuestion.options || [])];
+    const rights = [...((localQuestion.correctAnswer as string[]) || [])];
+    if (side === "left") options[pairIndex] = value;
+    else rights[pairIndex] = value;
+    updateQuestion({ options, correctAnswer: rights });
+  };
+
+  const addPair = () => {
+    updateQuestion({
+      options: [...(localQuestion.options || []), ""],
+      correctAnswer: [...((localQuestion.correctAnswer as string[]) || []), ""],
+    });
+  };
+
+  const removePair = (pairIndex: number) => {
+    updateQuestion({
+      options: (localQuestion.options || []).filter((_, i) => i !== pairIndex),
+      correctAnswer: ((localQuestion.correctAnswer as string[]) || []).filter((_, i) => i !== pairIndex),
+    });
+  };
+
   return (
     <div className="border border-border rounded-lg p-4 space-y-4">
       <div className="flex justify-between items-center">
         <h3 className="font-semibold">Question {index + 1}</h3>
-        <button
-          type="button"
-          onClick={onDelete}
-          className="text-error hover:text-error/80 text-sm"
-        >
-          Delete
-        </button>
+        <div className="flex gap-4">
+          {onSaveToBank && (
+            <button
+              type="button"
+              onClick={onSaveToBank}
+              className="text-primary hover:text-primary/80 text-sm"
+            >
+              Save to Bank
+            </button>
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="text-error hover:text-error/80 text-sm"
+            >
+              Delete
+            </button>
+          )}
+        </div>
       </div>
 
       <div>
@@ -72,27 +151,147 @@ export function QuestionEditor({ question, index, onUpdate, onDelete }: Props) {
           onChange={(e) => {
             const type = e.target.value as QuestionType;
             const updates: Partial<Question> = { type };
-            if (type === "single-choice" || type === "multiple-choice") {
+            if (type === "single-choice" || type === "multiple-choice" || type === "ordering") {
               updates.options = localQuestion.options || ["Option A", "Option B"];
               updates.correctAnswer = type === "single-choice" ? "" : [];
+            } else if (type === "true-false") {
+              updates.options = [...TRUE_FALSE_OPTIONS];
+              updates.correctAnswer = "";
+            } else if (type === "matching") {
+              updates.options = ["", ""];
+              updates.correctAnswer = ["", ""];
             } else {
               updates.options = undefined;
               updates.correctAnswer = "";
             }
+            if (type !== "multiple-choice") {
+              updates.scoring = undefined;
+              updates.optionWeights = undefined;
+            }
+            if (type !== "fill-blank") {
+              updates.matchMode = undefined;
+              updates.acceptedAnswers = undefined;
+              updates.maxEditDistance = undefined;
+            }
+            if (type !== "fill-blank" && type !== "numeric") {
+              updates.tolerance = undefined;
+            }
             updateQuestion(updates);
           }}
           className="w-full px-4 py-2 border border-border rounded-lg"
         >
           <option value="single-choice">Single Choice</option>
           <option value="multiple-choice">Multiple Choice</option>
+          <option value="true-false">True / False</option>
           <option value="fill-blank">Fill in the Blank</option>
+          <option value="numeric">Numeric</option>
+          <option value="ordering">Ordering</option>
+          <option value="matching">Matching</option>
           <option value="essay">Essay</option>
         </select>
       </div>
 
-      {(localQuestion.type === "single-choice" || localQuestion.type === "multiple-choice") && (
+      {localQuestion.type === "true-false" && (
+        <div>
+          <label className="block text-sm font-medium mb-2">Correct Answer *</label>
+          <select
+            value={localQuestion.correctAnswer as string || ""}
+            onChange={(e) => updateCorrectAnswer(e.target.value)}
+            className="w-full px-4 py-2 border border-border rounded-lg"
+          >
+            <option value="">Select correct answer</option>
+            {TRUE_FALSE_OPTIONS.map((opt) => (
+              <option key={opt} value={opt}>
+                {opt}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {localQuestion.type === "numeric" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Correct Value *</label>
+            <input
+              type="number"
+              step="any"
+              value={localQuestion.correctAnswer as string || ""}
+              onChange={(e) => updateCorrectAnswer(e.target.value)}
+              className="w-full px-4 py-2 border border-border rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Tolerance (±)</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={localQuestion.tolerance ?? 0}
+              onChange={(e) => updateQuestion({ tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-full px-4 py-2 border border-border rounded-lg"
+            />
+          </div>
+        </div>
+      )}
+
+      {localQuestion.type === "matching" && (
+        <div>
+          <label className="block text-sm font-medium mb-2">Pairs *</label>
+          <p className="text-xs text-muted-foreground mb-2">
+            Students match each left item with one of the right items; every correct pair earns its share of the score.
+          </p>
+          <div className="space-y-2">
+            {(localQuestion.options || []).map((left, pairIndex) => (
+              <div key={pairIndex} className="flex gap-2">
+                <input
+                  type="text"
+                  value={left}
+                  onChange={(e) => updatePair(pairIndex, "left", e.target.value)}
+                  className="flex-1 px-4 py-2 border border-border rounded-lg"
+                  placeholder={`Left ${pairIndex + 1}`}
+                />
+                <input
+                  type="text"
+                  value={((localQuestion.correctAnswer as string[]) || [])[pairIndex] ?? ""}
+                  onChange={(e) => updatePair(pairIndex, "right", e.target.value)}
+                  className="flex-1 px-4 py-2 border border-border rounded-lg"
+                  placeholder={`Right ${pairIndex + 1}`}
+                />
+                {(localQuestion.options?.length || 0) > 2 && (
+                  <button
+                    type="button"
+                    onClick={() => removePair(pairIndex)}
+                    className="px-3 text-error hover:text-error/80"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addPair}
+              className="text-sm text-primary hover:text-primary/80"
+            >
+              + Add Pair
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(localQuestion.type === "single-choice" ||
+        localQuestion.type === "multiple-choice" ||
+        localQuestion.type === "ordering") && (
         <div>
-          <label className="block text-sm font-medium mb-2">Options</label>
+          <label className="block text-sm font-medium mb-2">
+            {localQuestion.type === "ordering" ? "Items (in the correct order)" : "Options"}
+          </label>
+          {localQuestion.type === "ordering" && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Students see the items shuffled; each pair of items they put in the right relative order earns credit.
+            </p>
+          )}
           <div className="space-y-2">
             {(localQuestion.options || []).map((opt, optIndex) => (
               <div key={optIndex} className="flex gap-2">
@@ -119,58 +318,191 @@ export function QuestionEditor({ question, index, onUpdate, onDelete }: Props) {
               onClick={addOption}
               className="text-sm text-primary hover:text-primary/80"
             >
-              + Add Option
+              + Add {localQuestion.type === "ordering" ? "Item" : "Option"}
             </button>
           </div>
 
-          <div className="mt-4">
-            <label className="block text-sm font-medium mb-2">
-              Correct Answer{localQuestion.type === "multiple-choice" ? "s" : ""} *
-            </label>
-            {localQuestion.type === "single-choice" ? (
+          {localQuestion.type === "multiple-choice" && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium mb-2">Scoring</label>
               <select
-                value={localQuestion.correctAnswer as string || ""}
-                onChange={(e) => updateCorrectAnswer(e.target.value)}
+                value={localQuestion.scoring ?? "all-or-nothing"}
+                onChange={(e) => updateScoring(e.target.value as MultipleChoiceScoring)}
                 className="w-full px-4 py-2 border border-border rounded-lg"
               >
-                <option value="">Select correct answer</option>
-                {(localQuestion.options || []).map((opt, optIndex) => (
-                  <option key={optIndex} value={opt}>
-                    {opt}
-                  </option>
-                ))}
+                <option value="all-or-nothing">All or nothing</option>
+                <option value="proportional">Proportional (correct minus wrong picks)</option>
+                <option value="weighted">Per-option weights</option>
               </select>
-            ) : (
-              <div className="space-y-2">
-                {(localQuestion.options || []).map((opt, optIndex) => (
-                  <label key={optIndex} className="flex items-center gap-2">
-                    <input
-                      type="checkbox"
-                      checked={(localQuestion.correctAnswer as string[] || []).includes(opt)}
-                      onChange={(e) => {
-                        const current = (localQuestion.correctAnswer as string[] || []);
-                        const updated = e.target.checked
-                          ? [...current, opt]
-                          : current.filter((a) => a !== opt);
-                        updateCorrectAnswer(updated);
-                      }}
-                    />
-                    <span>{opt}</span>
-                  </label>
-                ))}
-              </div>
-            )}
+              {(localQuestion.scoring ?? "all-or-nothing") !== "all-or-nothing" && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Partial credit cannot be checked against an encrypted key, so you grade this question by hand on
+                  the exam&apos;s Grade Answers page. Students&apos; picks reach you encrypted and are never published.
+                </p>
+              )}
+            </div>
+          )}
+
+          {localQuestion.type !== "ordering" && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium mb-2">
+                {localQuestion.scoring === "weighted"
+                  ? "Option Weights (points, may be negative) *"
+                  : `Correct Answer${localQuestion.type === "multiple-choice" ? "s" : ""} *`}
+              </label>
+              {localQuestion.scoring === "weighted" ? (
+                <div className="space-y-2">
+                  {(localQuestion.options || []).map((opt, optIndex) => (
+                    <label key={optIndex} className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={-localQuestion.maxScore}
+                        max={localQuestion.maxScore}
+                        value={localQuestion.optionWeights?.[optIndex] ?? 0}
+                        onChange={(e) => updateOptionWeight(optIndex, parseInt(e.target.value) || 0)}
+                        className="w-20 px-2 py-1 border border-border rounded-lg"
+                      />
+                      <span>{opt}</span>
+                    </label>
+                  ))}
+                </div>
+              ) : localQuestion.type === "single-choice" ? (
+                <select
+                  value={localQuestion.correctAnswer as string || ""}
+                  onChange={(e) => updateCorrectAnswer(e.target.value)}
+                  className="w-full px-4 py-2 border border-border rounded-lg"
+                >
+                  <option value="">Select correct answer</option>
+                  {(localQuestion.options || []).map((opt, optIndex) => (
+                    <option key={optIndex} value={opt}>
+                      {opt}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <div className="space-y-2">
+                  {(localQuestion.options || []).map((opt, optIndex) => (
+                    <label key={optIndex} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={(localQuestion.correctAnswer as string[] || []).includes(opt)}
+                        onChange={(e) => {
+                          const current = (localQuestion.correctAnswer as string[] || []);
+                          const updated = e.target.checked
+                            ? [...current, opt]
+                            : current.filter((a) => a !== opt);
+                          updateCorrectAnswer(updated);
+                        }}
+                      />
+                      <span>{opt}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {localQuestion.type === "fill-blank" && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Matching</label>
+            <select
+              value={localQuestion.matchMode ?? "text"}
+              onChange={(e) => {
+                const matchMode = e.target.value as FillBlankMatch;
+                updateQuestion({
+                  matchMode,
+                  tolerance: matchMode === "numeric" ? localQuestion.tolerance : undefined,
+                  maxEditDistance: matchMode === "text" ? localQuestion.maxEditDistance : undefined,
+                });
+              }}
+              className="w-full px-4 py-2 border border-border rounded-lg"
+            >
+              <option value="text">Text (ignores case and extra spaces)</option>
+              <option value="regex">Regular expression</option>
+              <option value="numeric">Number with tolerance</option>
+            </select>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              {localQuestion.matchMode === "regex"
+                ? "Pattern *"
+                : localQuestion.matchMode === "numeric"
+                  ? "Correct Value *"
+                  : "Correct Answer *"}
+            </label>
+            <input
+              type="text"
+              value={localQuestion.correctAnswer as string || ""}
+              onChange={(e) => updateCorrectAnswer(e.target.value)}
+              className="w-full px-4 py-2 border border-border rounded-lg"
+              placeholder={localQuestion.matchMode === "regex" ? "e.g. colou?r" : "Enter correct answer"}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Other Accepted Answers (one per line)</label>
+            <textarea
+              value={(localQuestion.acceptedAnswers || []).join("\n")}
+              onChange={(e) =>
+                updateQuestion({ acceptedAnswers: e.target.value ? e.target.value.split("\n") : undefined })
+              }
+              rows={2}
+              className="w-full px-4 py-2 border border-border rounded-lg"
+            />
+          </div>
+
+          {localQuestion.matchMode === "numeric" && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Tolerance (±)</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={localQuestion.tolerance ?? 0}
+                onChange={(e) => updateQuestion({ tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full px-4 py-2 border border-border rounded-lg"
+              />
+            </div>
+          )}
+
+          {(localQuestion.matchMode ?? "text") === "text" && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Allowed Typos (edit distance)</label>
+              <input
+                type="number"
+                min="0"
+                max="5"
+                value={localQuestion.maxEditDistance ?? 0}
+                onChange={(e) => {
+                  const maxEditDistance = Math.max(0, parseInt(e.target.value) || 0);
+                  updateQuestion({ maxEditDistance: maxEditDistance > 0 ? maxEditDistance : undefined });
+                }}
+                className="w-full px-4 py-2 border border-border rounded-lg"
+              />
+            </div>
+          )}
+
+          {!isKeyGradable(localQuestion) && (
+            <p className="text-xs text-muted-foreground">
+              Only a single exact answer can be graded on-chain, so you grade this question by hand on the exam&apos;s
+              Grade Answers page. Its score stays 0 until you do, and each student&apos;s answer is encrypted to you, so
+              unlike on-chain graded questions you see what they picked, not just their score.
+            </p>
+          )}
         </div>
       )}
 
-      {(localQuestion.type === "fill-blank" || localQuestion.type === "essay") && (
+      {localQuestion.type === "essay" && (
         <div>
           <label className="block text-sm font-medium mb-2">Correct Answer (for reference) *</label>
           <textarea
             value={localQuestion.correctAnswer as string || ""}
             onChange={(e) => updateCorrectAnswer(e.target.value)}
-            rows={localQuestion.type === "essay" ? 4 : 2}
+            rows={4}
             className="w-full px-4 py-2 border border-border rounded-lg"
             placeholder="Enter correct answer"
           />
@@ -189,6 +521,60 @@ export function QuestionEditor({ question, index, onUpdate, onDelete }: Props) {
           className="w-full px-4 py-2 border border-border rounded-lg"
         />
       </div>
+
+      {acceptsPenalty(localQuestion) && (
+        <div>
+          <label className="block text-sm font-medium mb-2">Penalty for a Wrong Answer (optional)</label>
+          <input
+            type="number"
+            min="0"
+            max={localQuestion.maxScore}
+            value={localQuestion.penalty ?? 0}
+            onChange={(e) => updateQuestion({ penalty: parseInt(e.target.value) || undefined })}
+            className="w-full px-4 py-2 border border-border rounded-lg"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Points taken off when the answer is wrong; blank answers lose nothing and the exam total never goes below 0.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Pool (optional)</label>
+          <input
+            type="text"
+            value={localQuestion.pool?.name ?? ""}
+            onChange={(e) =>
+              updateQuestion({
+                pool: e.target.value ? { name: e.target.value, draw: localQuestion.pool?.draw ?? 1 } : undefined,
+              })
+            }
+            className="w-full px-4 py-2 border border-border rounded-lg"
+            placeholder="e.g. Section A"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Questions Drawn from Pool</label>
+          <input
+            type="number"
+            min="1"
+            value={localQuestion.pool?.draw ?? 1}
+            disabled={!localQuestion.pool}
+            onChange={(e) =>
+              localQuestion.pool &&
+              updateQuestion({ pool: { ...localQuestion.pool, draw: Math.max(1, parseInt(e.target.value) || 1) } })
+            }
+            className="w-full px-4 py-2 border border-border rounded-lg disabled:opacity-50"
+          />
+        </div>
+      </div>
+      {localQuestion.pool && (
+        <p className="text-xs text-muted-foreground">
+          Each student gets this many of the questions in pool &quot;{localQuestion.pool.name}&quot;. Use the same draw and
+          max score for all of them. Each question keeps its own answer, graded on-chain.
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,94 @@
+// components/SectionsEditor.tsx
+"use client";
+
+import { ExamSection } from "@/types/exam";
+import { MAX_SECTIONS, sectionEnds, sectionMaxScores, sectionThresholds } from "@/lib/examSections";
+
+type Props = {
+  sections: ExamSection[];
+  slotScores: number[]; // Max score of every question as students answer them
+  onChange: (sections: ExamSection[]) => void;
+};
+
+export function SectionsEditor({ sections, slotScores, onChange }: Props) {
+  const updateSection = (index: number, updates: Partial<ExamSection>) => {
+    onChange(sections.map((section, i) => (i === index ? { ...section, ...updates } : section)));
+  };
+
+  if (sections.length === 0) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange([{ name: "Section 1", questionCount: slotScores.length, minPercent: 50 }])}
+        className="text-sm text-primary hover:text-primary/80"
+      >
+        + Split into sections
+      </button>
+    );
+  }
+
+  const ends = sectionEnds(sections);
+  const maxScores = sectionMaxScores(sections, slotScores);
+  const thresholds = sectionThresholds(sections, slotScores);
+  const examMax = slotScores.reduce((sum, score) => sum + score, 0);
+
+  return (
+    <div className="space-y-2">
+      {sections.map((section, index) => (
+        <div key={index} className="p-3 border border-border rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={section.name}
+              onChange={(e) => updateSection(index, { name: e.target.value })}
+              className="flex-1 px-3 py-2 border border-border rounded-lg"
+              placeholder="Section name"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(sections.filter((_, i) => i !== index))}
+              className="text-sm text-error hover:text-error/80"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <input
+              type="number"
+              min="1"
+              value={section.questionCount}
+              onChange={(e) => updateSection(index, { questionCount: parseInt(e.target.value) || 0 })}
+              className="w-20 px-3 py-2 border border-border rounded-lg"
+            />
+            <span>question(s), pass at</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={section.minPercent}
+              onChange={(e) => updateSection(index, { minPercent: parseFloat(e.target.value) || 0 })}
+              className="w-20 px-3 py-2 border border-border rounded-lg"
+            />
+            <span>%</span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Questions {ends[index] - section.questionCount + 1}-{ends[index]} · {maxScores[index]} points
+            {examMax > 0 && ` (${Math.round((maxScores[index] * 100) / examMax)}% of the exam)`} · passing subtotal{" "}
+            {thresholds[index]}
+          </p>
+        </div>
+      ))}
+      {sections.length < MAX_SECTIONS && (
+        <button
+          type="button"
+          onClick={() =>
+            onChange([...sections, { name: `Section ${sections.length + 1}`, questionCount: 1, minPercent: 50 }])
+          }
+          className="text-sm text-primary hover:text-primary/80"
+        >
+          + Add Section
+        </button>
+      )}
+    </div>
+  );
+}
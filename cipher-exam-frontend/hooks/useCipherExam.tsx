@@ -7,6 +7,7 @@ import { useFhevm } from "@/fhevm/useFhevm";
 import { CipherExamABI } from "@/abi/CipherExamABI";
 import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
 import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { ExamAccess, OPEN_ACCESS } from "@/lib/allowList";
 
 export function useCipherExam() {
   const {
@@ -49,11 +50,14 @@ export function useCipherExam() {
   const createExam = useCallback(
     async (
       title: string,
+      contentHash: string,
       questionCount: number,
       passingScore: number,
+      answerKey: number[],
       questionScores: number[],
       startTime: number,
-      endTime: number
+      endTime: number,
+      asDraft = false
     ) => {
       if (!contract || !ethersSigner || !fhevmInstance || !accounts?.[0]) {
         throw new Error("Not connected");
@@ -68,21 +72,30 @@ export function useCipherExam() {
         const newExamId = Number(nextExamId);
 
         const contractAddress = await contract.getAddress();
-        const encryptedInput = await fhevmInstance
+        const input = fhevmInstance
           .createEncryptedInput(contractAddress, accounts[0])
-          .add32(passingScore)
-          .encrypt();
+          .add32(passingScore);
+
+        // An empty answer key creates a self-scored exam
+        for (const expected of answerKey) {
+          input.add32(expected);
+        }
+
+        const encryptedInput = await input.encrypt();
 
         const tx = await (contract as any)
           .connect(ethersSigner)
           .createExam(
             title,
+            contentHash,
             questionCount,
             encryptedInput.handles[0],
+            encryptedInput.handles.slice(1),
             encryptedInput.inputProof,
             questionScores,
             startTime,
-            endTime
+            endTime,
+            asDraft
           );
         const receipt = await tx.wait();
         
@@ -106,7 +119,7 @@ export function useCipherExam() {
   );
 
   const submitAnswers = useCallback(
-    async (examId: bigint, scores: number[]) => {
+    async (examId: bigint, scores: number[], access: ExamAccess = OPEN_ACCESS) => {
       if (!contract || !ethersSigner || !fhevmInstance || !accounts?.[0]) {
         throw new Error("Not connected");
       }
@@ -127,7 +140,55 @@ export function useCipherExam() {
 
         const tx = await contract
           .connect(ethersSigner)
-          .submitAnswers(examId, encrypted.handles, encrypted.inputProof);
+          .submitAnswers(
+            examId,
+            encrypted.handles,
+            encrypted.inputProof,
+            access.allowListProof,
+            access.inviteCode
+          );
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner, fhevmInstance, accounts]
+  );
+
+  const submitEncryptedAnswers = useCallback(
+    async (examId: bigint, answers: number[], access: ExamAccess = OPEN_ACCESS) => {
+      if (!contract || !ethersSigner || !fhevmInstance || !accounts?.[0]) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const contractAddress = await contract.getAddress();
+        const encryptedInput = await fhevmInstance
+          .createEncryptedInput(contractAddress, accounts[0]);
+
+        for (const answer of answers) {
+          encryptedInput.add32(answer);
+        }
+
+        const encrypted = await encryptedInput.encrypt();
+
+        const tx = await contract
+          .connect(ethersSigner)
+          .submitEncryptedAnswers(
+            examId,
+            encrypted.handles,
+            encrypted.inputProof,
+            access.allowListProof,
+            access.inviteCode
+          );
         await tx.wait();
         return tx.hash;
       } catch (e) {
@@ -167,6 +228,494 @@ export function useCipherExam() {
     [contract, ethersSigner]
   );
 
+  const revealStatistics = useCallback(
+    async (examId: bigint) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .revealStatistics(examId);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const cancelExam = useCallback(
+    async (examId: bigint) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .cancelExam(examId);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const extendEndTime = useCallback(
+    async (examId: bigint, newEndTime: number) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .extendEndTime(examId, BigInt(newEndTime));
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const closeExam = useCallback(
+    async (examId: bigint) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .closeExam(examId);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const publishExam = useCallback(
+    async (examId: bigint) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .publishExam(examId);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setAllowListRoot = useCallback(
+    async (examId: bigint, root: string) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setAllowListRoot(examId, root);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setInviteCodeHash = useCallback(
+    async (examId: bigint, codeHash: string) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setInviteCodeHash(examId, codeHash);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setAttemptPolicy = useCallback(
+    async (examId: bigint, maxAttempts: number, scoringPolicy: number) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setAttemptPolicy(examId, maxAttempts, scoringPolicy);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setDuration = useCallback(
+    async (examId: bigint, durationSeconds: number) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setDuration(examId, durationSeconds);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setShuffle = useCallback(
+    async (examId: bigint, shuffleQuestions: boolean, shuffleOptions: boolean) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setShuffle(examId, shuffleQuestions, shuffleOptions);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setGradeBands = useCallback(
+    async (examId: bigint, labels: string[], thresholds: number[]) => {
+      if (!contract || !ethersSigner || !fhevmInstance || !accounts?.[0]) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const contractAddress = await contract.getAddress();
+        const input = fhevmInstance.createEncryptedInput(contractAddress, accounts[0]);
+        for (const threshold of thresholds) {
+          input.add32(threshold);
+        }
+        const encrypted = await input.encrypt();
+
+        const tx = await contract
+          .connect(ethersSigner)
+          .setGradeBands(examId, labels, encrypted.handles, encrypted.inputProof);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner, fhevmInstance, accounts]
+  );
+
+  const setSections = useCallback(
+    async (examId: bigint, names: string[], ends: number[], thresholds: number[]) => {
+      if (!contract || !ethersSigner || !fhevmInstance || !accounts?.[0]) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const contractAddress = await contract.getAddress();
+        const input = fhevmInstance.createEncryptedInput(contractAddress, accounts[0]);
+        for (const threshold of thresholds) {
+          input.add32(threshold);
+        }
+        const encrypted = await input.encrypt();
+
+        const tx = await contract
+          .connect(ethersSigner)
+          .setSections(examId, names, ends, encrypted.handles, encrypted.inputProof);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner, fhevmInstance, accounts]
+  );
+
+  const setPenalties = useCallback(
+    async (examId: bigint, penalties: number[]) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setPenalties(examId, penalties);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setManualQuestions = useCallback(
+    async (examId: bigint, manualQuestions: bigint) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setManualQuestions(examId, manualQuestions);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const setPools = useCallback(
+    async (examId: bigint, firstQuestions: number[], draws: number[], sizes: number[]) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setPools(examId, firstQuestions, draws, sizes);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const startAttempt = useCallback(
+    async (examId: bigint, access: ExamAccess = OPEN_ACCESS) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .startAttempt(examId, access.allowListProof, access.inviteCode);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
+  const gradeQuestion = useCallback(
+    async (examId: bigint, student: string, attemptIndex: number, questionIndex: number, score: number) => {
+      if (!contract || !ethersSigner || !fhevmInstance || !accounts?.[0]) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const contractAddress = await contract.getAddress();
+        const encrypted = await fhevmInstance
+          .createEncryptedInput(contractAddress, accounts[0])
+          .add32(score)
+          .encrypt();
+
+        const tx = await contract
+          .connect(ethersSigner)
+          .gradeQuestion(examId, student, attemptIndex, questionIndex, encrypted.handles[0], encrypted.inputProof);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner, fhevmInstance, accounts]
+  );
+
+  const setGraderKey = useCallback(
+    async (publicKey: string) => {
+      if (!contract || !ethersSigner) {
+        throw new Error("Not connected");
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const tx = await contract
+          .connect(ethersSigner)
+          .setGraderKey(publicKey);
+        await tx.wait();
+        return tx.hash;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contract, ethersSigner]
+  );
+
   return {
     contract,
     isConnected,
@@ -174,7 +723,26 @@ export function useCipherExam() {
     error,
     createExam,
     submitAnswers,
+    submitEncryptedAnswers,
     computeTotalAndJudge,
+    revealStatistics,
+    cancelExam,
+    extendEndTime,
+    closeExam,
+    publishExam,
+    setAllowListRoot,
+    setInviteCodeHash,
+    setAttemptPolicy,
+    setDuration,
+    setShuffle,
+    setGradeBands,
+    setSections,
+    setPenalties,
+    setManualQuestions,
+    setPools,
+    startAttempt,
+    gradeQuestion,
+    setGraderKey,
     fhevmInstance,
   };
 }
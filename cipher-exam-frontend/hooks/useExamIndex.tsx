@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { CipherExamAddresses } from "@/abi/CipherExamAddresses";
+import { CipherExamLensAddresses } from "@/abi/CipherExamLensAddresses";
+import {
+  ExamIndex,
+  IndexedExam,
+  IndexedSubmission,
+  loadExamIndex,
+  syncExamIndex,
+} from "@/lib/examIndex";
+
+export function useExamIndex() {
+  const { chainId, ethersReadonlyProvider, accounts } = useMetaMaskEthersSigner();
+  const [index, setIndex] = useState<ExamIndex | undefined>(undefined);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const syncIdRef = useRef(0);
+
+  const deployment = chainId ? CipherExamAddresses[String(chainId) as keyof typeof CipherExamAddresses] : undefined;
+  const address = deployment?.address;
+  const deploymentBlock = deployment?.deploymentBlock ?? 0;
+  const lensAddress = chainId
+    ? CipherExamLensAddresses[String(chainId) as keyof typeof CipherExamLensAddresses]?.address
+    : undefined;
+  const isDeployed = [address, lensAddress].every(
+    (deployed) => deployed && deployed !== "0x0000000000000000000000000000000000000000"
+  );
+
+  const account = accounts?.[0];
+
+  const refresh = useCallback(async () => {
+    const provider = ethersReadonlyProvider?.provider;
+    if (!chainId || !ethersReadonlyProvider || !provider || !address || !lensAddress || !isDeployed) {
+      setIndex(undefined);
+      return;
+    }
+
+    // Ignore results of a sync started for a previous chain or provider
+    const syncId = ++syncIdRef.current;
+    setIsIndexing(true);
+    setError(null);
+
+    try {
+      // Show the cached catalogue right away, then catch up on new blocks
+      const cached = await loadExamIndex(chainId, address);
+      if (syncId === syncIdRef.current && cached) {
+        setIndex({ ...cached });
+      }
+
+      const synced = await syncExamIndex(
+        provider,
+        ethersReadonlyProvider,
+        chainId,
+        address,
+        deploymentBlock,
+        lensAddress,
+        account,
+        (progress) => {
+          if (syncId === syncIdRef.current) setIndex({ ...progress });
+        }
+      );
+      if (syncId === syncIdRef.current) setIndex({ ...synced });
+    } catch (err) {
+      console.error("Failed to index exams:", err);
+      if (syncId === syncIdRef.current) {
+        setError(err instanceof Error ? err.message : "Failed to index exams");
+      }
+    } finally {
+      if (syncId === syncIdRef.current) setIsIndexing(false);
+    }
+  }, [chainId, ethersReadonlyProvider, address, deploymentBlock, lensAddress, isDeployed, account]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const exams: IndexedExam[] = index ? Object.values(index.exams).sort((a, b) => a.id - b.id) : [];
+  const submissions: IndexedSubmission[] = index ? Object.values(index.submissions) : [];
+
+  return {
+    exams,
+    submissions,
+    isIndexing,
+    hasIndex: index !== undefined,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { BankQuestion } from "@/types/exam";
+import { listBankQuestions } from "@/lib/questionBank";
+
+export function useQuestionBank() {
+  const [entries, setEntries] = useState<BankQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setEntries(await listBankQuestions());
+    } catch (err) {
+      console.error("Failed to load question bank:", err);
+      setError(err instanceof Error ? err.message : "Failed to load question bank");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const tags = [...new Set(entries.flatMap((entry) => entry.tags))].sort();
+  const topics = [...new Set(entries.map((entry) => entry.topic).filter(Boolean))].sort();
+
+  return {
+    entries,
+    tags,
+    topics,
+    isLoading,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,122 @@
+// lib/allowList.ts
+import { ZeroHash, getAddress, id, isAddress, keccak256, solidityPackedKeccak256 } from "ethers";
+
+// Access restrictions for exams: a Merkle allow-list of student addresses and/or an invite code.
+// The tree matches CipherExam._verifyAllowList: keccak256(address) leaves, pairs hashed in sorted order.
+
+const ROSTER_PREFIX = "cipher-exam:roster:";
+
+export type RosterParseResult = {
+  addresses: string[];
+  invalid: { line: number; value: string }[];
+  duplicates: number;
+};
+
+export type ExamAccess = {
+  allowListProof: string[];
+  inviteCode: string;
+};
+
+export const OPEN_ACCESS: ExamAccess = { allowListProof: [], inviteCode: ZeroHash };
+
+// Accepts one address per line, or CSV rows whose first address-looking cell is used;
+// a header row and blank lines are ignored
+export function parseRosterCsv(text: string): RosterParseResult {
+  const seen = new Set<string>();
+  const result: RosterParseResult = { addresses: [], invalid: [], duplicates: 0 };
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const cells = line.split(/[,;\t]/).map((c) => c.trim().replace(/^"|"$/g, ""));
+    const cell = cells.find((c) => c.startsWith("0x")) ?? cells[0];
+    if (!isAddress(cell)) {
+      // Only the first row may be a header
+      if (i > 0 || cells.some((c) => c.startsWith("0x"))) {
+        result.invalid.push({ line: i + 1, value: line });
+      }
+      return;
+    }
+
+    const address = getAddress(cell);
+    if (seen.has(address)) {
+      result.duplicates++;
+      return;
+    }
+    seen.add(address);
+    result.addresses.push(address);
+  });
+
+  return result;
+}
+
+function leaf(address: string): string {
+  return solidityPackedKeccak256(["address"], [address]);
+}
+
+function hashPair(a: string, b: string): string {
+  return solidityPackedKeccak256(["bytes32", "bytes32"], a < b ? [a, b] : [b, a]);
+}
+
+function buildLevels(addresses: string[]): string[][] {
+  const levels = [addresses.map(leaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      // An odd node out is promoted to the next level unchanged
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function allowListRoot(addresses: string[]): string {
+  if (addresses.length === 0) return ZeroHash;
+  const levels = buildLevels(addresses);
+  return levels[levels.length - 1][0];
+}
+
+// Returns null when the address is not in the roster
+export function allowListProof(addresses: string[], address: string): string[] | null {
+  const levels = buildLevels(addresses);
+  let index = levels[0].indexOf(leaf(getAddress(address)));
+  if (index < 0) return null;
+
+  const proof: string[] = [];
+  for (const level of levels.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+// The contract receives the code as bytes32 and compares keccak256 of it with the stored hash
+export function inviteCodeBytes(code: string): string {
+  return id(code.trim());
+}
+
+export function inviteCodeHash(code: string): string {
+  return keccak256(inviteCodeBytes(code));
+}
+
+export function saveRoster(examId: string, addresses: string[]): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(`${ROSTER_PREFIX}${examId}`, JSON.stringify(addresses));
+}
+
+export function loadRoster(examId: string): string[] | null {
+  if (typeof window === "undefined") return null;
+
+  const stored = localStorage.getItem(`${ROSTER_PREFIX}${examId}`);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+// lib/answerEncoding.ts
+import { id } from "ethers";
+import { Question } from "@/types/exam";
+import { normalizeAnswerText, parseNumber } from "@/lib/answerMatching";
+
+// Answers and answer keys are encrypted as euint32 values and compared with FHE.eq on-chain,
+// so both sides must use exactly the same encoding. A blank answer encodes as 0, which
+// negative marking does not penalise.
+
+// First 4 bytes of keccak256 of the normalized text
+function hashText(str: string): number {
+  return parseInt(id(normalizeAnswerText(str)).slice(2, 10), 16);
+}
+
+// Bit i is set when option i is selected
+function optionBitmask(options: string[], selected: string[]): number {
+  let mask = 0;
+  options.forEach((option, index) => {
+    if (selected.includes(option)) {
+      mask |= 1 << index;
+    }
+  });
+  return mask >>> 0;
+}
+
+// Hash of the canonical number, so "1.50" and "1.5" encode alike; 0 when unparseable
+function hashNumber(str: string): number {
+  const value = parseNumber(str);
+  return value === null ? 0 : hashText(String(value));
+}
+
+// CipherExam.MAX_ANSWER_KEYS: the key shares one encrypted input (at most 2048 bits) with the passing score
+export const MAX_ANSWER_KEYS = 63;
+
+export function isKeyGradable(question: Question): boolean {
+  switch (question.type) {
+    case "single-choice":
+    case "true-false":
+      return (question.options?.length || 0) <= 32;
+    case "multiple-choice":
+      // Partial credit cannot be expressed as equality with a single key
+      return (question.scoring ?? "all-or-nothing") === "all-or-nothing" && (question.options?.length || 0) <= 32;
+    case "fill-blank":
+      // Only a single exact text answer can be compared by hash
+      return (
+        (question.matchMode ?? "text") === "text" &&
+        !question.maxEditDistance &&
+        (question.acceptedAnswers?.length || 0) === 0
+      );
+    case "numeric":
+      // Only a single exact value can be compared by hash
+      return !question.tolerance && (question.acceptedAnswers?.length || 0) === 0;
+    default:
+      // Essays, rankings and pairings cannot be graded by equality
+      return false;
+  }
+}
+
+export function encodeAnswer(question: Question, answer: string | string[]): number {
+  switch (question.type) {
+    case "single-choice":
+    case "multiple-choice":
+    case "true-false":
+      return optionBitmask(question.options || [], Array.isArray(answer) ? answer : [answer]);
+    case "fill-blank":
+      return typeof answer === "string" && answer.trim() ? hashText(answer) : 0;
+    case "numeric":
+      return typeof answer === "string" ? hashNumber(answer) : 0;
+    default:
+      return 0;
+  }
+}
+
+export function encodeCorrectAnswer(question: Question): number {
+  return encodeAnswer(question, question.correctAnswer || "");
+}
+
+// Bit i set when question i cannot be compared with its key and is graded by the creator instead,
+// as passed to CipherExam.setManualQuestions with the questions in answer key order
+export function manualQuestionMask(questions: Question[]): bigint {
+  return questions.reduce(
+    (mask, question, i) => (isKeyGradable(question) ? mask : mask | (BigInt(1) << BigInt(i))),
+    BigInt(0)
+  );
+}
+
+export function isManualQuestion(mask: bigint, index: number): boolean {
+  return ((mask >> BigInt(index)) & BigInt(1)) === BigInt(1);
+}
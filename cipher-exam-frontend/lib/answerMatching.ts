@@ -0,0 +1,89 @@
+// lib/answerMatching.ts
+import { Question } from "@/types/exam";
+
+// Fill-in-the-blank answers are compared after Unicode (NFKC) and whitespace normalization,
+// so full-width characters, ligatures and repeated spaces do not cost students points.
+
+export function normalizeAnswerText(str: string): string {
+  return str.normalize("NFKC").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+export function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+export function parseNumber(str: string): number | null {
+  const cleaned = normalizeAnswerText(str).replace(/\s/g, "");
+  if (!cleaned) return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Whole-answer match; invalid patterns never match
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(`^(?:${pattern})$`, "iu");
+  } catch {
+    return null;
+  }
+}
+
+// The primary answer followed by the other accepted answers
+export function acceptedBlankAnswers(question: Question): string[] {
+  const primary = typeof question.correctAnswer === "string" ? [question.correctAnswer] : [];
+  return [...primary, ...(question.acceptedAnswers || [])].filter((a) => a.trim() !== "");
+}
+
+export function matchesBlank(question: Question, answer: string): boolean {
+  const accepted = acceptedBlankAnswers(question);
+
+  switch (question.matchMode ?? "text") {
+    case "regex": {
+      const normalized = answer.normalize("NFKC").replace(/\s+/g, " ").trim();
+      return accepted.some((pattern) => compilePattern(pattern)?.test(normalized) ?? false);
+    }
+
+    case "numeric": {
+      const value = parseNumber(answer);
+      if (value === null) return false;
+      // Allow for floating point error in the tolerance comparison
+      const tolerance = (question.tolerance ?? 0) + 1e-9;
+      return accepted.some((expected) => {
+        const target = parseNumber(expected);
+        return target !== null && Math.abs(value - target) <= tolerance;
+      });
+    }
+
+    default: {
+      const normalized = normalizeAnswerText(answer);
+      const maxDistance = question.maxEditDistance ?? 0;
+      return accepted.some((expected) => {
+        const target = normalizeAnswerText(expected);
+        return maxDistance > 0 ? levenshtein(normalized, target) <= maxDistance : normalized === target;
+      });
+    }
+  }
+}
+
+// Explains the first accepted answer that cannot be used with the question's match mode
+export function validateBlankAnswers(question: Question): string | null {
+  for (const expected of acceptedBlankAnswers(question)) {
+    if (question.matchMode === "regex" && !compilePattern(expected)) {
+      return `"${expected}" is not a valid regular expression`;
+    }
+    if (question.matchMode === "numeric" && parseNumber(expected) === null) {
+      return `"${expected}" is not a number`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,17 @@
+// lib/attemptPolicy.ts
+
+// Mirrors CipherExam.ScoringPolicy
+export enum ScoringPolicy {
+  Best = 0,
+  Last = 1,
+  Average = 2,
+}
+
+export const SCORING_POLICY_LABELS: Record<ScoringPolicy, string> = {
+  [ScoringPolicy.Best]: "Best attempt",
+  [ScoringPolicy.Last]: "Last attempt",
+  [ScoringPolicy.Average]: "Average of attempts",
+};
+
+// Matches CipherExam.MAX_ATTEMPTS
+export const MAX_ATTEMPTS = 10;
@@ -0,0 +1,279 @@
+// lib/bulkImport.ts
+import { FillBlankMatch, MultipleChoiceScoring, Question, QuestionType } from "@/types/exam";
+import { TRUE_FALSE_OPTIONS } from "@/lib/scoring";
+import { validateQuestion } from "@/lib/questionValidation";
+
+// Bulk question import from CSV or JSON. Every row is parsed and validated on its own, so the
+// report can show which rows would be accepted before any of them is added to the exam.
+//
+// CSV: a header row naming the columns below (any order, case-insensitive), then one question
+// per row. List cells (options, multiple correct answers, matching pairs, accepted answers)
+// separate their items with `|`.
+//
+// JSON: an array of questions, or an object with a `questions` array (the shape the question
+// store writes). Each question uses the fields of `Question`; `id` is optional and replaced on
+// import. The schema is published at /question-import.schema.json.
+
+export const BULK_IMPORT_ACCEPT = ".csv,.json";
+
+export const CSV_COLUMNS = [
+  "title",
+  "type",
+  "options",
+  "correctAnswer",
+  "maxScore",
+  "scoring",
+  "matchMode",
+  "acceptedAnswers",
+  "tolerance",
+  "penalty",
+] as const;
+
+const LIST_SEPARATOR = "|";
+
+const QUESTION_TYPES: QuestionType[] = [
+  "single-choice",
+  "multiple-choice",
+  "true-false",
+  "fill-blank",
+  "numeric",
+  "ordering",
+  "matching",
+  "essay",
+];
+const SCORING_MODES: MultipleChoiceScoring[] = ["all-or-nothing", "proportional", "weighted"];
+const MATCH_MODES: FillBlankMatch[] = ["text", "regex", "numeric"];
+const JSON_FIELDS = new Set([
+  "id",
+  "title",
+  "type",
+  "options",
+  "correctAnswer",
+  "maxScore",
+  "scoring",
+  "optionWeights",
+  "matchMode",
+  "acceptedAnswers",
+  "tolerance",
+  "maxEditDistance",
+  "pool",
+  "penalty",
+]);
+
+// One parsed row; `question` is null when the row could not be turned into a question at all
+export type BulkImportRow = {
+  row: number; // CSV line number or 1-based position in the JSON array
+  question: Question | null;
+  errors: string[];
+};
+
+type CsvRecord = { line: number; cells: string[] };
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n") line++;
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (c === "\n") {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) throw new Error(`Unterminated quoted cell starting on line ${recordLine}`);
+  endRecord();
+  return records;
+}
+
+function splitList(cell: string): string[] {
+  return cell
+    .split(LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// CSV cells are all text; turn them into the typed fields a JSON question would have
+function csvFields(columns: string[], cells: string[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  columns.forEach((column, i) => {
+    const cell = (cells[i] ?? "").trim();
+    if (!cell) return;
+    switch (column) {
+      case "options":
+      case "acceptedAnswers":
+        fields[column] = splitList(cell);
+        break;
+      case "maxScore":
+      case "tolerance":
+      case "penalty":
+        fields[column] = Number(cell);
+        break;
+      default:
+        fields[column] = cell;
+    }
+  });
+  if (typeof fields.correctAnswer === "string" && ["multiple-choice", "matching"].includes(fields.type as string)) {
+    fields.correctAnswer = splitList(fields.correctAnswer);
+  }
+  return fields;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "number");
+}
+
+// Check the shape of the fields, then apply the same rules as the create form
+function toQuestion(fields: Record<string, unknown>, id: string): { question: Question | null; errors: string[] } {
+  const errors: string[] = [];
+  for (const key of Object.keys(fields)) {
+    if (!JSON_FIELDS.has(key)) errors.push(`unknown field "${key}"`);
+  }
+
+  const type = fields.type as QuestionType;
+  if (fields.type === undefined) {
+    errors.push("type is required");
+  } else if (!QUESTION_TYPES.includes(type)) {
+    errors.push(`type must be one of ${QUESTION_TYPES.join(", ")}`);
+  }
+  if (fields.title !== undefined && typeof fields.title !== "string") errors.push("title must be text");
+  if (fields.maxScore !== undefined && typeof fields.maxScore !== "number") errors.push("maxScore must be a number");
+  if (fields.options !== undefined && !isStringArray(fields.options)) errors.push("options must be a list of text");
+  if (
+    fields.correctAnswer !== undefined &&
+    typeof fields.correctAnswer !== "string" &&
+    !isStringArray(fields.correctAnswer)
+  ) {
+    errors.push("correctAnswer must be text or a list of text");
+  }
+  if (fields.scoring !== undefined && !SCORING_MODES.includes(fields.scoring as MultipleChoiceScoring)) {
+    errors.push(`scoring must be one of ${SCORING_MODES.join(", ")}`);
+  }
+  if (fields.matchMode !== undefined && !MATCH_MODES.includes(fields.matchMode as FillBlankMatch)) {
+    errors.push(`matchMode must be one of ${MATCH_MODES.join(", ")}`);
+  }
+  if (fields.acceptedAnswers !== undefined && !isStringArray(fields.acceptedAnswers)) {
+    errors.push("acceptedAnswers must be a list of text");
+  }
+  if (fields.optionWeights !== undefined && !isNumberArray(fields.optionWeights)) {
+    errors.push("optionWeights must be a list of numbers");
+  }
+  for (const key of ["tolerance", "maxEditDistance", "penalty"]) {
+    const value = fields[key];
+    if (value !== undefined && (typeof value !== "number" || !(value >= 0))) {
+      errors.push(`${key} must be a number of at least 0`);
+    }
+  }
+  const pool = fields.pool as Question["pool"];
+  if (pool !== undefined && (typeof pool?.name !== "string" || !Number.isInteger(pool?.draw))) {
+    errors.push("pool must have a name and a whole number draw");
+  }
+  if (errors.length > 0) return { question: null, errors };
+
+  // Imported ids are replaced so they cannot collide with questions already in the exam
+  const question = { ...fields, id } as Question;
+  question.title = question.title ?? "";
+  question.maxScore = question.maxScore ?? NaN;
+
+  if (question.type === "true-false") {
+    question.options = [...TRUE_FALSE_OPTIONS];
+    const answer = typeof question.correctAnswer === "string" ? question.correctAnswer.trim().toLowerCase() : "";
+    const match = TRUE_FALSE_OPTIONS.find((option) => option.toLowerCase() === answer || option[0].toLowerCase() === answer);
+    if (match) question.correctAnswer = match;
+  }
+  // Ordering items are listed in the correct order, as in the question editor
+  if (question.type === "ordering" && question.correctAnswer === undefined) {
+    question.correctAnswer = [...(question.options || [])];
+  }
+
+  return { question, errors: validateQuestion(question) };
+}
+
+function importCsv(text: string, idPrefix: string): BulkImportRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+
+  const known = new Map(CSV_COLUMNS.map((column) => [column.toLowerCase(), column as string]));
+  const columns = header.cells.map((cell) => known.get(cell.trim().toLowerCase()) ?? cell.trim());
+  const unknown = columns.filter((column) => !known.has(column.toLowerCase()));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown CSV column(s): ${unknown.join(", ")}. Expected: ${CSV_COLUMNS.join(", ")}`);
+  }
+  if (!columns.includes("title") || !columns.includes("type")) {
+    throw new Error("The CSV header must include at least the title and type columns");
+  }
+
+  return records.map(({ line, cells }, i) => {
+    const rowErrors = cells.length > columns.length ? [`has ${cells.length} cells but the header has ${columns.length}`] : [];
+    const { question, errors } = toQuestion(csvFields(columns, cells), `${idPrefix}-${i}`);
+    return { row: line, question, errors: [...rowErrors, ...errors] };
+  });
+}
+
+function importJson(text: string, idPrefix: string): BulkImportRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const items = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a JSON array of questions or an object with a "questions" array');
+  }
+
+  return items.map((item, i) => {
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      return { row: i + 1, question: null, errors: ["must be an object"] };
+    }
+    const { question, errors } = toQuestion(item as Record<string, unknown>, `${idPrefix}-${i}`);
+    return { row: i + 1, question, errors };
+  });
+}
+
+export function parseBulkQuestions(fileName: string, text: string): BulkImportRow[] {
+  const idPrefix = `q${Date.now()}`;
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".csv")) return importCsv(text, idPrefix);
+  if (name.endsWith(".json")) return importJson(text, idPrefix);
+  throw new Error(`Unsupported bulk import file "${fileName}"; use CSV (.csv) or JSON (.json)`);
+}
+
+// Questions from rows that passed validation, ready to append to an exam
+export function acceptedQuestions(rows: BulkImportRow[]): Question[] {
+  return rows.filter((row) => row.question && row.errors.length === 0).map((row) => row.question as Question);
+}
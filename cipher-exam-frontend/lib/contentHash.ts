@@ -0,0 +1,52 @@
+// lib/contentHash.ts
+import { id } from "ethers";
+import { Question } from "@/types/exam";
+
+// Fields that reveal the answer; they are stripped before hashing and before publishing
+// questions of an exam that is graded on-chain
+const ANSWER_FIELDS: (keyof Question)[] = ["correctAnswer", "optionWeights", "acceptedAnswers"];
+
+function sorted(items: string[]): string[] {
+  return [...new Set(items)].sort((a, b) => a.localeCompare(b));
+}
+
+// Ordering items are authored in the correct order and matching right items only exist in the answer,
+// so both are published as sorted `choices` instead. Published questions pass through unchanged
+export function toPublicQuestion(question: Question): Question {
+  const copy = { ...question };
+  if (question.type === "ordering" && question.options) {
+    copy.choices = sorted(question.options);
+    delete copy.options;
+  }
+  if (question.type === "matching" && Array.isArray(question.correctAnswer)) {
+    copy.choices = sorted(question.correctAnswer);
+  }
+  for (const field of ANSWER_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
+
+// JSON with object keys sorted and undefined values dropped, so equal content always
+// serializes to the same string regardless of how it was built
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function computeContentHash(questions: Question[]): `0x${string}` {
+  return id(canonicalJson(questions.map(toPublicQuestion))) as `0x${string}`;
+}
+
+export function verifyContentHash(questions: Question[], expectedHash: string): boolean {
+  return computeContentHash(questions).toLowerCase() === expectedHash.toLowerCase();
+}
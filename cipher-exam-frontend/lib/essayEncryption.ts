@@ -0,0 +1,88 @@
+// lib/essayEncryption.ts
+import { BytesLike, Signer, SigningKey, getBytes, hexlify, keccak256, randomBytes, sha256, toUtf8Bytes } from "ethers";
+
+// Essay answers are too long for euint32, so they travel off-chain encrypted to the exam
+// creator: ECDH on secp256k1 between a one-off key and the creator's grader key, then AES-GCM.
+// The grader key is derived from a wallet signature, so the creator can rebuild it in any browser.
+// Each answer is bound to its exam, student, attempt and question as AES-GCM additional data, so a
+// ciphertext copied into another submission fails to decrypt instead of being graded there.
+
+const GRADER_KEY_MESSAGE =
+  "CipherExam grader key\n\nSign to unlock the key used to read essay answers to your exams. " +
+  "Only sign this on the CipherExam site.";
+
+export type EncryptedEnvelope = {
+  ephemeralPublicKey: string;
+  iv: string;
+  ciphertext: string;
+};
+
+// Where an essay answer belongs; authenticated with the ciphertext
+export type EssayContext = {
+  examId: string;
+  student: string;
+  attempt: number;
+  questionIndex: number;
+};
+
+export type GraderKey = {
+  privateKey: string;
+  publicKey: string; // Compressed, as stored by CipherExam.setGraderKey
+};
+
+export async function deriveGraderKey(signer: Signer): Promise<GraderKey> {
+  const signature = await signer.signMessage(GRADER_KEY_MESSAGE);
+  const privateKey = keccak256(signature);
+  return { privateKey, publicKey: SigningKey.computePublicKey(privateKey, true) };
+}
+
+// WebCrypto only accepts views backed by a plain ArrayBuffer
+function toBuffer(value: BytesLike): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(getBytes(value));
+}
+
+function additionalData(context: EssayContext): Uint8Array<ArrayBuffer> {
+  return toBuffer(
+    toUtf8Bytes(`${context.examId}:${context.student.toLowerCase()}:${context.attempt}:${context.questionIndex}`)
+  );
+}
+
+async function aesKey(sharedSecret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", toBuffer(sha256(sharedSecret)), "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+export async function encryptForGrader(
+  graderPublicKey: string,
+  plaintext: string,
+  context: EssayContext
+): Promise<EncryptedEnvelope> {
+  const ephemeral = new SigningKey(randomBytes(32));
+  const key = await aesKey(ephemeral.computeSharedSecret(graderPublicKey));
+  const iv = toBuffer(randomBytes(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(context) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return {
+    ephemeralPublicKey: ephemeral.compressedPublicKey,
+    iv: hexlify(iv),
+    ciphertext: hexlify(new Uint8Array(ciphertext)),
+  };
+}
+
+// Rejects when the envelope was not encrypted for `context`
+export async function decryptAsGrader(
+  graderKey: GraderKey,
+  envelope: EncryptedEnvelope,
+  context: EssayContext
+): Promise<string> {
+  const shared = new SigningKey(graderKey.privateKey).computeSharedSecret(envelope.ephemeralPublicKey);
+  const key = await aesKey(shared);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: toBuffer(envelope.iv), additionalData: additionalData(context) },
+    key,
+    toBuffer(envelope.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
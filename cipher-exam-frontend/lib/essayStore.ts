@@ -0,0 +1,131 @@
+// lib/essayStore.ts
+import { EncryptedEnvelope } from "@/lib/essayEncryption";
+import { Question } from "@/types/exam";
+
+// Encrypted essay answers, one record per submission (student and attempt), kept off-chain
+// next to the questions. Only the exam creator's grader key can open them. Exams graded on-chain
+// deliver every other hand-graded answer (e.g. partial credit) the same way.
+
+export type EssaySubmission = {
+  examId: string;
+  student: string;
+  attempt: number; // Index of the attempt, oldest first
+  answers: Record<number, EncryptedEnvelope>; // Keyed by question index
+  submittedAt: number;
+};
+
+export interface EssayStore {
+  readonly name: string;
+  load(examId: string): Promise<EssaySubmission[]>;
+  save(submission: EssaySubmission): Promise<void>;
+}
+
+const STORAGE_PREFIX = "cipher-exam:essays:";
+
+// Essays travel as their text, other answers as JSON
+export function handGradedText(question: Question, answer: string | string[]): string {
+  return question.type === "essay" ? String(answer) : JSON.stringify(answer);
+}
+
+export function parseHandGradedText(question: Question, text: string): string | string[] {
+  if (question.type === "essay") return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export function essaySubmissionKey(student: string, attempt: number): string {
+  return `${student.toLowerCase()}:${attempt}`;
+}
+
+export class LocalStorageEssayStore implements EssayStore {
+  readonly name = "This browser";
+
+  #read(examId: string): Record<string, EssaySubmission> {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}${examId}`);
+    if (!stored) return {};
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return {};
+    }
+  }
+
+  async load(examId: string): Promise<EssaySubmission[]> {
+    if (typeof window === "undefined") return [];
+    return Object.values(this.#read(examId));
+  }
+  async save(submission: EssaySubmission): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    const all = this.#read(submission.examId);
+    all[essaySubmissionKey(submission.student, submission.attempt)] = submission;
+    localStorage.setItem(`${STORAGE_PREFIX}${submission.examId}`, JSON.stringify(all));
+  }
+}
+
+// Any server exposing GET {baseUrl}/exams/{examId}/essays and a write-once
+// PUT {baseUrl}/exams/{examId}/essays/{student}/{attempt}, e.g. `npm run question-server`
+export class HttpEssayStore implements EssayStore {
+  readonly name: string;
+
+  constructor(private readonly baseUrl: string) {
+    this.name = baseUrl;
+  }
+
+  #url(examId: string): string {
+    return `${this.baseUrl.replace(/\/+$/, "")}/exams/${encodeURIComponent(examId)}/essays`;
+  }
+
+  async load(examId: string): Promise<EssaySubmission[]> {
+    const res = await fetch(this.#url(examId));
+    if (res.status === 404) return [];
+    if (!res.ok) {
+      throw new Error(`Essay server responded with ${res.status}`);
+    }
+    const data = await res.json();
+    return Array.isArray(data) ? data : [];
+  }
+  async save(submission: EssaySubmission): Promise<void> {
+    const res = await fetch(`${this.#url(submission.examId)}/${submission.student.toLowerCase()}/${submission.attempt}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    });
+    if (res.status === 409) {
+      throw new Error("Essay answers for this attempt are already stored and cannot be replaced");
+    }
+    if (!res.ok) {
+      throw new Error(`Essay server responded with ${res.status}`);
+    }
+  }
+}
+
+// Where students deliver hand-graded answers. Only a shared server reaches the creator, so without one
+// exams with hand-graded questions can neither be created nor taken
+export function getEssayStore(): EssayStore | null {
+  const url = process.env.NEXT_PUBLIC_QUESTION_STORE_URL;
+  return url ? new HttpEssayStore(url) : null;
+}
+
+export function getEssayStores(): EssayStore[] {
+  const url = process.env.NEXT_PUBLIC_QUESTION_STORE_URL;
+  return url ? [new LocalStorageEssayStore(), new HttpEssayStore(url)] : [new LocalStorageEssayStore()];
+}
+
+// Every submission found in the given stores; later stores win for the same student and attempt
+export async function loadEssaySubmissions(stores: EssayStore[], examId: string): Promise<EssaySubmission[]> {
+  const merged = new Map<string, EssaySubmission>();
+  for (const store of stores) {
+    try {
+      for (const submission of await store.load(examId)) {
+        merged.set(essaySubmissionKey(submission.student, submission.attempt), submission);
+      }
+    } catch (err) {
+      console.warn(`Failed to load essays from ${store.name}:`, err);
+    }
+  }
+  return [...merged.values()];
+}
@@ -0,0 +1,166 @@
+// lib/examDrafts.ts
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { ExamDraft, ExamForm, ExamTemplate } from "@/types/exam";
+import { ScoringPolicy } from "@/lib/attemptPolicy";
+
+// Exams that have not been created on-chain yet, autosaved in IndexedDB so a refresh or a
+// closed tab does not lose a half-written exam. A draft is removed once its exam is created.
+// Templates keep an exam's reusable settings for later runs; using one starts a new draft.
+
+interface ExamDraftDB extends DBSchema {
+  drafts: {
+    key: string;
+    value: ExamDraft;
+  };
+  templates: {
+    key: string;
+    value: ExamTemplate;
+  };
+}
+
+let __dbPromise: Promise<IDBPDatabase<ExamDraftDB>> | undefined = undefined;
+
+async function _getDB(): Promise<IDBPDatabase<ExamDraftDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<ExamDraftDB>("cipher-exam-drafts", 2, {
+    upgrade(db, oldVersion) {
+      if (oldVersion < 1) {
+        db.createObjectStore("drafts", { keyPath: "id" });
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore("templates", { keyPath: "id" });
+      }
+    },
+  });
+  return __dbPromise;
+}
+
+/// The create form's starting values
+export function emptyExamForm(): ExamForm {
+  return {
+    title: "",
+    description: "",
+    passingScore: 60,
+    passingScoreUnit: "points",
+    startTime: "",
+    endTime: "",
+    rosterText: "",
+    inviteCode: "",
+    maxAttempts: 1,
+    scoringPolicy: ScoringPolicy.Best,
+    durationMinutes: 0,
+    shuffleQuestions: false,
+    shuffleOptions: false,
+    gradeBands: [],
+    sections: [],
+    questions: [
+      {
+        id: "q1",
+        title: "",
+        type: "single-choice",
+        options: ["Option A", "Option B"],
+        correctAnswer: "",
+        maxScore: 30,
+      },
+    ],
+  };
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function newDraftId(): string {
+  return newId("draft");
+}
+
+export function draftName(draft: ExamDraft): string {
+  return draft.name.trim() || draft.form.title.trim() || "Untitled exam";
+}
+
+/// Every draft, most recently edited first
+export async function listDrafts(): Promise<ExamDraft[]> {
+  const db = await _getDB();
+  if (!db) {
+    return [];
+  }
+  const drafts = await db.getAll("drafts");
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getDraft(id: string): Promise<ExamDraft | undefined> {
+  const db = await _getDB();
+  return db?.get("drafts", id);
+}
+
+export async function saveDraft(draft: ExamDraft): Promise<void> {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+  await db.put("drafts", draft);
+}
+
+/// Start a new draft from a filled-in form, e.g. a cloned exam or a template
+export async function createDraft(form: ExamForm, name = ""): Promise<ExamDraft> {
+  const now = Date.now();
+  const draft: ExamDraft = { id: newDraftId(), name, form: structuredClone(form), createdAt: now, updatedAt: now };
+  await saveDraft(draft);
+  return draft;
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+  await db.delete("drafts", id);
+}
+
+export async function duplicateDraft(draft: ExamDraft): Promise<ExamDraft> {
+  return createDraft(draft.form, `Copy of ${draftName(draft)}`);
+}
+
+/// Every template, by name
+export async function listTemplates(): Promise<ExamTemplate[]> {
+  const db = await _getDB();
+  if (!db) {
+    return [];
+  }
+  const templates = await db.getAll("templates");
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(name: string, form: ExamForm): Promise<ExamTemplate> {
+  const db = await _getDB();
+  if (!db) {
+    throw new Error("Templates are only available in the browser");
+  }
+  const { startTime, endTime, rosterText, inviteCode, ...settings } = form;
+  const template: ExamTemplate = {
+    id: newId("template"),
+    name: name.trim() || form.title.trim() || "Untitled template",
+    settings: structuredClone(settings),
+    createdAt: Date.now(),
+  };
+  await db.put("templates", template);
+  return template;
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+  await db.delete("templates", id);
+}
+
+/// A new draft with the template's settings and empty dates and access
+export async function draftFromTemplate(template: ExamTemplate): Promise<ExamDraft> {
+  return createDraft({ ...emptyExamForm(), ...template.settings });
+}
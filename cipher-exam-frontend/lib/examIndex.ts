@@ -0,0 +1,264 @@
+// lib/examIndex.ts
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { Contract, ContractRunner, Interface, Provider } from "ethers";
+import { CipherExamABI } from "@/abi/CipherExamABI";
+import { CipherExamLensABI } from "@/abi/CipherExamLensABI";
+import { ExamStatus } from "@/lib/examStatus";
+
+// Client-side catalogue built from CipherExam events, cached in IndexedDB per chain and
+// contract so page loads only fetch the blocks added since the last visit. Events say which
+// exams and submissions exist; the batch views of CipherExamLens then refresh, in one call per
+// page, what changes without an event: the status of exams that have not finished yet and the
+// connected student's attempts.
+
+export type IndexedExam = {
+  id: number;
+  creator: string;
+  title: string;
+  questionCount: number;
+  startTime: number;
+  endTime: number;
+  status: ExamStatus;
+  isDraft: boolean; // Created but not published; its status stays Scheduled until then
+};
+
+export type IndexedSubmission = {
+  examId: number;
+  student: string;
+  submittedAt: number; // Latest attempt
+  attemptTimes: number[];
+  isComputed: boolean;
+};
+
+export type ExamIndex = {
+  scope: string;
+  fromBlock: number;
+  lastIndexedBlock: number;
+  exams: Record<number, IndexedExam>;
+  // Keyed by `${examId}:${lowercase student address}`
+  submissions: Record<string, IndexedSubmission>;
+};
+
+interface ExamIndexDB extends DBSchema {
+  indexes: {
+    key: string;
+    value: ExamIndex;
+  };
+}
+
+const MAX_CHUNK_SIZE = 5000;
+const MIN_CHUNK_SIZE = 100;
+
+// Matches CipherExamLens.MAX_PAGE_SIZE
+const PAGE_SIZE = 100;
+
+const iface = new Interface(CipherExamABI.abi);
+
+let __dbPromise: Promise<IDBPDatabase<ExamIndexDB>> | undefined = undefined;
+
+async function _getDB(): Promise<IDBPDatabase<ExamIndexDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<ExamIndexDB>("cipher-exam-index", 5, {
+    upgrade(db) {
+      // The cache is rebuilt from the chain, so older layouts are simply dropped
+      if (db.objectStoreNames.contains("indexes")) {
+        db.deleteObjectStore("indexes");
+      }
+      db.createObjectStore("indexes", { keyPath: "scope" });
+    },
+  });
+  return __dbPromise;
+}
+
+export function indexScope(chainId: number, contractAddress: string): string {
+  return `${chainId}:${contractAddress.toLowerCase()}`;
+}
+
+export function submissionKey(examId: number, student: string): string {
+  return `${examId}:${student.toLowerCase()}`;
+}
+
+export async function loadExamIndex(chainId: number, contractAddress: string): Promise<ExamIndex | undefined> {
+  const db = await _getDB();
+  if (!db) {
+    return undefined;
+  }
+  try {
+    return await db.get("indexes", indexScope(chainId, contractAddress));
+  } catch {
+    return undefined;
+  }
+}
+
+async function saveExamIndex(index: ExamIndex): Promise<void> {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+  await db.put("indexes", index);
+}
+
+function applyLog(index: ExamIndex, log: { topics: readonly string[]; data: string }): void {
+  const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return;
+
+  switch (parsed.name) {
+    case "ExamCreated": {
+      const id = Number(parsed.args.examId);
+      index.exams[id] = {
+        id,
+        creator: parsed.args.creator,
+        title: parsed.args.title,
+        questionCount: Number(parsed.args.questionCount),
+        startTime: Number(parsed.args.startTime),
+        endTime: Number(parsed.args.endTime),
+        status: ExamStatus.Scheduled,
+        // Not in the event; the lens refresh below reads it for every scheduled exam
+        isDraft: false,
+      };
+      break;
+    }
+    case "ExamPublished": {
+      const exam = index.exams[Number(parsed.args.examId)];
+      if (exam) exam.isDraft = false;
+      break;
+    }
+    case "ExamEndTimeExtended": {
+      const exam = index.exams[Number(parsed.args.examId)];
+      if (exam) exam.endTime = Number(parsed.args.newEndTime);
+      break;
+    }
+    case "ExamClosed": {
+      const exam = index.exams[Number(parsed.args.examId)];
+      if (exam) {
+        exam.endTime = Number(parsed.args.closedAt);
+        exam.status = ExamStatus.Closed;
+      }
+      break;
+    }
+    case "ExamCancelled": {
+      const exam = index.exams[Number(parsed.args.examId)];
+      if (exam) exam.status = ExamStatus.Cancelled;
+      break;
+    }
+    case "AnswersSubmitted": {
+      const examId = Number(parsed.args.examId);
+      const key = submissionKey(examId, parsed.args.student);
+      const submittedAt = Number(parsed.args.submittedAt);
+      index.submissions[key] = {
+        examId,
+        student: parsed.args.student,
+        submittedAt,
+        attemptTimes: [...(index.submissions[key]?.attemptTimes ?? []), submittedAt],
+        // A new attempt needs computeTotalAndJudge again
+        isComputed: false,
+      };
+      break;
+    }
+    case "TotalComputed": {
+      const submission = index.submissions[submissionKey(Number(parsed.args.examId), parsed.args.student)];
+      if (submission) {
+        submission.isComputed = true;
+      }
+      break;
+    }
+  }
+}
+
+function emptyIndex(chainId: number, contractAddress: string, fromBlock: number): ExamIndex {
+  return {
+    scope: indexScope(chainId, contractAddress),
+    fromBlock,
+    lastIndexedBlock: fromBlock - 1,
+    exams: {},
+    submissions: {},
+  };
+}
+
+/// Bring the cached index up to the latest block, persisting progress after every chunk, then
+/// refresh exam statuses and the submissions of `student` (if given) through the lens.
+/// A new index starts at `deploymentBlock`, recorded for each chain by genabi
+export async function syncExamIndex(
+  provider: Provider,
+  runner: ContractRunner,
+  chainId: number,
+  contractAddress: string,
+  deploymentBlock: number,
+  lensAddress: string,
+  student: string | undefined,
+  onProgress?: (index: ExamIndex) => void
+): Promise<ExamIndex> {
+  const latest = await provider.getBlockNumber();
+
+  let index = await loadExamIndex(chainId, contractAddress);
+  // A restarted local node starts over below the last indexed block
+  if (!index || index.lastIndexedBlock > latest) {
+    index = emptyIndex(chainId, contractAddress, deploymentBlock);
+  }
+
+  let chunkSize = MAX_CHUNK_SIZE;
+  while (index.lastIndexedBlock < latest) {
+    const fromBlock = index.lastIndexedBlock + 1;
+    const toBlock = Math.min(fromBlock + chunkSize - 1, latest);
+
+    let logs;
+    try {
+      logs = await provider.getLogs({ address: contractAddress, fromBlock, toBlock });
+    } catch (err) {
+      // Providers cap the block range or result size of eth_getLogs; retry with a smaller range
+      if (chunkSize <= MIN_CHUNK_SIZE) throw err;
+      chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+      continue;
+    }
+
+    for (const log of logs) {
+      applyLog(index, log);
+    }
+    index.lastIndexedBlock = toBlock;
+
+    await saveExamIndex(index);
+    onProgress?.(index);
+  }
+
+  const lens = new Contract(lensAddress, CipherExamLensABI.abi, runner);
+
+  // Scheduled and open exams change status with time alone, so re-read the pages holding them
+  const pending = Object.values(index.exams)
+    .filter((exam) => exam.status === ExamStatus.Scheduled || exam.status === ExamStatus.Open)
+    .map((exam) => exam.id);
+  const pageOffsets = new Set(pending.map((id) => id - (id % PAGE_SIZE)));
+  for (const offset of pageOffsets) {
+    const page = await lens.getExamsPage(offset, PAGE_SIZE);
+    for (const exam of page) {
+      const indexed = index.exams[Number(exam.id)];
+      if (indexed) {
+        indexed.status = Number(exam.status);
+        indexed.isDraft = Boolean(exam.isDraft);
+      }
+    }
+  }
+
+  // Reconcile the connected student's submissions with the contract's own record
+  if (student) {
+    const submissions = await lens.getSubmissionsOf(student);
+    for (const submission of submissions) {
+      const examId = Number(submission.examId);
+      index.submissions[submissionKey(examId, student)] = {
+        examId,
+        student,
+        submittedAt: Number(submission.submittedAt),
+        attemptTimes: submission.attemptTimes.map((t: bigint) => Number(t)),
+        isComputed: Boolean(submission.isComputed),
+      };
+    }
+  }
+
+  await saveExamIndex(index);
+  onProgress?.(index);
+  return index;
+}
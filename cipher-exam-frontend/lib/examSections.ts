@@ -0,0 +1,59 @@
+// lib/examSections.ts
+import { ExamSection } from "@/types/exam";
+import { percentToPoints } from "@/lib/gradeBands";
+
+// Sections split the exam's questions (slots, see lib/questionPools.ts) into consecutive runs,
+// stored on-chain as the end index of each run and an encrypted minimum subtotal
+// (CipherExam.setSections). A section weighs as much as its share of the exam's points, and the
+// exam is passed only if the total and every section reach their passing scores.
+
+// Matches CipherExam.MAX_SECTIONS
+export const MAX_SECTIONS = 10;
+
+/// Exclusive end question index of each section, as passed to setSections
+export function sectionEnds(sections: ExamSection[]): number[] {
+  let end = 0;
+  return sections.map((section) => (end += section.questionCount));
+}
+
+/// Maximum points of each section, from the max score of every slot
+export function sectionMaxScores(sections: ExamSection[], slotScores: number[]): number[] {
+  let start = 0;
+  return sectionEnds(sections).map((end) => {
+    const max = slotScores.slice(start, end).reduce((sum, score) => sum + score, 0);
+    start = end;
+    return max;
+  });
+}
+
+/// Encrypted thresholds to pass to setSections: each section's minimum percent in points
+export function sectionThresholds(sections: ExamSection[], slotScores: number[]): number[] {
+  const maxScores = sectionMaxScores(sections, slotScores);
+  return sections.map((section, i) => percentToPoints(section.minPercent, maxScores[i]));
+}
+
+export function validateSections(sections: ExamSection[], slotCount: number): string | null {
+  if (sections.length === 0) {
+    return null;
+  }
+  if (sections.length > MAX_SECTIONS) {
+    return `At most ${MAX_SECTIONS} sections are allowed`;
+  }
+  for (let i = 0; i < sections.length; i++) {
+    const { name, questionCount, minPercent } = sections[i];
+    if (!name.trim()) {
+      return `Section ${i + 1} needs a name`;
+    }
+    if (!Number.isInteger(questionCount) || questionCount < 1) {
+      return `Section ${name}: it must have at least one question`;
+    }
+    if (!(minPercent >= 0 && minPercent <= 100)) {
+      return `Section ${name}: the passing score must be between 0 and 100%`;
+    }
+  }
+  const covered = sectionEnds(sections)[sections.length - 1];
+  if (covered !== slotCount) {
+    return `The sections cover ${covered} question(s) but the exam has ${slotCount}`;
+  }
+  return null;
+}
@@ -0,0 +1,28 @@
+// lib/examStatus.ts
+
+// Mirrors CipherExam.ExamStatus
+export enum ExamStatus {
+  Scheduled = 0,
+  Open = 1,
+  Closed = 2,
+  Cancelled = 3,
+}
+
+// A draft reports Scheduled until it is published, but is shown with its own label
+export function getStatusLabel(status: number, isDraft = false): { label: string; color: string } {
+  if (isDraft && status === ExamStatus.Scheduled) {
+    return { label: "Draft", color: "text-warning bg-warning/10" };
+  }
+  switch (status) {
+    case ExamStatus.Scheduled:
+      return { label: "Scheduled", color: "text-muted-foreground bg-muted" };
+    case ExamStatus.Open:
+      return { label: "Open", color: "text-primary bg-primary/10" };
+    case ExamStatus.Closed:
+      return { label: "Closed", color: "text-muted-foreground bg-muted" };
+    case ExamStatus.Cancelled:
+      return { label: "Cancelled", color: "text-error bg-error/10" };
+    default:
+      return { label: "Unknown", color: "text-muted-foreground bg-muted" };
+  }
+}
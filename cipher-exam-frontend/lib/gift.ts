@@ -0,0 +1,307 @@
+// lib/gift.ts
+import { MultipleChoiceScoring, Question, QuestionConversion } from "@/types/exam";
+import { TRUE_FALSE_OPTIONS } from "@/lib/scoring";
+
+// Moodle GIFT text format. GIFT has no notion of points, so every question is preceded by a
+// `// points: N` comment that Moodle ignores and the importer reads back. Moodle always gives
+// partial credit for multiple answers, so multiple-choice questions also carry a
+// `// scoring: mode` comment. Essay reference answers travel as general feedback (`####`).
+
+const DEFAULT_POINTS = 10;
+const POINTS_COMMENT = /^\/\/\s*points:\s*(\d+)\s*$/i;
+const SCORING_COMMENT = /^\/\/\s*scoring:\s*(all-or-nothing|proportional|weighted)\s*$/i;
+
+export function escapeGift(text: string): string {
+  return text.replace(/[\\~=#{}:]/g, "\\$&").replace(/\n/g, "\\n");
+}
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\(.)/g, (_, c: string) => (c === "n" ? "\n" : c));
+}
+
+// Index of the first `token` that is not escaped with a backslash, or -1
+function findUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text.startsWith(token, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Answers start at every unescaped `=` or `~`
+function splitAnswers(body: string): { marker: string; text: string }[] {
+  const answers: { marker: string; text: string }[] = [];
+  let current: { marker: string; text: string } | null = null;
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c === "\\" && i + 1 < body.length) {
+      if (current) current.text += c + body[i + 1];
+      i++;
+    } else if (c === "=" || c === "~") {
+      current = { marker: c, text: "" };
+      answers.push(current);
+    } else if (current) {
+      current.text += c;
+    }
+  }
+  return answers;
+}
+
+type Answer = { correct: boolean; percent: number | null; text: string };
+
+function parseAnswer(marker: string, raw: string): Answer {
+  let text = raw.trim();
+  let percent: number | null = null;
+  const match = text.match(/^%(-?\d+(?:\.\d+)?)%/);
+  if (match) {
+    percent = Number(match[1]);
+    text = text.slice(match[0].length);
+  }
+  const feedback = findUnescaped(text, "#");
+  if (feedback >= 0) text = text.slice(0, feedback);
+  return { correct: marker === "=" || (percent ?? 0) > 0, percent, text: unescapeGift(text.trim()) };
+}
+
+function formatPercent(value: number): string {
+  return String(Number(value.toFixed(5)));
+}
+
+function parseNumeric(body: string, question: Question): void {
+  let spec = body.slice(1).trim();
+  const first = spec.startsWith("=") ? splitAnswers(spec)[0]?.text ?? "" : spec;
+  spec = first.replace(/^%-?\d+(?:\.\d+)?%/, "");
+  const feedback = findUnescaped(spec, "#");
+  if (feedback >= 0) spec = spec.slice(0, feedback);
+  spec = unescapeGift(spec.trim());
+
+  const range = spec.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    question.correctAnswer = String((min + max) / 2);
+    question.tolerance = (max - min) / 2;
+    return;
+  }
+  const [value, tolerance] = spec.split(":");
+  question.correctAnswer = value.trim();
+  if (tolerance && Number(tolerance) > 0) question.tolerance = Number(tolerance);
+}
+
+function parseQuestion(
+  block: string,
+  points: number,
+  scoring: MultipleChoiceScoring | null,
+  index: number,
+  warnings: string[]
+): Question | null {
+  const open = findUnescaped(block, "{");
+  const close = open >= 0 ? findUnescaped(block, "}", open) : -1;
+  if (open < 0 || close < 0) {
+    warnings.push(`Skipped a description or block without an answer: "${block.slice(0, 40)}"`);
+    return null;
+  }
+
+  let prefix = block.slice(0, open).trim();
+  if (prefix.startsWith("::")) {
+    const titleEnd = findUnescaped(prefix, "::", 2);
+    prefix = titleEnd >= 0 ? prefix.slice(titleEnd + 2).trim() : prefix;
+  }
+  prefix = prefix.replace(/^\[(html|moodle|plain|markdown)\]/i, "").trim();
+  const suffix = block.slice(close + 1).trim();
+  const title = unescapeGift(suffix ? `${prefix} _____ ${suffix}` : prefix);
+
+  let body = block.slice(open + 1, close).trim();
+  let generalFeedback = "";
+  const generalAt = findUnescaped(body, "####");
+  if (generalAt >= 0) {
+    generalFeedback = unescapeGift(body.slice(generalAt + 4).trim());
+    body = body.slice(0, generalAt).trim();
+  }
+
+  const question: Question = { id: `q${Date.now()}-${index}`, title, type: "essay", maxScore: points };
+
+  if (body === "") {
+    question.correctAnswer = generalFeedback;
+    return question;
+  }
+  if (body.startsWith("#")) {
+    question.type = "numeric";
+    parseNumeric(body, question);
+    return question;
+  }
+  const truth = body.split("#")[0].trim().toUpperCase();
+  if (["T", "TRUE", "F", "FALSE"].includes(truth)) {
+    question.type = "true-false";
+    question.options = [...TRUE_FALSE_OPTIONS];
+    question.correctAnswer = truth.startsWith("T") ? TRUE_FALSE_OPTIONS[0] : TRUE_FALSE_OPTIONS[1];
+    return question;
+  }
+
+  const raw = splitAnswers(body);
+  if (raw.length === 0) {
+    warnings.push(`Skipped question "${title}": unrecognized answers {${body}}`);
+    return null;
+  }
+  if (raw.every((a) => a.marker === "=" && findUnescaped(a.text, "->") >= 0)) {
+    question.type = "matching";
+    const pairs = raw.map((a) => {
+      const arrow = findUnescaped(a.text, "->");
+      return [unescapeGift(a.text.slice(0, arrow).trim()), unescapeGift(a.text.slice(arrow + 2).trim())];
+    });
+    // Pairs with an empty left side are distractors, which the matching type has no place for
+    if (pairs.some(([left]) => !left)) {
+      warnings.push(`Question "${title}": distractor answers were dropped`);
+    }
+    const kept = pairs.filter(([left]) => left);
+    question.options = kept.map(([left]) => left);
+    question.correctAnswer = kept.map(([, right]) => right);
+    return question;
+  }
+
+  const answers = raw.map((a) => parseAnswer(a.marker, a.text));
+  // Only `=` answers without weights: a short answer question
+  if (raw.every((a) => a.marker === "=") && answers.every((a) => a.percent === null || a.percent === 100)) {
+    question.type = "fill-blank";
+    question.correctAnswer = answers[0].text;
+    if (answers.length > 1) question.acceptedAnswers = answers.slice(1).map((a) => a.text);
+    return question;
+  }
+
+  question.options = answers.map((a) => a.text);
+  const correct = answers.filter((a) => a.correct);
+  if (correct.length === 1 && answers.every((a) => a.percent === null)) {
+    question.type = "single-choice";
+    question.correctAnswer = correct[0].text;
+    return question;
+  }
+
+  question.type = "multiple-choice";
+  question.correctAnswer = correct.map((a) => a.text);
+  const share = 100 / Math.max(1, correct.length);
+  const isShare = (a: Answer) => Math.abs((a.percent ?? 100) - share) < 0.01;
+  const wrong = answers.filter((a) => !a.correct);
+  // Without a scoring comment the percentages are Moodle's partial credit, which only maps to
+  // proportional scoring or to weights
+  if (scoring === "all-or-nothing") {
+    question.scoring = "all-or-nothing";
+  } else if (
+    scoring !== "weighted" &&
+    correct.every(isShare) &&
+    wrong.every((a) => Math.abs((a.percent ?? 0) + share) < 0.01)
+  ) {
+    question.scoring = "proportional";
+  } else {
+    question.scoring = "weighted";
+    question.optionWeights = answers.map((a) => Math.round(((a.percent ?? (a.correct ? 100 : 0)) * points) / 100));
+  }
+  return question;
+}
+
+export function importGift(text: string): QuestionConversion {
+  const questions: Question[] = [];
+  const warnings: string[] = [];
+  let points = DEFAULT_POINTS;
+  let scoring: MultipleChoiceScoring | null = null;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const block = lines.join("\n").trim();
+    lines = [];
+    if (!block) return;
+    const question = parseQuestion(block, points, scoring, questions.length, warnings);
+    if (question) questions.push(question);
+    points = DEFAULT_POINTS;
+    scoring = null;
+  };
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    const pointsMatch = trimmed.match(POINTS_COMMENT);
+    const scoringMatch = trimmed.match(SCORING_COMMENT);
+    if (pointsMatch) {
+      points = Math.min(100, Math.max(1, Number(pointsMatch[1])));
+    } else if (scoringMatch) {
+      scoring = scoringMatch[1].toLowerCase() as MultipleChoiceScoring;
+    } else if (trimmed.startsWith("//") || trimmed.startsWith("$CATEGORY:")) {
+      continue;
+    } else if (trimmed === "") {
+      flush();
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return { questions, warnings };
+}
+
+function answerBlock(question: Question, warnings: string[]): string | null {
+  const options = question.options || [];
+  switch (question.type) {
+    case "single-choice":
+      return options.map((o) => `${o === question.correctAnswer ? "=" : "~"}${escapeGift(o)}`).join(" ");
+
+    case "multiple-choice": {
+      const correct = (question.correctAnswer as string[]) || [];
+      const share = 100 / Math.max(1, correct.length);
+      if ((question.scoring ?? "all-or-nothing") === "all-or-nothing") {
+        warnings.push(`Question "${question.title}": Moodle gives partial credit for all-or-nothing multiple choice`);
+      }
+      return options
+        .map((o, i) => {
+          let percent: number;
+          if (question.scoring === "weighted") {
+            percent = ((question.optionWeights?.[i] ?? 0) * 100) / question.maxScore;
+          } else if (correct.includes(o)) {
+            percent = share;
+          } else {
+            percent = question.scoring === "proportional" ? -share : -100;
+          }
+          return `~%${formatPercent(percent)}%${escapeGift(o)}`;
+        })
+        .join(" ");
+    }
+
+    case "true-false":
+      return question.correctAnswer === TRUE_FALSE_OPTIONS[0] ? "T" : "F";
+
+    case "fill-blank":
+      if ((question.matchMode ?? "text") !== "text" || question.maxEditDistance) {
+        warnings.push(`Question "${question.title}": only exact text matching is kept`);
+      }
+      return [question.correctAnswer as string, ...(question.acceptedAnswers || [])]
+        .filter(Boolean)
+        .map((a) => `=${escapeGift(a)}`)
+        .join(" ");
+
+    case "numeric":
+      return `#${escapeGift(String(question.correctAnswer ?? ""))}${question.tolerance ? `:${question.tolerance}` : ""}`;
+
+    case "matching": {
+      const right = (question.correctAnswer as string[]) || [];
+      return options.map((left, i) => `=${escapeGift(left)} -> ${escapeGift(right[i] ?? "")}`).join(" ");
+    }
+
+    case "essay":
+      return question.correctAnswer ? `####${escapeGift(question.correctAnswer as string)}` : "";
+
+    default:
+      warnings.push(`Question "${question.title}": ${question.type} questions are not supported by GIFT and were skipped`);
+      return null;
+  }
+}
+
+export function exportGift(questions: Question[]): { text: string; warnings: string[] } {
+  const warnings: string[] = [];
+  const blocks: string[] = [];
+  questions.forEach((question, index) => {
+    const answers = answerBlock(question, warnings);
+    if (answers === null) return;
+    const scoring = question.type === "multiple-choice" ? `// scoring: ${question.scoring ?? "all-or-nothing"}\n` : "";
+    const header = `// points: ${question.maxScore}\n${scoring}`;
+    blocks.push(`${header}::Q${index + 1}:: ${escapeGift(question.title)} {${answers}}`);
+  });
+  return { text: blocks.join("\n\n") + "\n", warnings };
+}
@@ -0,0 +1,49 @@
+// lib/gradeBands.ts
+import { GradeBand } from "@/types/exam";
+
+// Grade bands are entered as percentages of the exam maximum and stored on-chain as encrypted
+// absolute totals (CipherExam.setGradeBands). The contract grades each student into the first
+// band whose threshold their total reaches, best band first.
+
+// Matches CipherExam.MAX_GRADE_BANDS
+export const MAX_GRADE_BANDS = 10;
+
+export const DEFAULT_GRADE_BANDS: GradeBand[] = [
+  { label: "A", minPercent: 90 },
+  { label: "B", minPercent: 80 },
+  { label: "C", minPercent: 70 },
+  { label: "D", minPercent: 60 },
+  { label: "F", minPercent: 0 },
+];
+
+/// Lowest total that reaches `percent` of `maxTotal`
+export function percentToPoints(percent: number, maxTotal: number): number {
+  return Math.ceil((percent * maxTotal) / 100);
+}
+
+export function validateGradeBands(bands: GradeBand[]): string | null {
+  if (bands.length > MAX_GRADE_BANDS) {
+    return `At most ${MAX_GRADE_BANDS} grade bands are allowed`;
+  }
+  for (let i = 0; i < bands.length; i++) {
+    const { label, minPercent } = bands[i];
+    if (!label.trim()) {
+      return `Grade band ${i + 1} needs a label`;
+    }
+    if (!(minPercent >= 0 && minPercent <= 100)) {
+      return `Grade ${label}: the minimum must be between 0 and 100%`;
+    }
+    if (i > 0 && minPercent >= bands[i - 1].minPercent) {
+      return `Grade ${label}: bands must be ordered from the highest minimum to the lowest`;
+    }
+  }
+  if (new Set(bands.map((band) => band.label.trim())).size !== bands.length) {
+    return "Grade labels must be unique";
+  }
+  return null;
+}
+
+/// Label of a decrypted grade index; the band count means the total is below every band
+export function gradeLabel(labels: string[], index: number): string {
+  return labels[index] ?? "No grade";
+}
@@ -0,0 +1,355 @@
+// lib/qti.ts
+import { Question, QuestionConversion } from "@/types/exam";
+import { TRUE_FALSE_OPTIONS } from "@/lib/scoring";
+import { ZipEntry, createZip, readZip } from "@/lib/zip";
+
+// IMS QTI 2.1 items, one assessmentItem per question, packaged with an imsmanifest.xml as an
+// IMS content package. The max score travels as a MAXSCORE outcome, option weights as a
+// response mapping and essay reference answers as a scorer-only rubric block.
+
+const QTI_NS = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const MATCH_CORRECT = "http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct";
+const MAP_RESPONSE = "http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response";
+const DEFAULT_POINTS = 10;
+
+function xml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function values(list: string[]): string {
+  return list.map((v) => `<value>${xml(v)}</value>`).join("");
+}
+
+function choiceIds(options: string[]): string[] {
+  return options.map((_, i) => `C${i + 1}`);
+}
+
+type ItemParts = {
+  declaration: string; // responseDeclaration
+  body: string; // itemBody content
+  processing: string; // responseProcessing
+};
+
+function itemParts(question: Question, warnings: string[]): ItemParts | null {
+  const options = question.options || [];
+  const ids = choiceIds(options);
+  const prompt = `<prompt>${xml(question.title)}</prompt>`;
+  const choices = options.map((o, i) => `<simpleChoice identifier="${ids[i]}">${xml(o)}</simpleChoice>`).join("");
+
+  switch (question.type) {
+    case "single-choice":
+    case "true-false":
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"><correctResponse>${values(
+          ids.filter((_, i) => options[i] === question.correctAnswer)
+        )}</correctResponse></responseDeclaration>`,
+        body: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">${prompt}${choices}</choiceInteraction>`,
+        processing: `<responseProcessing template="${MATCH_CORRECT}"/>`,
+      };
+
+    case "multiple-choice": {
+      const correct = (question.correctAnswer as string[]) || [];
+      const share = question.maxScore / Math.max(1, correct.length);
+      // Proportional scoring is the weighted mapping +share / -share
+      const weights =
+        question.scoring === "weighted"
+          ? options.map((_, i) => question.optionWeights?.[i] ?? 0)
+          : question.scoring === "proportional"
+            ? options.map((o) => (correct.includes(o) ? share : -share))
+            : null;
+      const mapping = weights
+        ? `<mapping lowerBound="0" upperBound="${question.maxScore}" defaultValue="0">${weights
+            .map((w, i) => `<mapEntry mapKey="${ids[i]}" mappedValue="${Number(w.toFixed(5))}"/>`)
+            .join("")}</mapping>`
+        : "";
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier"><correctResponse>${values(
+          ids.filter((_, i) => correct.includes(options[i]))
+        )}</correctResponse>${mapping}</responseDeclaration>`,
+        body: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="0">${prompt}${choices}</choiceInteraction>`,
+        processing: `<responseProcessing template="${weights ? MAP_RESPONSE : MATCH_CORRECT}"/>`,
+      };
+    }
+
+    case "fill-blank": {
+      if ((question.matchMode ?? "text") !== "text" || question.maxEditDistance) {
+        warnings.push(`Question "${question.title}": only exact text matching is kept`);
+      }
+      const accepted = [question.correctAnswer as string, ...(question.acceptedAnswers || [])].filter(Boolean);
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"><correctResponse>${values(
+          accepted.slice(0, 1)
+        )}</correctResponse><mapping defaultValue="0">${accepted
+          .map((a) => `<mapEntry mapKey="${xml(a)}" mappedValue="${question.maxScore}" caseSensitive="false"/>`)
+          .join("")}</mapping></responseDeclaration>`,
+        body: `<p>${xml(question.title)}</p><p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`,
+        processing: `<responseProcessing template="${MAP_RESPONSE}"/>`,
+      };
+    }
+
+    case "numeric": {
+      const tolerance = question.tolerance ?? 0;
+      const processing = tolerance
+        ? `<responseProcessing><responseCondition><responseIf><equal toleranceMode="absolute" tolerance="${tolerance} ${tolerance}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal><setOutcomeValue identifier="SCORE"><variable identifier="MAXSCORE"/></setOutcomeValue></responseIf><responseElse><setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue></responseElse></responseCondition></responseProcessing>`
+        : `<responseProcessing template="${MATCH_CORRECT}"/>`;
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float"><correctResponse>${values([
+          String(question.correctAnswer ?? ""),
+        ])}</correctResponse></responseDeclaration>`,
+        body: `<p>${xml(question.title)}</p><p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`,
+        processing,
+      };
+    }
+
+    case "ordering":
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier"><correctResponse>${values(
+          ids
+        )}</correctResponse></responseDeclaration>`,
+        body: `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">${prompt}${choices}</orderInteraction>`,
+        processing: `<responseProcessing template="${MATCH_CORRECT}"/>`,
+      };
+
+    case "matching": {
+      const right = (question.correctAnswer as string[]) || [];
+      const targets = [...new Set(right)];
+      const leftIds = options.map((_, i) => `L${i + 1}`);
+      const targetIds = targets.map((_, i) => `R${i + 1}`);
+      const pairs = options.map((_, i) => `${leftIds[i]} ${targetIds[targets.indexOf(right[i])]}`);
+      const sources = options
+        .map((o, i) => `<simpleAssociableChoice identifier="${leftIds[i]}" matchMax="1">${xml(o)}</simpleAssociableChoice>`)
+        .join("");
+      const sinks = targets
+        .map((t, i) => `<simpleAssociableChoice identifier="${targetIds[i]}" matchMax="0">${xml(t)}</simpleAssociableChoice>`)
+        .join("");
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair"><correctResponse>${values(
+          pairs
+        )}</correctResponse></responseDeclaration>`,
+        body: `<matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${options.length}">${prompt}<simpleMatchSet>${sources}</simpleMatchSet><simpleMatchSet>${sinks}</simpleMatchSet></matchInteraction>`,
+        processing: `<responseProcessing template="${MATCH_CORRECT}"/>`,
+      };
+    }
+
+    case "essay": {
+      const reference = question.correctAnswer
+        ? `<rubricBlock view="scorer"><p>${xml(question.correctAnswer as string)}</p></rubricBlock>`
+        : "";
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>`,
+        body: `${reference}<extendedTextInteraction responseIdentifier="RESPONSE">${prompt}</extendedTextInteraction>`,
+        processing: "",
+      };
+    }
+
+    default:
+      warnings.push(`Question "${question.title}": ${question.type} questions are not supported by QTI export`);
+      return null;
+  }
+}
+
+export function exportQtiItem(question: Question, identifier: string, warnings: string[]): string | null {
+  const parts = itemParts(question, warnings);
+  if (!parts) return null;
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<assessmentItem xmlns="${QTI_NS}" identifier="${identifier}" title="${xml(question.title)}" adaptive="false" timeDependent="false">\n` +
+    `  ${parts.declaration}\n` +
+    `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>\n` +
+    `  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${question.maxScore}</value></defaultValue></outcomeDeclaration>\n` +
+    `  <itemBody>${parts.body}</itemBody>\n` +
+    (parts.processing ? `  ${parts.processing}\n` : "") +
+    `</assessmentItem>\n`
+  );
+}
+
+export function exportQtiPackage(questions: Question[]): { data: Uint8Array<ArrayBuffer>; warnings: string[] } {
+  const warnings: string[] = [];
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const resources: string[] = [];
+
+  questions.forEach((question, index) => {
+    const identifier = `item-${String(index + 1).padStart(3, "0")}`;
+    const item = exportQtiItem(question, identifier, warnings);
+    if (!item) return;
+    const href = `items/${identifier}.xml`;
+    entries.push({ name: href, data: encoder.encode(item) });
+    resources.push(
+      `<resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}"><file href="${href}"/></resource>`
+    );
+  });
+
+  const manifest =
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="cipher-exam-export">\n` +
+    `  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>\n` +
+    `  <organizations/>\n` +
+    `  <resources>${resources.join("")}</resources>\n` +
+    `</manifest>\n`;
+
+  return { data: createZip([{ name: "imsmanifest.xml", data: encoder.encode(manifest) }, ...entries]), warnings };
+}
+
+// ============ Import ============
+
+function children(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", name));
+}
+
+function first(parent: Element | Document, name: string): Element | undefined {
+  return children(parent, name)[0];
+}
+
+function text(element: Element | undefined): string {
+  return (element?.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+// The prompt, or the item body text outside interactions and rubrics
+function promptText(item: Element): string {
+  const prompt = first(item, "prompt");
+  if (prompt) return text(prompt);
+  const body = first(item, "itemBody");
+  if (!body) return item.getAttribute("title") ?? "";
+  const copy = body.cloneNode(true) as Element;
+  for (const name of ["rubricBlock", "choiceInteraction", "orderInteraction", "matchInteraction", "extendedTextInteraction"]) {
+    children(copy, name).forEach((el) => el.remove());
+  }
+  children(copy, "textEntryInteraction").forEach((el) => el.replaceWith("_____"));
+  return text(copy).replace(/\s*_____$/, "") || (item.getAttribute("title") ?? "");
+}
+
+function parseItem(item: Element, index: number, warnings: string[]): Question | null {
+  const declaration = children(item, "responseDeclaration").find((d) => d.getAttribute("identifier") === "RESPONSE")
+    ?? first(item, "responseDeclaration");
+  const correct = declaration ? children(first(declaration, "correctResponse") ?? declaration, "value").map(text) : [];
+  const maxOutcome = children(item, "outcomeDeclaration").find((o) => o.getAttribute("identifier") === "MAXSCORE");
+  const maxScore = Math.min(100, Math.max(1, Math.round(Number(text(maxOutcome && first(maxOutcome, "value"))) || DEFAULT_POINTS)));
+  const question: Question = { id: `q${Date.now()}-${index}`, title: promptText(item), type: "essay", maxScore };
+
+  const choice = first(item, "choiceInteraction");
+  if (choice) {
+    const choices = children(choice, "simpleChoice");
+    const ids = choices.map((c) => c.getAttribute("identifier") ?? "");
+    question.options = choices.map(text);
+    const picked = question.options.filter((_, i) => correct.includes(ids[i]));
+    if (choice.getAttribute("maxChoices") === "1") {
+      const isTrueFalse = question.options.join("|").toLowerCase() === TRUE_FALSE_OPTIONS.join("|").toLowerCase();
+      if (isTrueFalse) {
+        question.type = "true-false";
+        question.options = [...TRUE_FALSE_OPTIONS];
+        question.correctAnswer = TRUE_FALSE_OPTIONS[ids.findIndex((id) => correct.includes(id))] ?? "";
+      } else {
+        question.type = "single-choice";
+        question.correctAnswer = picked[0] ?? "";
+      }
+      return question;
+    }
+    question.type = "multiple-choice";
+    question.correctAnswer = picked;
+    // A mapping of +share for every correct choice and -share for the others is proportional scoring;
+    // any other mapping becomes integer weights
+    const entries = declaration ? children(declaration, "mapEntry") : [];
+    if (entries.length > 0) {
+      const weights = ids.map((id) => Number(entries.find((e) => e.getAttribute("mapKey") === id)?.getAttribute("mappedValue") ?? 0));
+      const share = maxScore / Math.max(1, picked.length);
+      const isProportional =
+        picked.length > 0 &&
+        weights.every((w, i) => Math.abs(w - (correct.includes(ids[i]) ? share : -share)) < 0.001);
+      if (isProportional) {
+        question.scoring = "proportional";
+        return question;
+      }
+      question.scoring = "weighted";
+      question.optionWeights = weights.map((w) => Math.round(w));
+      question.correctAnswer = question.options.filter((_, i) => weights[i] > 0);
+      if (weights.some((w) => !Number.isInteger(w))) {
+        warnings.push(`Question "${question.title}": option weights were rounded to whole points`);
+      }
+    }
+    return question;
+  }
+
+  const order = first(item, "orderInteraction");
+  if (order) {
+    const choices = children(order, "simpleChoice");
+    const byId = new Map(choices.map((c) => [c.getAttribute("identifier") ?? "", text(c)]));
+    question.type = "ordering";
+    question.options = correct.length === choices.length ? correct.map((id) => byId.get(id) ?? "") : choices.map(text);
+    question.correctAnswer = [...question.options];
+    return question;
+  }
+
+  const match = first(item, "matchInteraction");
+  if (match) {
+    const [sources, targets] = children(match, "simpleMatchSet").map((set) =>
+      children(set, "simpleAssociableChoice").map((c) => ({ id: c.getAttribute("identifier") ?? "", text: text(c) }))
+    );
+    const pairs = new Map(correct.map((pair) => pair.split(/\s+/) as [string, string]));
+    question.type = "matching";
+    question.options = (sources ?? []).map((s) => s.text);
+    question.correctAnswer = (sources ?? []).map((s) => (targets ?? []).find((t) => t.id === pairs.get(s.id))?.text ?? "");
+    return question;
+  }
+
+  if (first(item, "textEntryInteraction")) {
+    if (declaration?.getAttribute("baseType") === "float" || declaration?.getAttribute("baseType") === "integer") {
+      question.type = "numeric";
+      question.correctAnswer = correct[0] ?? "";
+      const tolerance = first(item, "equal")?.getAttribute("tolerance")?.split(/\s+/)[0];
+      if (tolerance && Number(tolerance) > 0) question.tolerance = Number(tolerance);
+      return question;
+    }
+    const mapped = declaration ? children(declaration, "mapEntry").map((e) => e.getAttribute("mapKey") ?? "") : [];
+    const accepted = [...new Set([...correct, ...mapped])].filter(Boolean);
+    question.type = "fill-blank";
+    question.correctAnswer = accepted[0] ?? "";
+    if (accepted.length > 1) question.acceptedAnswers = accepted.slice(1);
+    return question;
+  }
+
+  if (first(item, "extendedTextInteraction")) {
+    question.correctAnswer = text(first(item, "rubricBlock"));
+    return question;
+  }
+
+  warnings.push(`Skipped item "${item.getAttribute("identifier") ?? index}": unsupported interaction`);
+  return null;
+}
+
+function parseItems(documents: string[]): QuestionConversion {
+  const questions: Question[] = [];
+  const warnings: string[] = [];
+  for (const source of documents) {
+    const doc = new DOMParser().parseFromString(source, "application/xml");
+    if (first(doc, "parsererror")) {
+      warnings.push("Skipped a file that is not valid XML");
+      continue;
+    }
+    for (const item of children(doc, "assessmentItem")) {
+      const question = parseItem(item, questions.length, warnings);
+      if (question) questions.push(question);
+    }
+  }
+  return { questions, warnings };
+}
+
+export function importQtiXml(source: string): QuestionConversion {
+  return parseItems([source]);
+}
+
+/// Items of a content package, in the order the manifest lists them
+export async function importQtiPackage(buffer: ArrayBuffer): Promise<QuestionConversion> {
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(buffer)).map((entry) => [entry.name, decoder.decode(entry.data)]));
+  const manifest = files.get("imsmanifest.xml");
+  let hrefs = [...files.keys()].filter((name) => name.endsWith(".xml") && name !== "imsmanifest.xml").sort();
+  if (manifest) {
+    const doc = new DOMParser().parseFromString(manifest, "application/xml");
+    const listed = children(doc, "resource")
+      .filter((r) => (r.getAttribute("type") ?? "").startsWith("imsqti_item"))
+      .map((r) => r.getAttribute("href") ?? "");
+    if (listed.length > 0) hrefs = listed.filter((href) => files.has(href));
+  }
+  return parseItems(hrefs.map((href) => files.get(href) ?? ""));
+}
@@ -0,0 +1,161 @@
+// lib/questionBank.ts
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { BankQuestion, Question, QuestionDifficulty } from "@/types/exam";
+
+// Reusable questions kept in IndexedDB. Every edit stores a new version instead of
+// overwriting the old one, and exams receive a copy of the question, so editing the bank
+// never changes an exam that was already created from it.
+
+export type BankFilter = {
+  text?: string;
+  tag?: string;
+  topic?: string;
+  difficulty?: QuestionDifficulty | "";
+};
+
+export type BankExport = {
+  exportedAt: number;
+  questions: BankQuestion[]; // Every version
+};
+
+interface QuestionBankDB extends DBSchema {
+  questions: {
+    key: [string, number];
+    value: BankQuestion;
+    indexes: { "by-id": string };
+  };
+}
+
+let __dbPromise: Promise<IDBPDatabase<QuestionBankDB>> | undefined = undefined;
+
+async function _getDB(): Promise<IDBPDatabase<QuestionBankDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<QuestionBankDB>("cipher-exam-bank", 1, {
+    upgrade(db) {
+      const store = db.createObjectStore("questions", { keyPath: ["id", "version"] });
+      store.createIndex("by-id", "id");
+    },
+  });
+  return __dbPromise;
+}
+
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/// Latest version of every bank question, most recently updated first
+export async function listBankQuestions(): Promise<BankQuestion[]> {
+  const db = await _getDB();
+  if (!db) {
+    return [];
+  }
+  const latest = new Map<string, BankQuestion>();
+  for (const entry of await db.getAll("questions")) {
+    const current = latest.get(entry.id);
+    if (!current || entry.version > current.version) {
+      latest.set(entry.id, entry);
+    }
+  }
+  return [...latest.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/// Every version of one bank question, newest first
+export async function getBankHistory(id: string): Promise<BankQuestion[]> {
+  const db = await _getDB();
+  if (!db) {
+    return [];
+  }
+  const versions = await db.getAllFromIndex("questions", "by-id", id);
+  return versions.sort((a, b) => b.version - a.version);
+}
+
+/// Store `entry` as the next version of its bank question, or as version 1 of a new one
+export async function saveBankQuestion(
+  entry: Pick<BankQuestion, "question" | "tags" | "difficulty" | "topic"> & { id?: string }
+): Promise<BankQuestion> {
+  const db = await _getDB();
+  if (!db) {
+    throw new Error("The question bank is only available in the browser");
+  }
+  const id = entry.id ?? `bank-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const history = await getBankHistory(id);
+  const now = Date.now();
+  const saved: BankQuestion = {
+    id,
+    version: (history[0]?.version ?? 0) + 1,
+    question: { ...entry.question },
+    tags: entry.tags,
+    difficulty: entry.difficulty,
+    topic: entry.topic.trim(),
+    createdAt: history[history.length - 1]?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await db.put("questions", saved);
+  return saved;
+}
+
+/// Remove a bank question with all its versions; exams keep their own copies
+export async function deleteBankQuestion(id: string): Promise<void> {
+  const db = await _getDB();
+  if (!db) {
+    return;
+  }
+  const tx = db.transaction("questions", "readwrite");
+  for (const key of await tx.store.index("by-id").getAllKeys(id)) {
+    await tx.store.delete(key);
+  }
+  await tx.done;
+}
+
+export function filterBankQuestions(entries: BankQuestion[], filter: BankFilter): BankQuestion[] {
+  const text = filter.text?.trim().toLowerCase();
+  const tag = filter.tag?.trim().toLowerCase();
+  const topic = filter.topic?.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (!text ||
+        entry.question.title.toLowerCase().includes(text) ||
+        (entry.question.options || []).some((option) => option.toLowerCase().includes(text))) &&
+      (!tag || entry.tags.includes(tag)) &&
+      (!topic || entry.topic.toLowerCase() === topic) &&
+      (!filter.difficulty || entry.difficulty === filter.difficulty)
+  );
+}
+
+/// Copy of a bank question for an exam, with an ID unique within that exam
+export function toExamQuestion(entry: BankQuestion): Question {
+  return { ...structuredClone(entry.question), id: `q${Date.now()}-${entry.id}-v${entry.version}` };
+}
+
+export async function exportBank(): Promise<BankExport> {
+  const db = await _getDB();
+  return { exportedAt: Date.now(), questions: db ? await db.getAll("questions") : [] };
+}
+
+/// Merge an exported bank into this browser's; versions already present are kept as they are
+export async function importBank(json: string): Promise<number> {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== "object" || !Array.isArray(data.questions)) {
+    throw new Error("Invalid question bank file: missing questions array");
+  }
+  const db = await _getDB();
+  if (!db) {
+    return 0;
+  }
+  let imported = 0;
+  for (const entry of data.questions as BankQuestion[]) {
+    if (typeof entry?.id !== "string" || typeof entry.version !== "number" || !entry.question) {
+      throw new Error("Invalid question bank file: every entry needs an id, a version and a question");
+    }
+    if (!(await db.get("questions", [entry.id, entry.version]))) {
+      await db.put("questions", entry);
+      imported++;
+    }
+  }
+  return imported;
+}
@@ -0,0 +1,49 @@
+// lib/questionFormats.ts
+import { Question, QuestionConversion } from "@/types/exam";
+import { exportGift, importGift } from "@/lib/gift";
+import { exportQtiPackage, importQtiPackage, importQtiXml } from "@/lib/qti";
+
+// Question interchange with other LMSs: Moodle GIFT (.gift/.txt) and IMS QTI 2.1, either as a
+// content package (.zip) or a single assessmentItem (.xml).
+
+export type QuestionFormat = "gift" | "qti";
+
+export const QUESTION_FILE_ACCEPT = ".gift,.txt,.xml,.zip";
+
+export function downloadBlob(fileName: string, data: BlobPart, type: string): void {
+  if (typeof window === "undefined") return;
+
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function importQuestionFile(file: File): Promise<QuestionConversion> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".zip")) {
+    return importQtiPackage(await file.arrayBuffer());
+  }
+  if (name.endsWith(".xml")) {
+    return importQtiXml(await file.text());
+  }
+  if (name.endsWith(".gift") || name.endsWith(".txt")) {
+    return importGift(await file.text());
+  }
+  throw new Error(`Unsupported question file "${file.name}"; use GIFT (.gift, .txt) or QTI 2.1 (.xml, .zip)`);
+}
+
+/// Download the questions in the given format and return what could not be exported
+export function exportQuestions(questions: Question[], format: QuestionFormat, baseName: string): string[] {
+  if (format === "gift") {
+    const { text, warnings } = exportGift(questions);
+    downloadBlob(`${baseName}.gift.txt`, text, "text/plain");
+    return warnings;
+  }
+  const { data, warnings } = exportQtiPackage(questions);
+  downloadBlob(`${baseName}-qti.zip`, data, "application/zip");
+  return warnings;
+}
@@ -0,0 +1,110 @@
+// lib/questionPools.ts
+import { Question } from "@/types/exam";
+import { solidityPackedKeccak256 } from "ethers";
+
+// An exam is a list of slots, and questionScores on-chain holds one score per slot. A question
+// without a pool is a slot of its own; a pool takes `draw` slots at the position of its first
+// question, filled with the questions drawn for the student. Answers, scores and essay grades
+// are all indexed by slot. The answer key has one entry per question, pool members included, in
+// section order; CipherExam.setPools tells the contract which entries each pool draws from.
+
+type Section = { pool: string | null; questionIndexes: number[]; draw: number };
+
+function sections(questions: Question[]): Section[] {
+  const result: Section[] = [];
+  const byPool = new Map<string, Section>();
+  questions.forEach((question, index) => {
+    const name = question.pool?.name.trim();
+    if (!name) {
+      result.push({ pool: null, questionIndexes: [index], draw: 1 });
+      return;
+    }
+    const existing = byPool.get(name);
+    if (existing) {
+      existing.questionIndexes.push(index);
+    } else {
+      const section = { pool: name, questionIndexes: [index], draw: question.pool?.draw ?? 1 };
+      byPool.set(name, section);
+      result.push(section);
+    }
+  });
+  return result;
+}
+
+export function hasPools(questions: Question[]): boolean {
+  return questions.some((question) => Boolean(question.pool?.name.trim()));
+}
+
+/// Max score of every slot, as passed to createExam
+export function slotScores(questions: Question[]): number[] {
+  return sections(questions).flatMap((section) =>
+    Array(section.draw).fill(questions[section.questionIndexes[0]].maxScore)
+  );
+}
+
+/// Penalty for a wrong answer in every slot, as passed to setPenalties
+export function slotPenalties(questions: Question[]): number[] {
+  return sections(questions).flatMap((section) =>
+    Array(section.draw).fill(questions[section.questionIndexes[0]].penalty ?? 0)
+  );
+}
+
+/// Index into `questions` of every answer key entry, as passed to createExam
+export function answerKeyOrder(questions: Question[]): number[] {
+  return sections(questions).flatMap((section) => section.questionIndexes);
+}
+
+/// Slot each pool starts at, how many slots it fills and how many questions it draws from, as passed to setPools
+export function poolLayout(questions: Question[]): { firstQuestions: number[]; draws: number[]; sizes: number[] } {
+  const layout = { firstQuestions: [] as number[], draws: [] as number[], sizes: [] as number[] };
+  let slot = 0;
+  for (const section of sections(questions)) {
+    if (section.pool !== null) {
+      layout.firstQuestions.push(slot);
+      layout.draws.push(section.draw);
+      layout.sizes.push(section.questionIndexes.length);
+    }
+    slot += section.draw;
+  }
+  return layout;
+}
+
+/// Index into `questions` of the question in every slot for the student with this shuffle seed.
+/// Mirrors the contract's draw: a partial Fisher-Yates shuffle of each pool keyed by its first answer key entry
+export function resolveSlots(questions: Question[], seed: string): number[] {
+  let firstKey = 0;
+  return sections(questions).flatMap((section) => {
+    const members = section.questionIndexes;
+    const poolKey = firstKey;
+    firstKey += members.length;
+    if (section.pool === null) return members;
+    const order = members.map((_, i) => i);
+    for (let j = 0; j < section.draw; j++) {
+      const random = BigInt(solidityPackedKeccak256(["bytes32", "uint256", "uint256"], [seed, poolKey, j]));
+      const r = j + Number(random % BigInt(members.length - j));
+      [order[j], order[r]] = [order[r], order[j]];
+    }
+    return order.slice(0, section.draw).map((i) => members[i]);
+  });
+}
+
+// Explains the first pool that cannot be turned into slots
+export function validatePools(questions: Question[]): string | null {
+  for (const section of sections(questions)) {
+    if (section.pool === null) continue;
+    const members = section.questionIndexes.map((i) => questions[i]);
+    if (members.some((question) => question.pool?.draw !== section.draw)) {
+      return `Every question of pool "${section.pool}" must draw the same number of questions`;
+    }
+    if (!Number.isInteger(section.draw) || section.draw < 1 || section.draw > members.length) {
+      return `Pool "${section.pool}" draws ${section.draw} of ${members.length} question(s)`;
+    }
+    if (members.some((question) => question.maxScore !== members[0].maxScore)) {
+      return `Every question of pool "${section.pool}" must have the same max score`;
+    }
+    if (members.some((question) => (question.penalty ?? 0) !== (members[0].penalty ?? 0))) {
+      return `Every question of pool "${section.pool}" must have the same penalty`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,135 @@
+// lib/questionStore.ts
+import { ExamQuestions, Question } from "@/types/exam";
+import { loadExamQuestions, saveExamQuestions } from "@/lib/questionStorage";
+import { verifyContentHash } from "@/lib/contentHash";
+
+// Question content lives off-chain; the contract only records its hash (see lib/contentHash.ts),
+// so any store can serve it and clients verify what they load before rendering.
+export interface QuestionStore {
+  readonly name: string;
+  load(examId: string): Promise<Question[] | null>;
+  save(examId: string, questions: Question[]): Promise<void>;
+}
+
+function parseExamQuestions(json: string): ExamQuestions {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== "object" || !Array.isArray(data.questions)) {
+    throw new Error("Invalid question file: missing questions array");
+  }
+  return {
+    examId: String(data.examId ?? ""),
+    questions: data.questions,
+    createdAt: Number(data.createdAt ?? Date.now()),
+  };
+}
+
+export class LocalStorageQuestionStore implements QuestionStore {
+  readonly name = "This browser";
+
+  async load(examId: string): Promise<Question[] | null> {
+    return loadExamQuestions(examId);
+  }
+  async save(examId: string, questions: Question[]): Promise<void> {
+    saveExamQuestions(examId, questions);
+  }
+}
+
+// Questions imported from (and exported to) a JSON file in the ExamQuestions format
+export class JsonFileQuestionStore implements QuestionStore {
+  readonly name = "Imported file";
+  #imported = new Map<string, Question[]>();
+
+  async importFile(file: File): Promise<string> {
+    const data = parseExamQuestions(await file.text());
+    this.#imported.set(data.examId, data.questions);
+    return data.examId;
+  }
+  async load(examId: string): Promise<Question[] | null> {
+    return this.#imported.get(examId) ?? null;
+  }
+  async save(examId: string, questions: Question[]): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    const data: ExamQuestions = { examId, questions, createdAt: Date.now() };
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `exam-${examId}-questions.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Any server exposing GET/PUT {baseUrl}/exams/{examId}/questions, e.g. `npm run question-server`
+export class HttpQuestionStore implements QuestionStore {
+  readonly name: string;
+
+  constructor(private readonly baseUrl: string) {
+    this.name = baseUrl;
+  }
+
+  #url(examId: string): string {
+    return `${this.baseUrl.replace(/\/+$/, "")}/exams/${encodeURIComponent(examId)}/questions`;
+  }
+
+  async load(examId: string): Promise<Question[] | null> {
+    const res = await fetch(this.#url(examId));
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`Question server responded with ${res.status}`);
+    }
+    return parseExamQuestions(await res.text()).questions;
+  }
+  async save(examId: string, questions: Question[]): Promise<void> {
+    const data: ExamQuestions = { examId, questions, createdAt: Date.now() };
+    const res = await fetch(this.#url(examId), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!res.ok) {
+      throw new Error(`Question server responded with ${res.status}`);
+    }
+  }
+}
+
+export function getRemoteQuestionStore(): QuestionStore | null {
+  const url = process.env.NEXT_PUBLIC_QUESTION_STORE_URL;
+  return url ? new HttpQuestionStore(url) : null;
+}
+
+export function getQuestionStores(): QuestionStore[] {
+  const remote = getRemoteQuestionStore();
+  return remote ? [new LocalStorageQuestionStore(), remote] : [new LocalStorageQuestionStore()];
+}
+
+// Load questions from the first store whose content matches the on-chain hash
+export async function loadVerifiedQuestions(
+  stores: QuestionStore[],
+  examId: string,
+  expectedHash: string
+): Promise<{ questions: Question[]; source: string } | null> {
+  let mismatchedSource: string | null = null;
+
+  for (const store of stores) {
+    let questions: Question[] | null = null;
+    try {
+      questions = await store.load(examId);
+    } catch (err) {
+      console.warn(`Failed to load questions from ${store.name}:`, err);
+      continue;
+    }
+    if (!questions) continue;
+
+    if (verifyContentHash(questions, expectedHash)) {
+      return { questions, source: store.name };
+    }
+    mismatchedSource = store.name;
+  }
+
+  if (mismatchedSource) {
+    throw new Error(`Questions from "${mismatchedSource}" do not match the on-chain content hash`);
+  }
+  return null;
+}
@@ -0,0 +1,77 @@
+// lib/questionValidation.ts
+import { Question } from "@/types/exam";
+import { validateBlankAnswers } from "@/lib/answerMatching";
+import { TRUE_FALSE_OPTIONS, acceptsPenalty } from "@/lib/scoring";
+
+// Rules a question must meet before it can go into an exam, shared by the create form and
+// bulk import so both accept exactly the same questions.
+
+export const MAX_QUESTION_SCORE = 100; // Matches the per-question cap in CipherExam.createExam
+
+export function validateQuestion(q: Question): string[] {
+  const problems: string[] = [];
+  const options = q.options || [];
+
+  if (!q.title?.trim()) {
+    problems.push("title is required");
+  }
+  if (!Number.isInteger(q.maxScore) || q.maxScore < 1 || q.maxScore > MAX_QUESTION_SCORE) {
+    problems.push(`max score must be a whole number from 1 to ${MAX_QUESTION_SCORE}`);
+  }
+  if (!q.correctAnswer || (Array.isArray(q.correctAnswer) && q.correctAnswer.length === 0)) {
+    problems.push("correct answer is required");
+  }
+
+  if (q.penalty !== undefined && q.penalty !== 0) {
+    if (!acceptsPenalty(q)) {
+      problems.push("negative marking only applies to questions with a single exact answer, which are graded on-chain");
+    } else if (!Number.isInteger(q.penalty) || q.penalty < 0 || q.penalty > q.maxScore) {
+      problems.push("penalty must be a whole number from 0 to the max score");
+    }
+  }
+
+  switch (q.type) {
+    case "single-choice":
+    case "multiple-choice": {
+      if (options.length < 2) {
+        problems.push("must have at least 2 options");
+      }
+      const correct = Array.isArray(q.correctAnswer) ? q.correctAnswer : q.correctAnswer ? [q.correctAnswer] : [];
+      const unknown = correct.filter((answer) => !options.includes(answer));
+      if (unknown.length > 0) {
+        problems.push(`correct answer "${unknown[0]}" is not one of the options`);
+      }
+      break;
+    }
+    case "true-false":
+      if (q.correctAnswer && !TRUE_FALSE_OPTIONS.includes(q.correctAnswer as string)) {
+        problems.push(`correct answer must be ${TRUE_FALSE_OPTIONS.join(" or ")}`);
+      }
+      break;
+    case "ordering":
+    case "matching": {
+      const right = Array.isArray(q.correctAnswer) ? q.correctAnswer : [];
+      if (options.length < 2) {
+        problems.push("must have at least 2 items");
+      }
+      if (q.type === "matching" && right.length !== options.length) {
+        problems.push("every left item needs exactly one match");
+      }
+      if ([...options, ...(q.type === "matching" ? right : [])].some((item) => !item.trim())) {
+        problems.push("has empty items");
+      }
+      if (new Set(options).size !== options.length) {
+        problems.push("has duplicate items");
+      }
+      break;
+    }
+    case "fill-blank":
+    case "numeric": {
+      const blankError = validateBlankAnswers(q.type === "numeric" ? { ...q, matchMode: "numeric" } : q);
+      if (blankError) problems.push(blankError);
+      break;
+    }
+  }
+
+  return problems;
+}
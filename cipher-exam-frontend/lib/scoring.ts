@@ -1,11 +1,67 @@
 // lib/scoring.ts
-import { Question, StudentAnswer } from "@/types/exam";
+import { Question, QuestionType, StudentAnswer } from "@/types/exam";
+import { matchesBlank } from "@/lib/answerMatching";
+import { isKeyGradable } from "@/lib/answerEncoding";
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+function scoreMultipleChoice(question: Question, selected: string[], correct: string[]): number {
+  const studentSet = new Set(selected);
+  const correctSet = new Set(correct);
+
+  switch (question.scoring ?? "all-or-nothing") {
+    case "proportional": {
+      const right = [...studentSet].filter((a) => correctSet.has(a)).length;
+      const wrong = studentSet.size - right;
+      if (correctSet.size === 0) return 0;
+      return Math.floor((question.maxScore * Math.max(0, right - wrong)) / correctSet.size);
+    }
+
+    case "weighted": {
+      const options = question.options || [];
+      const weights = question.optionWeights || [];
+      const total = options.reduce((sum, option, i) => (studentSet.has(option) ? sum + (weights[i] || 0) : sum), 0);
+      return Math.min(question.maxScore, Math.max(0, Math.floor(total)));
+    }
+
+    default:
+      // Check if answers match exactly
+      if (studentSet.size === correctSet.size && [...studentSet].every((a) => correctSet.has(a))) {
+        return question.maxScore;
+      }
+      return 0;
+  }
+}
+
+// Share of item pairs the student put in the same relative order as the correct ranking
+function scoreOrdering(question: Question, ranked: string[], correct: string[]): number {
+  const position = new Map(ranked.map((item, i) => [item, i]));
+  let pairs = 0;
+  let concordant = 0;
+  for (let i = 0; i < correct.length; i++) {
+    for (let j = i + 1; j < correct.length; j++) {
+      pairs++;
+      const a = position.get(correct[i]);
+      const b = position.get(correct[j]);
+      if (a !== undefined && b !== undefined && a < b) concordant++;
+    }
+  }
+  return pairs === 0 ? 0 : Math.floor((question.maxScore * concordant) / pairs);
+}
+
+// Share of left items paired with their right item
+function scoreMatching(question: Question, chosen: string[], correct: string[]): number {
+  if (correct.length === 0) return 0;
+  const right = correct.filter((item, i) => chosen[i] === item).length;
+  return Math.floor((question.maxScore * right) / correct.length);
+}
 
 export function calculateScore(question: Question, studentAnswer: StudentAnswer): number {
   if (!question.correctAnswer) return 0;
 
   switch (question.type) {
     case "single-choice":
+    case "true-false":
       if (typeof studentAnswer.answer === "string" && studentAnswer.answer === question.correctAnswer) {
         return question.maxScore;
       }
@@ -13,33 +69,37 @@ export function calculateScore(question: Question, studentAnswer: StudentAnswer)
 
     case "multiple-choice":
       if (Array.isArray(studentAnswer.answer) && Array.isArray(question.correctAnswer)) {
-        const studentSet = new Set(studentAnswer.answer);
-        const correctSet = new Set(question.correctAnswer);
-        
-        // Check if answers match exactly
-        if (studentSet.size === correctSet.size && 
-            [...studentSet].every(a => correctSet.has(a))) {
-          return question.maxScore;
-        }
-        return 0;
+        return scoreMultipleChoice(question, studentAnswer.answer, question.correctAnswer);
       }
       return 0;
 
     case "fill-blank":
       if (typeof studentAnswer.answer === "string" && typeof question.correctAnswer === "string") {
-        // Simple exact match (can be enhanced with fuzzy matching)
-        const normalized = (str: string) => str.trim().toLowerCase();
-        if (normalized(studentAnswer.answer) === normalized(question.correctAnswer)) {
-          return question.maxScore;
-        }
-        return 0;
+        return matchesBlank(question, studentAnswer.answer) ? question.maxScore : 0;
+      }
+      return 0;
+
+    case "numeric":
+      if (typeof studentAnswer.answer === "string") {
+        return matchesBlank({ ...question, matchMode: "numeric" }, studentAnswer.answer) ? question.maxScore : 0;
+      }
+      return 0;
+
+    case "ordering":
+      if (Array.isArray(studentAnswer.answer) && Array.isArray(question.correctAnswer)) {
+        return scoreOrdering(question, studentAnswer.answer, question.correctAnswer);
+      }
+      return 0;
+
+    case "matching":
+      if (Array.isArray(studentAnswer.answer) && Array.isArray(question.correctAnswer)) {
+        return scoreMatching(question, studentAnswer.answer, question.correctAnswer);
       }
       return 0;
 
     case "essay":
-      // For essay questions, we'll need manual grading or use a simple heuristic
-      // For now, return 0 (manual grading required)
-      // In a real system, this would be handled by a teacher or AI grading service
+      // Essays score 0 on submission; the creator grades them on /exams/[examId]/grade,
+      // which replaces the encrypted score through CipherExam.gradeQuestion
       return 0;
 
     default:
@@ -47,4 +107,31 @@ export function calculateScore(question: Question, studentAnswer: StudentAnswer)
   }
 }
 
+// Question types with a plain right or wrong answer, which negative marking applies to
+const PENALTY_TYPES: QuestionType[] = ["single-choice", "multiple-choice", "true-false", "fill-blank", "numeric"];
+
+// The contract only applies penalties to answers it compares with the key; hand-graded questions
+// (partial credit, fuzzy matching) are scored by the creator without one
+export function acceptsPenalty(question: Question): boolean {
+  return PENALTY_TYPES.includes(question.type) && isKeyGradable(question);
+}
+
+export function isBlankAnswer(answer: string | string[]): boolean {
+  return Array.isArray(answer) ? answer.every((item) => !item.trim()) : !answer.trim();
+}
+
+// Negative marking: a non-blank answer that earns nothing loses the question's penalty. The exam
+// total is floored at zero on-chain, so penalties never push a student below 0 overall
+export function calculatePenalty(question: Question, studentAnswer: StudentAnswer): number {
+  if (!question.penalty || !acceptsPenalty(question) || isBlankAnswer(studentAnswer.answer)) return 0;
+  return calculateScore(question, studentAnswer) === 0 ? question.penalty : 0;
+}
+
+// Score of a self-scored question as submitted to CipherExam.submitAnswers. Scores are offset by
+// the question's penalty, since encrypted scores cannot be negative: a wrong answer sends 0, a
+// blank one the penalty, and a right one the penalty plus the points earned
+export function offsetScore(question: Question, studentAnswer: StudentAnswer): number {
+  return calculateScore(question, studentAnswer) + (question.penalty ?? 0) - calculatePenalty(question, studentAnswer);
+}
+
 
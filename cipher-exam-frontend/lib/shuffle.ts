@@ -0,0 +1,39 @@
+// lib/shuffle.ts
+import { solidityPackedKeccak256 } from "ethers";
+import { Question } from "@/types/exam";
+
+// Per-student orderings derived from keccak256(examId, student), so a student sees the same
+// order on every device and the creator can reproduce it. Only the display order changes:
+// answers are stored at their canonical question index and as option text, so encoding and
+// grading never see the shuffle.
+
+export function shuffleSeed(examId: string, student: string): string {
+  return solidityPackedKeccak256(["uint256", "address"], [BigInt(examId), student]);
+}
+
+/// Fisher-Yates permutation of 0..length-1; `stream` keeps the orders of different lists independent
+export function seededPermutation(length: number, seed: string, stream: string): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const random = BigInt(solidityPackedKeccak256(["bytes32", "string", "uint256"], [seed, stream, i]));
+    const j = Number(random % BigInt(i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+export function questionOrder(count: number, seed: string): number[] {
+  return seededPermutation(count, seed, "questions");
+}
+
+export function optionOrder(questionIndex: number, count: number, seed: string): number[] {
+  return seededPermutation(count, seed, `options:${questionIndex}`);
+}
+
+/// Options in the order the student sees them; only choice questions are shuffled
+export function displayedOptions(question: Question, questionIndex: number, seed: string | null, shuffle: boolean): string[] {
+  const options = question.options || [];
+  const isChoice = question.type === "single-choice" || question.type === "multiple-choice";
+  if (!shuffle || !seed || !isChoice) return options;
+  return optionOrder(questionIndex, options.length, seed).map((i) => options[i]);
+}
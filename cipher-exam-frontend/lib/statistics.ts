@@ -0,0 +1,33 @@
+// lib/statistics.ts
+
+export type ClassStatistics = {
+  count: number;
+  mean: number;
+  passRate: number;
+  histogram: { label: string; count: number }[];
+};
+
+// Mirrors CipherExam._inBucket: equal ranges over [0, maxTotal], the last one includes maxTotal
+export function bucketLabels(maxTotal: number, buckets: number): string[] {
+  return Array.from({ length: buckets }).map((_, i) => {
+    const lower = Math.floor((maxTotal * i) / buckets);
+    const upper = Math.floor((maxTotal * (i + 1)) / buckets);
+    return i === buckets - 1 ? `${lower}-${maxTotal}` : `${lower}-${Math.max(lower, upper - 1)}`;
+  });
+}
+
+export function summarizeStatistics(
+  count: number,
+  totalSum: number,
+  passCount: number,
+  bucketCounts: number[],
+  maxTotal: number
+): ClassStatistics {
+  const labels = bucketLabels(maxTotal, bucketCounts.length);
+  return {
+    count,
+    mean: count > 0 ? totalSum / count : 0,
+    passRate: count > 0 ? passCount / count : 0,
+    histogram: bucketCounts.map((c, i) => ({ label: labels[i], count: c })),
+  };
+}
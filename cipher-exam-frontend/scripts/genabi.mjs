@@ -2,7 +2,8 @@ import { execSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 
-const CONTRACT_NAME = "CipherExam";
+// CipherExamLens holds the batch views that do not fit in CipherExam
+const CONTRACT_NAMES = ["CipherExam", "CipherExamLens"];
 
 // <root>/fhevm-hardhat-template
 const rel = "../fhevm-hardhat-template";
@@ -71,52 +72,61 @@ function readDeployment(chainName, chainId, contractName, optional) {
   return obj;
 }
 
-// Auto deployed on Linux/Mac (will fail on windows)
-const deployLocalhost = readDeployment("localhost", 31337, CONTRACT_NAME, false /* optional */);
-
-// Sepolia is optional
-let deploySepolia = readDeployment("sepolia", 11155111, CONTRACT_NAME, true /* optional */);
-if (!deploySepolia) {
-  deploySepolia = { abi: deployLocalhost.abi, address: "0x0000000000000000000000000000000000000000" };
+// The exam index reads events from this block on, so it needs no archive node to find it
+function deploymentBlock(deployment) {
+  return deployment.receipt?.blockNumber ?? 0;
 }
 
-if (deployLocalhost && deploySepolia) {
-  if (
-    JSON.stringify(deployLocalhost.abi) !== JSON.stringify(deploySepolia.abi)
-  ) {
-    console.error(
-      `${line}Deployments on localhost and Sepolia differ. Cant use the same abi on both networks. Consider re-deploying the contracts on both networks.${line}`
-    );
-    process.exit(1);
+function generate(CONTRACT_NAME) {
+  // Auto deployed on Linux/Mac (will fail on windows)
+  const deployLocalhost = readDeployment("localhost", 31337, CONTRACT_NAME, false /* optional */);
+
+  // Sepolia is optional
+  let deploySepolia = readDeployment("sepolia", 11155111, CONTRACT_NAME, true /* optional */);
+  if (!deploySepolia) {
+    deploySepolia = { abi: deployLocalhost.abi, address: "0x0000000000000000000000000000000000000000" };
   }
-}
 
-const tsCode = `
+  if (deployLocalhost && deploySepolia) {
+    if (
+      JSON.stringify(deployLocalhost.abi) !== JSON.stringify(deploySepolia.abi)
+    ) {
+      console.error(
+        `${line}Deployments on localhost and Sepolia differ. Cant use the same abi on both networks. Consider re-deploying the contracts on both networks.${line}`
+      );
+      process.exit(1);
+    }
+  }
+
+  const tsCode = `
 /*
   This file is auto-generated.
   Command: 'npm run genabi'
 */
 export const ${CONTRACT_NAME}ABI = ${JSON.stringify({ abi: deployLocalhost.abi }, null, 2)} as const;
 \n`;
-const tsAddresses = `
+  const tsAddresses = `
 /*
   This file is auto-generated.
   Command: 'npm run genabi'
 */
 export const ${CONTRACT_NAME}Addresses = { 
-  "11155111": { address: "${deploySepolia.address}", chainId: 11155111, chainName: "sepolia" },
-  "31337": { address: "${deployLocalhost.address}", chainId: 31337, chainName: "hardhat" },
+  "11155111": { address: "${deploySepolia.address}", chainId: 11155111, chainName: "sepolia", deploymentBlock: ${deploymentBlock(deploySepolia)} },
+  "31337": { address: "${deployLocalhost.address}", chainId: 31337, chainName: "hardhat", deploymentBlock: ${deploymentBlock(deployLocalhost)} },
 };
 `;
 
-console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}ABI.ts`)}`);
-console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}Addresses.ts`)}`);
-
-fs.writeFileSync(path.join(outdir, `${CONTRACT_NAME}ABI.ts`), tsCode, "utf-8");
-fs.writeFileSync(
-  path.join(outdir, `${CONTRACT_NAME}Addresses.ts`),
-  tsAddresses,
-  "utf-8"
-);
+  console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}ABI.ts`)}`);
+  console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}Addresses.ts`)}`);
 
+  fs.writeFileSync(path.join(outdir, `${CONTRACT_NAME}ABI.ts`), tsCode, "utf-8");
+  fs.writeFileSync(
+    path.join(outdir, `${CONTRACT_NAME}Addresses.ts`),
+    tsAddresses,
+    "utf-8"
+  );
+}
 
+for (const contractName of CONTRACT_NAMES) {
+  generate(contractName);
+}
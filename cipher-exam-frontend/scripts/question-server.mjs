@@ -0,0 +1,123 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+
+// Local stand-in for a shared question store.
+// Serves GET/PUT /exams/<examId>/questions and keeps one JSON file per exam on disk.
+// Also keeps encrypted essay answers: GET /exams/<examId>/essays, PUT /exams/<examId>/essays/<student>/<attempt>.
+// Essay records are write-once, so nobody can replace the answers of a submission that was already stored.
+// Point the frontend at it with NEXT_PUBLIC_QUESTION_STORE_URL=http://localhost:8787
+
+const PORT = Number(process.env.QUESTION_STORE_PORT || 8787);
+const STORE_DIR = path.resolve(process.env.QUESTION_STORE_DIR || "./.question-store");
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+if (!fs.existsSync(STORE_DIR)) {
+  fs.mkdirSync(STORE_DIR, { recursive: true });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Cross-Origin-Resource-Policy": "cross-origin",
+  });
+  res.end(body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body));
+}
+
+function readBody(req, res, onBody) {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      send(res, 413, { error: "Payload too large" });
+      req.destroy();
+    }
+  });
+  req.on("end", () => {
+    try {
+      onBody(JSON.parse(body));
+    } catch (e) {
+      send(res, 400, { error: `Invalid body: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  });
+}
+
+function handleEssays(req, res, examId, student, attempt) {
+  const file = path.join(STORE_DIR, `${examId}.essays.json`);
+  const all = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : {};
+
+  if (req.method === "GET" && student === undefined) {
+    send(res, 200, Object.values(all));
+    return;
+  }
+
+  if (req.method === "PUT" && student !== undefined) {
+    readBody(req, res, (data) => {
+      if (!data.answers || typeof data.answers !== "object") {
+        throw new Error("missing answers");
+      }
+      const key = `${student.toLowerCase()}:${attempt}`;
+      if (all[key]) {
+        send(res, 409, { error: "Essay answers for this attempt are already stored" });
+        return;
+      }
+      all[key] = data;
+      fs.writeFileSync(file, JSON.stringify(all, null, 2), "utf-8");
+      send(res, 204);
+    });
+    return;
+  }
+
+  send(res, 405, { error: "Method not allowed" });
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    send(res, 204);
+    return;
+  }
+
+  const pathname = new URL(req.url, "http://localhost").pathname;
+  const essays = /^\/exams\/(\d+)\/essays(?:\/(0x[0-9a-fA-F]{40})\/(\d+))?\/?$/.exec(pathname);
+  if (essays) {
+    handleEssays(req, res, essays[1], essays[2], essays[3]);
+    return;
+  }
+
+  const match = /^\/exams\/(\d+)\/questions\/?$/.exec(pathname);
+  if (!match) {
+    send(res, 404, { error: "Not found" });
+    return;
+  }
+
+  const file = path.join(STORE_DIR, `${match[1]}.json`);
+
+  if (req.method === "GET") {
+    if (!fs.existsSync(file)) {
+      send(res, 404, { error: "Unknown exam" });
+      return;
+    }
+    send(res, 200, fs.readFileSync(file, "utf-8"));
+    return;
+  }
+
+  if (req.method === "PUT") {
+    readBody(req, res, (data) => {
+      if (!Array.isArray(data.questions)) {
+        throw new Error("missing questions array");
+      }
+      fs.writeFileSync(file, JSON.stringify(data, null, 2), "utf-8");
+      send(res, 204);
+    });
+    return;
+  }
+
+  send(res, 405, { error: "Method not allowed" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Question store listening on http://localhost:${PORT} (data in ${STORE_DIR})`);
+});
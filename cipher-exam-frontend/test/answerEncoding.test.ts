@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { encodeAnswer, encodeCorrectAnswer, isKeyGradable } from "@/lib/answerEncoding";
+import { Question } from "@/types/exam";
+
+describe("isKeyGradable", function () {
+  const numeric: Question = { id: "n", title: "Value of pi", type: "numeric", correctAnswer: "3.14", maxScore: 5 };
+
+  it("should grade a single exact number against the key", function () {
+    expect(isKeyGradable(numeric)).to.eq(true);
+    expect(encodeAnswer(numeric, "3.140")).to.eq(encodeCorrectAnswer(numeric));
+  });
+
+  it("should leave numbers with a tolerance or alternate answers to the creator", function () {
+    expect(isKeyGradable({ ...numeric, tolerance: 0.01 })).to.eq(false);
+    expect(isKeyGradable({ ...numeric, acceptedAnswers: ["3.1416"] })).to.eq(false);
+  });
+
+  it("should leave fill-in-the-blank answers with alternates or fuzzy matching to the creator", function () {
+    const blank: Question = { id: "b", title: "Capital", type: "fill-blank", correctAnswer: "Paris", maxScore: 5 };
+    expect(isKeyGradable(blank)).to.eq(true);
+    expect(isKeyGradable({ ...blank, acceptedAnswers: ["paris city"] })).to.eq(false);
+    expect(isKeyGradable({ ...blank, maxEditDistance: 1 })).to.eq(false);
+    expect(isKeyGradable({ ...blank, matchMode: "regex" })).to.eq(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { computeContentHash, toPublicQuestion } from "@/lib/contentHash";
+import { QUESTIONS } from "./questionFixtures";
+
+describe("toPublicQuestion", function () {
+  const [ordering] = QUESTIONS.filter((q) => q.type === "ordering");
+  const [matching] = QUESTIONS.filter((q) => q.type === "matching");
+
+  it("should publish ordering items sorted instead of in the correct order", function () {
+    const question = toPublicQuestion({ ...ordering, options: ["b", "c", "a"], correctAnswer: ["b", "c", "a"] });
+    expect(question.options).to.eq(undefined);
+    expect(question.correctAnswer).to.eq(undefined);
+    expect(question.choices).to.deep.eq(["a", "b", "c"]);
+  });
+
+  it("should publish the right items of matching pairs without the pairing", function () {
+    const question = toPublicQuestion({ ...matching, options: ["A", "B", "C"], correctAnswer: ["z", "x", "z"] });
+    expect(question.options).to.deep.eq(["A", "B", "C"]);
+    expect(question.correctAnswer).to.eq(undefined);
+    expect(question.choices).to.deep.eq(["x", "z"]);
+  });
+
+  it("should hash published questions like the originals", function () {
+    const published = QUESTIONS.map(toPublicQuestion);
+    expect(published.map(toPublicQuestion)).to.deep.eq(published);
+    expect(computeContentHash(published)).to.eq(computeContentHash(QUESTIONS));
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { exportGift, importGift } from "@/lib/gift";
+import { QUESTIONS, comparable } from "./questionFixtures";
+
+describe("GIFT", function () {
+  describe("Round Trip", function () {
+    // GIFT has no ordering questions
+    for (const question of QUESTIONS.filter((q) => q.type !== "ordering")) {
+      it(`should keep a ${question.id} question`, function () {
+        const { questions, warnings } = importGift(exportGift([question]).text);
+        expect(warnings).to.deep.eq([]);
+        expect(questions.map(comparable)).to.deep.eq([comparable(question)]);
+      });
+    }
+  });
+
+  it("should warn that Moodle gives partial credit for all-or-nothing multiple choice", function () {
+    const [question] = QUESTIONS.filter((q) => q.id === "all-or-nothing");
+    expect(exportGift([question]).warnings).to.have.length(1);
+    expect(exportGift(QUESTIONS.filter((q) => q.scoring === "proportional")).warnings).to.deep.eq([]);
+  });
+
+  it("should warn about and skip ordering questions", function () {
+    const { text, warnings } = exportGift(QUESTIONS.filter((q) => q.type === "ordering"));
+    expect(warnings).to.have.length(1);
+    expect(importGift(text).questions).to.deep.eq([]);
+  });
+
+  it("should read Moodle partial credit without a scoring comment as weights", function () {
+    const { questions } = importGift("// points: 10\nWhich are primes? {~%50%2 ~%50%3 ~%-100%4}");
+    expect(questions[0].scoring).to.eq("weighted");
+    expect(questions[0].optionWeights).to.deep.eq([5, 5, -10]);
+  });
+});
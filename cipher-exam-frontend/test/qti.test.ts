@@ -0,0 +1,38 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { exportQtiItem, exportQtiPackage, importQtiPackage, importQtiXml } from "@/lib/qti";
+import { QUESTIONS, comparable } from "./questionFixtures";
+
+describe("QTI", function () {
+  describe("Round Trip", function () {
+    for (const question of QUESTIONS) {
+      it(`should keep a ${question.id} question`, function () {
+        const exportWarnings: string[] = [];
+        const item = exportQtiItem(question, "item-001", exportWarnings);
+        expect(exportWarnings).to.deep.eq([]);
+
+        const { questions, warnings } = importQtiXml(item ?? "");
+        expect(warnings).to.deep.eq([]);
+        expect(questions.map(comparable)).to.deep.eq([comparable(question)]);
+      });
+    }
+  });
+
+  it("should keep every question of a content package in order", async function () {
+    const { data, warnings } = exportQtiPackage(QUESTIONS);
+    expect(warnings).to.deep.eq([]);
+    const imported = await importQtiPackage(data.buffer);
+    expect(imported.questions.map(comparable)).to.deep.eq(QUESTIONS.map(comparable));
+  });
+
+  it("should warn when option weights are rounded", function () {
+    const item = exportQtiItem(
+      { ...QUESTIONS[4], optionWeights: [12.5, 8, -5] },
+      "item-001",
+      []
+    );
+    const { questions, warnings } = importQtiXml(item ?? "");
+    expect(questions[0].optionWeights).to.deep.eq([13, 8, -5]);
+    expect(warnings).to.have.length(1);
+  });
+});
@@ -0,0 +1,103 @@
+import { Question } from "@/types/exam";
+
+// One question of every type, with every multiple-choice scoring mode, for format round trips
+export const QUESTIONS: Question[] = [
+  {
+    id: "single",
+    title: "Which planet is largest?",
+    type: "single-choice",
+    options: ["Mars", "Jupiter", "Venus"],
+    correctAnswer: "Jupiter",
+    maxScore: 10,
+  },
+  {
+    id: "all-or-nothing",
+    title: "Which are primes?",
+    type: "multiple-choice",
+    options: ["2", "3", "4", "5"],
+    correctAnswer: ["2", "3", "5"],
+    maxScore: 10,
+    scoring: "all-or-nothing",
+  },
+  {
+    id: "proportional",
+    title: "Which are even?",
+    type: "multiple-choice",
+    options: ["2", "3", "4", "5"],
+    correctAnswer: ["2", "4"],
+    maxScore: 10,
+    scoring: "proportional",
+  },
+  {
+    id: "proportional-thirds",
+    title: "Which are odd?",
+    type: "multiple-choice",
+    options: ["1", "2", "3", "5"],
+    correctAnswer: ["1", "3", "5"],
+    maxScore: 10,
+    scoring: "proportional",
+  },
+  {
+    id: "weighted",
+    title: "Which are noble gases?",
+    type: "multiple-choice",
+    options: ["Neon", "Argon", "Oxygen"],
+    correctAnswer: ["Neon", "Argon"],
+    maxScore: 20,
+    scoring: "weighted",
+    optionWeights: [12, 8, -5],
+  },
+  {
+    id: "true-false",
+    title: "The sun is a star",
+    type: "true-false",
+    options: ["True", "False"],
+    correctAnswer: "True",
+    maxScore: 5,
+  },
+  {
+    id: "fill-blank",
+    title: "The capital of France is",
+    type: "fill-blank",
+    correctAnswer: "Paris",
+    acceptedAnswers: ["paris city"],
+    maxScore: 5,
+  },
+  {
+    id: "numeric",
+    title: "Value of pi to two decimals",
+    type: "numeric",
+    correctAnswer: "3.14",
+    tolerance: 0.01,
+    maxScore: 5,
+  },
+  {
+    id: "ordering",
+    title: "Sort ascending",
+    type: "ordering",
+    options: ["1", "2", "3"],
+    correctAnswer: ["1", "2", "3"],
+    maxScore: 6,
+  },
+  {
+    id: "matching",
+    title: "Match the capitals",
+    type: "matching",
+    options: ["France", "Italy"],
+    correctAnswer: ["Paris", "Rome"],
+    maxScore: 8,
+  },
+  {
+    id: "essay",
+    title: "Explain photosynthesis",
+    type: "essay",
+    correctAnswer: "Light becomes chemical energy",
+    maxScore: 20,
+  },
+];
+
+// Imported questions get fresh IDs, and all-or-nothing is the default scoring
+export function comparable(question: Question): Omit<Question, "id"> {
+  const { id: _id, scoring, ...rest } = question;
+  return scoring && scoring !== "all-or-nothing" ? { ...rest, scoring } : rest;
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+import { calculatePenalty, calculateScore, offsetScore } from "@/lib/scoring";
+import { validateQuestion } from "@/lib/questionValidation";
+import { validateBlankAnswers } from "@/lib/answerMatching";
+import { Question } from "@/types/exam";
+
+function answer(question: Question, value: string | string[]) {
+  return calculateScore(question, { questionId: question.id, answer: value });
+}
+
+describe("calculateScore", function () {
+  describe("Multiple Choice", function () {
+    const question: Question = {
+      id: "mc",
+      title: "Which are primes?",
+      type: "multiple-choice",
+      options: ["2", "3", "4", "5"],
+      correctAnswer: ["2", "3", "5"],
+      maxScore: 10,
+    };
+
+    it("should give full marks for exactly the correct options", function () {
+      expect(answer(question, ["5", "2", "3"])).to.eq(10);
+      expect(answer({ ...question, scoring: "proportional" }, ["2", "3", "5"])).to.eq(10);
+    });
+
+    it("should give nothing when every pick is wrong", function () {
+      expect(answer(question, ["4"])).to.eq(0);
+      expect(answer({ ...question, scoring: "proportional" }, ["4"])).to.eq(0);
+      expect(answer(question, [])).to.eq(0);
+    });
+
+    it("should give nothing for a superset of the correct options when all-or-nothing", function () {
+      expect(answer(question, ["2", "3", "4", "5"])).to.eq(0);
+    });
+
+    it("should cancel a right pick with each wrong pick when proportional", function () {
+      const proportional: Question = { ...question, scoring: "proportional" };
+      // 2 right of 3: floor(10 * 2 / 3)
+      expect(answer(proportional, ["2", "3"])).to.eq(6);
+      // Selecting every option: (3 right - 1 wrong) / 3
+      expect(answer(proportional, ["2", "3", "4", "5"])).to.eq(6);
+      // More wrong than right picks floors at zero
+      expect(answer({ ...proportional, correctAnswer: ["2"] }, ["2", "3", "4"])).to.eq(0);
+    });
+
+    it("should sum the weights of the picks between zero and the max score", function () {
+      const weighted: Question = { ...question, scoring: "weighted", optionWeights: [4, 4, -5, 4] };
+      expect(answer(weighted, ["2", "3", "5"])).to.eq(10);
+      expect(answer(weighted, ["2", "4"])).to.eq(0);
+      expect(answer(weighted, ["2", "3"])).to.eq(8);
+    });
+  });
+
+  describe("Ordering", function () {
+    const question: Question = {
+      id: "order",
+      title: "Sort ascending",
+      type: "ordering",
+      options: ["1", "2", "3", "4"],
+      correctAnswer: ["1", "2", "3", "4"],
+      maxScore: 12,
+    };
+
+    it("should give full marks for the correct order and nothing for the reverse", function () {
+      expect(answer(question, ["1", "2", "3", "4"])).to.eq(12);
+      expect(answer(question, ["4", "3", "2", "1"])).to.eq(0);
+    });
+
+    it("should credit the share of pairs in the right relative order", function () {
+      // Swapping two neighbours breaks 1 of the 6 pairs
+      expect(answer(question, ["2", "1", "3", "4"])).to.eq(10);
+    });
+
+    it("should not credit the pairs of a tied item listed twice in place of another", function () {
+      // "1" ties with itself and "2" is missing: only (1, 3), (1, 4) and (3, 4) are in order
+      expect(answer(question, ["1", "1", "3", "4"])).to.eq(6);
+    });
+  });
+
+  describe("Matching", function () {
+    const question: Question = {
+      id: "match",
+      title: "Capitals",
+      type: "matching",
+      options: ["France", "Italy", "Spain"],
+      correctAnswer: ["Paris", "Rome", "Madrid"],
+      maxScore: 9,
+    };
+
+    it("should credit each correct pair", function () {
+      expect(answer(question, ["Paris", "Rome", "Madrid"])).to.eq(9);
+      expect(answer(question, ["Paris", "Madrid", "Rome"])).to.eq(3);
+      expect(answer(question, ["Rome", "Madrid", "Paris"])).to.eq(0);
+    });
+  });
+
+  describe("Fill in the Blank", function () {
+    const question: Question = {
+      id: "blank",
+      title: "The capital of France is ___",
+      type: "fill-blank",
+      correctAnswer: "Paris",
+      maxScore: 4,
+    };
+
+    it("should ignore case, Unicode width and surrounding or repeated whitespace", function () {
+      expect(answer(question, "paris")).to.eq(4);
+      expect(answer(question, "  PARIS ")).to.eq(4);
+      expect(answer(question, "Ｐａｒｉｓ")).to.eq(4);
+      expect(answer({ ...question, correctAnswer: "New  York" }, "new york")).to.eq(4);
+      expect(answer(question, "Pariss")).to.eq(0);
+    });
+
+    it("should accept the alternate answers as well as the primary one", function () {
+      const alternates: Question = { ...question, acceptedAnswers: ["Lutetia", " "] };
+      expect(answer(alternates, "lutetia")).to.eq(4);
+      expect(answer(alternates, "Paris")).to.eq(4);
+      // Blank alternates are ignored rather than accepting an empty answer
+      expect(answer(alternates, "")).to.eq(0);
+    });
+
+    it("should allow up to the edit distance in typos", function () {
+      const lenient: Question = { ...question, maxEditDistance: 1 };
+      expect(answer(lenient, "Pariss")).to.eq(4);
+      expect(answer(lenient, "Pari")).to.eq(4);
+      expect(answer(lenient, "Prais")).to.eq(0);
+      expect(answer({ ...lenient, maxEditDistance: 2 }, "Prais")).to.eq(4);
+    });
+
+    it("should match regular expressions against the whole answer, ignoring case", function () {
+      const pattern: Question = { ...question, matchMode: "regex", correctAnswer: "colou?r" };
+      expect(answer(pattern, "Color")).to.eq(4);
+      expect(answer(pattern, " colour ")).to.eq(4);
+      expect(answer(pattern, "colors")).to.eq(0);
+      expect(answer({ ...pattern, acceptedAnswers: ["hue"] }, "HUE")).to.eq(4);
+    });
+
+    it("should never match an invalid regular expression", function () {
+      const invalid: Question = { ...question, matchMode: "regex", correctAnswer: "(" };
+      expect(answer(invalid, "(")).to.eq(0);
+      expect(validateBlankAnswers(invalid)).to.match(/not a valid regular expression/);
+    });
+
+    it("should compare numbers within the tolerance in numeric mode", function () {
+      const numeric: Question = { ...question, matchMode: "numeric", correctAnswer: "3.14", tolerance: 0.01 };
+      expect(answer(numeric, "3.15")).to.eq(4);
+      expect(answer(numeric, " 3.13 ")).to.eq(4);
+      expect(answer(numeric, "3.16")).to.eq(0);
+      expect(answer(numeric, "pi")).to.eq(0);
+    });
+  });
+
+  describe("Numeric", function () {
+    const question: Question = {
+      id: "num",
+      title: "0.1 + 0.2",
+      type: "numeric",
+      correctAnswer: "0.3",
+      maxScore: 6,
+    };
+
+    it("should accept equal numbers written differently", function () {
+      expect(answer(question, "0.3")).to.eq(6);
+      expect(answer(question, ".30")).to.eq(6);
+      expect(answer(question, "3e-1")).to.eq(6);
+      expect(answer(question, "0.31")).to.eq(0);
+      expect(answer(question, "")).to.eq(0);
+    });
+
+    it("should accept answers within the tolerance, inclusive", function () {
+      const tolerant: Question = { ...question, correctAnswer: "10", tolerance: 0.5 };
+      expect(answer(tolerant, "10.5")).to.eq(6);
+      expect(answer(tolerant, "9.5")).to.eq(6);
+      expect(answer(tolerant, "10.51")).to.eq(0);
+    });
+
+    it("should accept alternate answers, each within the tolerance", function () {
+      const alternates: Question = { ...question, correctAnswer: "1", acceptedAnswers: ["-1"], tolerance: 0.1 };
+      expect(answer(alternates, "-1.05")).to.eq(6);
+      expect(answer(alternates, "0.95")).to.eq(6);
+      expect(answer(alternates, "0")).to.eq(0);
+    });
+  });
+
+  describe("Negative Marking", function () {
+    const question: Question = {
+      id: "single",
+      title: "2 + 2",
+      type: "single-choice",
+      options: ["3", "4"],
+      correctAnswer: "4",
+      maxScore: 5,
+      penalty: 2,
+    };
+
+    it("should take the penalty off wrong answers only", function () {
+      expect(calculatePenalty(question, { questionId: "single", answer: "3" })).to.eq(2);
+      expect(calculatePenalty(question, { questionId: "single", answer: "4" })).to.eq(0);
+      expect(calculatePenalty(question, { questionId: "single", answer: "" })).to.eq(0);
+    });
+
+    it("should not penalise hand-graded questions", function () {
+      const proportional: Question = {
+        id: "mc",
+        title: "Which are primes?",
+        type: "multiple-choice",
+        options: ["2", "3", "4"],
+        correctAnswer: ["2", "3"],
+        maxScore: 10,
+        scoring: "proportional",
+        penalty: 2,
+      };
+      expect(calculatePenalty(proportional, { questionId: "mc", answer: ["4"] })).to.eq(0);
+      expect(validateQuestion(proportional)).to.have.length(1);
+      expect(validateQuestion({ ...proportional, scoring: "all-or-nothing" })).to.deep.eq([]);
+    });
+
+    it("should offset submitted scores by the penalty", function () {
+      expect(offsetScore(question, { questionId: "single", answer: "3" })).to.eq(0);
+      expect(offsetScore(question, { questionId: "single", answer: "" })).to.eq(2);
+      expect(offsetScore(question, { questionId: "single", answer: "4" })).to.eq(7);
+    });
+  });
+});
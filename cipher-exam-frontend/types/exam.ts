@@ -0,0 +1,133 @@
+// types/exam.ts
+
+export type QuestionType =
+  | "single-choice"
+  | "multiple-choice"
+  | "true-false"
+  | "fill-blank"
+  | "numeric"
+  | "ordering"
+  | "matching"
+  | "essay";
+
+// How a multiple-choice answer earns points:
+// - all-or-nothing: full score only for exactly the correct set of options
+// - proportional: (correct picks - wrong picks) / correct options of the score, floored at 0
+// - weighted: sum of the weights of the picked options, between 0 and the max score
+export type MultipleChoiceScoring = "all-or-nothing" | "proportional" | "weighted";
+
+// How a fill-in-the-blank answer is compared with the accepted answers:
+// - text: normalized text, optionally within an edit distance
+// - regex: each accepted answer is a pattern matched against the whole answer, ignoring case
+// - numeric: numbers within a tolerance
+export type FillBlankMatch = "text" | "regex" | "numeric";
+
+// Questions sharing a pool name form one section of the exam: each student gets `draw` of
+// them, chosen from their address. Every question of a pool has the same draw and max score.
+export type QuestionPool = {
+  name: string;
+  draw: number;
+};
+
+export type Question = {
+  id: string;
+  title: string;
+  type: QuestionType;
+  options?: string[]; // Choices, ordering items (in the correct order) or the left side of matching pairs
+  correctAnswer?: string | string[]; // For matching, the right item paired with each option
+  maxScore: number;
+  scoring?: MultipleChoiceScoring; // Multiple-choice only, defaults to all-or-nothing
+  optionWeights?: number[]; // Points per option for weighted scoring, may be negative
+  matchMode?: FillBlankMatch; // Fill-blank only, defaults to text
+  acceptedAnswers?: string[]; // Fill-blank answers accepted besides correctAnswer
+  tolerance?: number; // Allowed difference for numeric questions and numeric fill-blank matching
+  maxEditDistance?: number; // Allowed typos (Levenshtein distance) for text matching
+  pool?: QuestionPool; // Unset for a question every student gets
+  penalty?: number; // Points lost for a wrong (not blank) answer, see calculatePenalty in lib/scoring.ts
+  choices?: string[]; // Published in place of the answer: ordering items or matching right items, sorted
+};
+
+// Result of converting questions from or to another format; warnings list what was lost or skipped
+export type QuestionConversion = {
+  questions: Question[];
+  warnings: string[];
+};
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+// One version of a question in the reusable question bank (see lib/questionBank.ts)
+export type BankQuestion = {
+  id: string;
+  version: number; // Starts at 1; each edit adds a version
+  question: Question;
+  tags: string[]; // Lowercase
+  difficulty: QuestionDifficulty;
+  topic: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// A letter grade for totals from `minPercent` of the exam maximum (see lib/gradeBands.ts)
+export type GradeBand = {
+  label: string;
+  minPercent: number;
+};
+
+// Consecutive questions that must be passed on their own (see lib/examSections.ts). The count is of
+// questions as a student answers them, so a pool counts the questions it draws
+export type ExamSection = {
+  name: string;
+  questionCount: number;
+  minPercent: number; // Of the section's points
+};
+
+// Everything the create form holds before the exam goes on-chain
+export type ExamForm = {
+  title: string;
+  description: string;
+  passingScore: number;
+  passingScoreUnit: "points" | "percent";
+  startTime: string; // datetime-local input value
+  endTime: string;
+  rosterText: string;
+  inviteCode: string;
+  maxAttempts: number;
+  scoringPolicy: number; // ScoringPolicy
+  durationMinutes: number;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  gradeBands: GradeBand[]; // Best band first; empty for pass/fail only
+  sections: ExamSection[]; // In question order; empty for an exam judged on its total only
+  questions: Question[];
+};
+
+// An unfinished exam autosaved in this browser (see lib/examDrafts.ts)
+export type ExamDraft = {
+  id: string;
+  name: string; // Empty until the creator names it; the exam title is shown instead
+  form: ExamForm;
+  createdAt: number;
+  updatedAt: number;
+  createdExamId?: string; // Exam created on-chain from this draft whose remaining steps have not all succeeded
+};
+
+// Settings that carry over from one run of an exam to the next; dates and access are set per run
+export type ExamTemplateSettings = Omit<ExamForm, "startTime" | "endTime" | "rosterText" | "inviteCode">;
+
+export type ExamTemplate = {
+  id: string;
+  name: string;
+  settings: ExamTemplateSettings;
+  createdAt: number;
+};
+
+export type StudentAnswer = {
+  questionId: string;
+  answer: string | string[];
+};
+
+export type ExamQuestions = {
+  examId: string;
+  questions: Question[];
+  createdAt: number;
+};
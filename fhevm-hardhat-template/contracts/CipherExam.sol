@@ -8,38 +8,246 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 /// @author CipherExam dApp
 /// @notice A decentralized exam system using FHEVM to encrypt scores and compute results in encrypted state
 contract CipherExam is ZamaEthereumConfig {
+    // ============ Constants ============
+    
+    /// @notice Number of equal-width score buckets in the per-exam histogram
+    uint256 public constant HISTOGRAM_BUCKETS = 5;
+    
+    /// @notice Upper bound for an exam's maxAttempts
+    uint8 public constant MAX_ATTEMPTS = 10;
+    
+    /// @notice Upper bound for the number of grade bands of an exam
+    uint256 public constant MAX_GRADE_BANDS = 10;
+    
+    /// @notice Upper bound for the number of sections of an exam
+    uint256 public constant MAX_SECTIONS = 10;
+    
+    /// @notice Upper bound for the answer key entries of an exam, pool questions included. The key is
+    ///         encrypted in one input with the passing score, and an input holds at most 64 euint32 values
+    uint256 public constant MAX_ANSWER_KEYS = 63;
+    
+    // ============ Errors ============
+    
+    /// @notice The number of submitted answers differs from the question count
+    error AnswerCountMismatch();
+    
+    /// @notice The answer key is neither empty nor between one entry per question and MAX_ANSWER_KEYS
+    error AnswerKeyLengthMismatch();
+    
+    /// @notice The sender's current attempt is still running
+    error AttemptAlreadyStarted();
+    
+    /// @notice A timed exam was answered without calling startAttempt first
+    error AttemptNotStarted();
+    
+    /// @notice The new end time is not later than the current one
+    error EndTimeNotLater();
+    
+    /// @notice The exam is closed or cancelled
+    error ExamAlreadyFinished();
+    
+    /// @notice Scores were submitted to an exam that grades answers itself
+    error ExamGradedOnChain();
+    
+    /// @notice A setting every student plays by changed after the first submission
+    error ExamHasSubmissions();
+    
+    /// @notice Statistics were requested before the exam ended
+    error ExamNotEnded();
+    
+    /// @notice The exam was already published
+    error ExamNotDraft();
+    
+    /// @notice No exam was created with this ID
+    error ExamNotFound();
+    
+    /// @notice The exam does not accept submissions right now
+    error ExamNotInProgress();
+    
+    /// @notice The exam cannot be closed because it is not open
+    error ExamNotOpen();
+    
+    /// @notice maxAttempts is 0 or above MAX_ATTEMPTS
+    error InvalidAttemptCount();
+    
+    /// @notice The student has no attempt with this index
+    error InvalidAttemptIndex();
+    
+    /// @notice Grade labels and thresholds differ in length or exceed MAX_GRADE_BANDS
+    error InvalidGradeBands();
+    
+    /// @notice The grader key is not a compressed secp256k1 public key
+    error InvalidGraderKey();
+    
+    /// @notice Penalties are not one per question or exceed a question's score
+    error InvalidPenalties();
+    
+    /// @notice Pools overlap, are out of order, draw more than they hold or do not cover the answer key
+    error InvalidPools();
+    
+    /// @notice The question count is 0 or above 100
+    error InvalidQuestionCount();
+    
+    /// @notice The question index is out of range
+    error InvalidQuestionIndex();
+    
+    /// @notice A question score is 0 or above 100
+    error InvalidQuestionScore();
+    
+    /// @notice Sections are inconsistent, out of order or do not cover every question
+    error InvalidSections();
+    
+    /// @notice The end time is not after the start time
+    error InvalidTimeRange();
+    
+    /// @notice Answers were submitted for grading to a self-scored exam
+    error NoAnswerKey();
+    
+    /// @notice The sender has used every attempt of the exam
+    error NoAttemptsLeft();
+    
+    /// @notice No result has been computed for the exam yet
+    error NoResultsToReveal();
+    
+    /// @notice An attempt was started for an exam without a time limit
+    error NoTimeLimit();
+    
+    /// @notice The sender is neither on the allow-list nor holds the invite code
+    error NotAllowed();
+    
+    /// @notice The sender may not perform this action
+    error NotAuthorized();
+    
+    /// @notice The question scores are not one per question
+    error QuestionScoresLengthMismatch();
+    
+    /// @notice The number of submitted scores differs from the question count
+    error ScoreCountMismatch();
+    
+    /// @notice The start time has already passed
+    error StartTimeInPast();
+    
+    /// @notice The class statistics were revealed, which freezes them and the results they count
+    error StatisticsAlreadyRevealed();
+    
+    /// @notice The student has not submitted to the exam
+    error SubmissionNotFound();
+    
+    /// @notice The sender's attempt ran out of time
+    error TimeLimitExceeded();
+    
+    // ============ Enums ============
+    
+    /// @notice Lifecycle status of an exam
+    enum ExamStatus {
+        Scheduled,   // Created, start time not reached yet
+        Open,        // Accepting submissions
+        Closed,      // End time passed or closed early by the creator
+        Cancelled    // Cancelled by the creator, no further submissions
+    }
+    
+    /// @notice How the effective total is derived from a student's attempts
+    enum ScoringPolicy {
+        Best,        // Highest attempt total
+        Last,        // Total of the latest attempt
+        Average      // Mean of all attempt totals, rounded down
+    }
+    
     // ============ Structs ============
     
+    struct Pool {
+        uint32 firstQuestion;        // First question the pool fills
+        uint32 draw;                 // Consecutive questions it fills, one drawn entry each
+        uint32 firstKey;             // Answer key entry of the pool's first question
+        uint32 size;                 // Consecutive answer key entries it draws from
+    }
+    
     struct Exam {
         string title;
+        bytes32 contentHash;         // keccak256 of the canonical question JSON (without answers)
         uint256 questionCount;
         euint32 passingScore;        // Encrypted passing score threshold
         uint32[] questionScores;    // Public score per question (max 100 per question)
+        euint32[] answerKey;         // Encrypted expected answer per question and pool question (empty = self-scored)
         uint256 startTime;
         uint256 endTime;
-        bool isActive;
+        bool isActive;               // True once created (existence flag)
+        bool isClosed;               // Closed early by the creator
+        bool isCancelled;            // Cancelled by the creator
         address creator;
+        bytes32 allowListRoot;       // Merkle root of allowed student addresses (0 = no allow-list)
+        bytes32 inviteCodeHash;      // keccak256 of the invite code (0 = no invite code)
+        uint8 maxAttempts;           // Attempts allowed per student (0 = single attempt)
+        ScoringPolicy scoringPolicy; // How attempts combine into the effective total
+        uint32 durationSeconds;      // Per-student time limit from startAttempt (0 = no limit)
+        bool shuffleQuestions;       // Clients show questions in a per-student order
+        bool shuffleOptions;         // Clients show choice options in a per-student order
+        euint32[] gradeThresholds;   // Encrypted minimum total of each grade band, best band first (empty = no grades)
+        string[] gradeLabels;        // Public label of each grade band, e.g. "A"
+        string[] sectionNames;       // Public name of each section (empty = no sections)
+        uint32[] sectionEnds;        // Exclusive end question index of each section; sections are consecutive
+        euint32[] sectionThresholds; // Encrypted minimum subtotal of each section
+        uint32[] penalties;          // Points lost per wrong (not blank) answer per question (empty = none)
+        bool isDraft;                // Held back from students until publishExam, so settings can be applied first
+        uint256 manualQuestions;     // Bit i set: answer key entry i is graded by hand with gradeQuestion
+        Pool[] pools;                // Questions drawn per student from a larger set, in question order (empty = none)
+    }
+    
+    struct Attempt {
+        euint32[] scores;            // Encrypted scores for each question, offset by the question's penalty
+        euint32 total;               // Encrypted sum of the scores minus the penalties, floored at zero
+        ebool wasClamped;            // Encrypted flag: a submitted score exceeded its question max
+        uint256 submittedAt;
     }
     
     struct StudentSubmission {
-        euint32[] scores;            // Encrypted scores for each question
-        euint32 totalScore;           // Encrypted total score
+        Attempt[] attempts;           // Every attempt, oldest first
+        euint32 totalScore;           // Encrypted effective total under the exam's scoring policy
         ebool isPassed;               // Encrypted pass/fail status
-        uint256 submittedAt;
+        euint32 gradeIndex;           // Encrypted index of the best grade band reached (band count = none)
+        euint32[] sectionTotals;      // Encrypted effective subtotal of each section
+        ebool[] sectionPassed;        // Encrypted pass/fail status of each section
+        uint256 submittedAt;          // Time of the latest attempt
         bool exists;
+        bool isComputed;              // True once computeTotalAndJudge has run for the latest attempt
+    }
+    
+    struct ExamStats {
+        euint32 totalSum;                            // Encrypted sum of computed totals
+        euint32 passCount;                           // Encrypted number of passing students
+        euint32[HISTOGRAM_BUCKETS] bucketCounts;     // Encrypted number of totals per score bucket
+        uint256 computedCount;                       // Number of submissions counted in the stats
+        bool isRevealed;                             // True once the creator made the stats public
     }
     
     // ============ State Variables ============
     
     /// @notice Counter for exam IDs, auto-increments on creation
     uint256 public nextExamId;
-    mapping(uint256 => Exam) public exams;
-    mapping(uint256 => mapping(address => StudentSubmission)) public submissions;
-    mapping(uint256 => address[]) public examStudents;
-    mapping(uint256 => mapping(address => bool)) public hasSubmitted;
+    /// @notice Exams by ID
+    mapping(uint256 examId => Exam exam) public exams;
+    /// @notice Submission of each student to each exam
+    mapping(uint256 examId => mapping(address student => StudentSubmission submission)) public submissions;
+    /// @notice Students who submitted to each exam, in order of their first submission
+    mapping(uint256 examId => address[] students) public examStudents;
+    /// @notice Whether a student has submitted to an exam
+    mapping(uint256 examId => mapping(address student => bool submitted)) public hasSubmitted;
+    mapping(uint256 examId => ExamStats stats) private examStats;
+    mapping(address student => uint256[] examIds) private studentExams;
+    mapping(uint256 examId => mapping(address student => uint256 startedAt)) private attemptStartedAt;
+    mapping(uint256 examId => mapping(address student => uint256 count)) private expiredAttempts;
+    /// @notice Public key of each exam creator for encrypting essay answers off-chain
+    mapping(address creator => bytes graderKey) public graderKeys;
     
     // ============ Events ============
     
+    /// @notice An exam was created
+    /// @param examId The exam ID
+    /// @param creator The exam creator
+    /// @param title Exam title
+    /// @param questionCount Number of questions
+    /// @param startTime Exam start timestamp
+    /// @param endTime Exam end timestamp
     event ExamCreated(
         uint256 indexed examId,
         address indexed creator,
@@ -49,26 +257,166 @@ contract CipherExam is ZamaEthereumConfig {
         uint256 endTime
     );
     
+    /// @notice A student submitted an attempt
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @param submittedAt Time of the attempt
     event AnswersSubmitted(
         uint256 indexed examId,
         address indexed student,
         uint256 submittedAt
     );
     
+    /// @notice A student's effective total and pass/fail status were (re)computed
+    /// @param examId The exam ID
+    /// @param student The student address
     event TotalComputed(
         uint256 indexed examId,
         address indexed student
     );
     
+    /// @notice The class statistics of an exam became publicly decryptable
+    /// @param examId The exam ID
+    event StatisticsRevealed(uint256 indexed examId);
+    
+    /// @notice A draft exam was published and accepts submissions from its start time
+    /// @param examId The exam ID
+    event ExamPublished(uint256 indexed examId);
+    
+    /// @notice An exam was cancelled
+    /// @param examId The exam ID
+    event ExamCancelled(uint256 indexed examId);
+    
+    /// @notice The end time of an exam was pushed back
+    /// @param examId The exam ID
+    /// @param newEndTime New end timestamp
+    event ExamEndTimeExtended(uint256 indexed examId, uint256 newEndTime);
+    
+    /// @notice An exam was closed before its end time
+    /// @param examId The exam ID
+    /// @param closedAt Time of closing
+    event ExamClosed(uint256 indexed examId, uint256 closedAt);
+    
+    /// @notice The allow-list of an exam changed
+    /// @param examId The exam ID
+    /// @param allowListRoot New Merkle root (0 = no allow-list)
+    event AllowListUpdated(uint256 indexed examId, bytes32 allowListRoot);
+    
+    /// @notice The invite code of an exam changed
+    /// @param examId The exam ID
+    /// @param inviteCodeHash keccak256 of the new invite code (0 = no invite code)
+    event InviteCodeUpdated(uint256 indexed examId, bytes32 inviteCodeHash);
+    
+    /// @notice The attempt settings of an exam changed
+    /// @param examId The exam ID
+    /// @param maxAttempts Attempts allowed per student
+    /// @param scoringPolicy How the attempts combine into the effective total
+    event AttemptPolicyUpdated(uint256 indexed examId, uint8 maxAttempts, ScoringPolicy scoringPolicy);
+    
+    /// @notice The time limit of an exam changed
+    /// @param examId The exam ID
+    /// @param durationSeconds Time allowed per attempt (0 = no limit)
+    event DurationUpdated(uint256 indexed examId, uint32 durationSeconds);
+    
+    /// @notice The shuffle settings of an exam changed
+    /// @param examId The exam ID
+    /// @param shuffleQuestions Whether the question order is shuffled per student
+    /// @param shuffleOptions Whether the option order is shuffled per student
+    event ShuffleUpdated(uint256 indexed examId, bool shuffleQuestions, bool shuffleOptions);
+    
+    /// @notice The grade bands of an exam changed
+    /// @param examId The exam ID
+    /// @param labels Label of each band, best band first
+    event GradeBandsUpdated(uint256 indexed examId, string[] labels);
+    
+    /// @notice The sections of an exam changed
+    /// @param examId The exam ID
+    /// @param names Name of each section
+    /// @param ends Exclusive end question index of each section
+    event SectionsUpdated(uint256 indexed examId, string[] names, uint32[] ends);
+    
+    /// @notice The question pools of an exam changed
+    /// @param examId The exam ID
+    /// @param firstQuestions First question each pool fills
+    /// @param draws Questions each pool fills
+    /// @param sizes Answer key entries each pool draws from
+    event PoolsUpdated(uint256 indexed examId, uint32[] firstQuestions, uint32[] draws, uint32[] sizes);
+    
+    /// @notice The negative marking of an exam changed
+    /// @param examId The exam ID
+    /// @param penalties Points lost per wrong answer to each question
+    event PenaltiesUpdated(uint256 indexed examId, uint32[] penalties);
+    
+    /// @notice The questions an exam grades by hand changed
+    /// @param examId The exam ID
+    /// @param manualQuestions Bit i set: answer key entry i is graded by hand
+    event ManualQuestionsUpdated(uint256 indexed examId, uint256 manualQuestions);
+    
+    /// @notice A student started an attempt of a timed exam
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @param startedAt Start of the attempt
+    event AttemptStarted(uint256 indexed examId, address indexed student, uint256 startedAt);
+    
+    /// @notice The creator graded a question of a student's attempt
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @param attemptIndex Index of the graded attempt, oldest first
+    /// @param questionIndex Index of the graded question
+    event QuestionGraded(uint256 indexed examId, address indexed student, uint256 attemptIndex, uint256 questionIndex);
+    
+    /// @notice An exam creator published the key students encrypt essay answers to
+    /// @param creator The exam creator
+    /// @param graderKey Compressed secp256k1 public key
+    event GraderKeyUpdated(address indexed creator, bytes graderKey);
+    
     // ============ Modifiers ============
     
     modifier onlyActiveExam(uint256 examId) {
-        require(exams[examId].isActive, "Exam does not exist");
-        require(
-            block.timestamp >= exams[examId].startTime && 
-            block.timestamp <= exams[examId].endTime,
-            "Exam is not in progress"
-        );
+        require(exams[examId].isActive, ExamNotFound());
+        require(_examStatus(exams[examId]) == ExamStatus.Open, ExamNotInProgress());
+        _;
+    }
+    
+    /// @dev Exams without an allow-list or invite code are open to everyone; otherwise the sender
+    ///      must be in the allow-list or present the invite code
+    modifier onlyAllowedStudent(uint256 examId, bytes32[] calldata allowListProof, bytes32 inviteCode) {
+        Exam storage exam = exams[examId];
+        if (exam.allowListRoot != bytes32(0) || exam.inviteCodeHash != bytes32(0)) {
+            bool listed = exam.allowListRoot != bytes32(0) &&
+                _verifyAllowList(allowListProof, exam.allowListRoot, msg.sender);
+            bool invited = exam.inviteCodeHash != bytes32(0) &&
+                keccak256(abi.encodePacked(inviteCode)) == exam.inviteCodeHash;
+            require(listed || invited, NotAllowed());
+        }
+        _;
+    }
+    
+    modifier hasAttemptsLeft(uint256 examId) {
+        _requireAttemptsLeft(examId);
+        _;
+    }
+    
+    /// @dev Timed exams only accept an attempt that was started with startAttempt and is within its duration
+    modifier withinTimeLimit(uint256 examId) {
+        uint32 duration = exams[examId].durationSeconds;
+        if (duration > 0) {
+            uint256 startedAt = attemptStartedAt[examId][msg.sender];
+            require(startedAt > 0, AttemptNotStarted());
+            require(block.timestamp <= startedAt + duration, TimeLimitExceeded());
+        }
+        _;
+    }
+    
+    modifier onlyExamCreator(uint256 examId) {
+        require(exams[examId].isActive, ExamNotFound());
+        require(exams[examId].creator == msg.sender, NotAuthorized());
+        _;
+    }
+    
+    /// @dev Settings that every student is graded or timed by can only change before the first submission
+    modifier beforeSubmissions(uint256 examId) {
+        _requireBeforeSubmissions(examId);
         _;
     }
     
@@ -76,95 +424,151 @@ contract CipherExam is ZamaEthereumConfig {
     
     /// @notice Create a new exam
     /// @param title Exam title
+    /// @param contentHash Hash of the canonical question content, used by clients to verify off-chain questions
     /// @param questionCount Number of questions (1-100)
     /// @param passingScore Encrypted passing score threshold
+    /// @param answerKey Encrypted expected answer per question, or empty for a self-scored exam. Exams with
+    ///        pools hold an entry for every pool question and lay them out with setPools
+    /// @param inputProof Proof for the encrypted passing score and answer key
     /// @param questionScores Array of max scores per question (public)
     /// @param startTime Exam start timestamp
     /// @param endTime Exam end timestamp
+    /// @param asDraft Keep the exam closed to submissions until publishExam, so follow-up settings
+    ///        cannot be raced by a first submission
     function createExam(
         string calldata title,
+        bytes32 contentHash,
         uint256 questionCount,
         externalEuint32 passingScore,
-        bytes calldata passingScoreProof,
+        externalEuint32[] calldata answerKey,
+        bytes calldata inputProof,
         uint32[] calldata questionScores,
         uint256 startTime,
-        uint256 endTime
+        uint256 endTime,
+        bool asDraft
     ) external {
-        require(questionCount > 0 && questionCount <= 100, "Invalid question count");
-        require(questionScores.length == questionCount, "Question scores length mismatch");
-        require(endTime > startTime, "Invalid time range");
-        require(startTime >= block.timestamp, "Start time must be in future");
-        
-        // Convert encrypted passing score
-        euint32 encryptedPassingScore = FHE.fromExternal(passingScore, passingScoreProof);
+        require(questionCount > 0 && questionCount <= 100, InvalidQuestionCount());
+        require(questionScores.length == questionCount, QuestionScoresLengthMismatch());
+        require(
+            answerKey.length == 0 || (answerKey.length >= questionCount && answerKey.length <= MAX_ANSWER_KEYS),
+            AnswerKeyLengthMismatch()
+        );
+        require(endTime > startTime, InvalidTimeRange());
+        require(startTime >= block.timestamp, StartTimeInPast());
         
         // Validate question scores (each <= 100)
         for (uint256 i = 0; i < questionScores.length; i++) {
-            require(questionScores[i] > 0 && questionScores[i] <= 100, "Invalid question score");
+            require(questionScores[i] > 0 && questionScores[i] <= 100, InvalidQuestionScore());
         }
         
-        uint256 examId = nextExamId++;
-        exams[examId] = Exam({
-            title: title,
-            questionCount: questionCount,
-            passingScore: encryptedPassingScore,
-            questionScores: questionScores,
-            startTime: startTime,
-            endTime: endTime,
-            isActive: true,
-            creator: msg.sender
-        });
-        
-        // Authorize creator to decrypt passing score
-        FHE.allow(encryptedPassingScore, msg.sender);
-        FHE.allowThis(encryptedPassingScore);
-        
-        emit ExamCreated(examId, msg.sender, title, questionCount, startTime, endTime);
+        Exam storage exam = _storeExam(title, questionScores, startTime, endTime);
+        exam.contentHash = contentHash;
+        exam.isDraft = asDraft;
+        _storeEncryptedSettings(exam, passingScore, answerKey, inputProof);
     }
     
-    /// @notice Submit encrypted answers (scores) for an exam
+    /// @notice Submit encrypted answers (scores) for a self-scored exam
+    /// @dev With negative marking each score is offset by its question's penalty: 0 for a wrong
+    ///      answer, the penalty for a blank one and the penalty plus the points earned otherwise
     /// @param examId The exam ID
     /// @param scores Array of encrypted scores (one per question)
     /// @param inputProof Proof for encrypted inputs
+    /// @param allowListProof Merkle proof of the sender in the exam's allow-list (empty if unused)
+    /// @param inviteCode Invite code of the exam (zero if unused)
     function submitAnswers(
         uint256 examId,
         externalEuint32[] calldata scores,
-        bytes calldata inputProof
-    ) external onlyActiveExam(examId) {
-        require(!hasSubmitted[examId][msg.sender], "Already submitted");
-        require(scores.length == exams[examId].questionCount, "Score count mismatch");
+        bytes calldata inputProof,
+        bytes32[] calldata allowListProof,
+        bytes32 inviteCode
+    )
+        external
+        onlyActiveExam(examId)
+        onlyAllowedStudent(examId, allowListProof, inviteCode)
+        hasAttemptsLeft(examId)
+        withinTimeLimit(examId)
+    {
+        require(exams[examId].answerKey.length == 0, ExamGradedOnChain());
+        require(scores.length == exams[examId].questionCount, ScoreCountMismatch());
         
-        // Convert encrypted inputs
+        // Convert encrypted inputs and clamp each score to its question max in encrypted space,
+        // so a crafted transaction cannot push the total past the exam maximum
+        uint32[] storage maxScores = exams[examId].questionScores;
         euint32[] memory encryptedScores = new euint32[](scores.length);
+        ebool wasClamped = FHE.asEbool(false);
         for (uint256 i = 0; i < scores.length; i++) {
-            encryptedScores[i] = FHE.fromExternal(scores[i], inputProof);
-            // Validate score doesn't exceed max for this question (in encrypted space)
-            // Note: This is a simplified check. In production, you'd want to verify
-            // that score <= questionScores[i] in encrypted space using FHE.le
-            // For now, we rely on frontend validation
-        }
-        
-        // Initialize submission
-        submissions[examId][msg.sender] = StudentSubmission({
-            scores: encryptedScores,
-            totalScore: FHE.asEuint32(0), // Will be computed later
-            isPassed: FHE.asEbool(false),
-            submittedAt: block.timestamp,
-            exists: true
-        });
-        
-        // Authorize student to decrypt their own scores
-        for (uint256 i = 0; i < encryptedScores.length; i++) {
-            FHE.allow(encryptedScores[i], msg.sender);
-            FHE.allowThis(encryptedScores[i]);
+            euint32 score = FHE.fromExternal(scores[i], inputProof);
+            uint32 maxScore = maxScores[i] + _penaltySum(exams[examId], i, i + 1);
+            wasClamped = FHE.or(wasClamped, FHE.ge(score, maxScore + 1));
+            encryptedScores[i] = FHE.min(score, maxScore);
         }
         
-        hasSubmitted[examId][msg.sender] = true;
+        _recordSubmission(examId, encryptedScores, wasClamped);
+    }
+    
+    /// @notice Submit encrypted answers and grade them on-chain against the exam's answer key
+    /// @dev Each question scores its full public max when the answer equals the key, 0 otherwise.
+    ///      With negative marking a wrong answer loses the question's penalty, while a blank one
+    ///      (encrypted as 0) loses nothing. Questions graded by hand score nothing until gradeQuestion
+    /// @param examId The exam ID
+    /// @param answers Array of encrypted answers (one per question, same encoding as the key)
+    /// @param inputProof Proof for encrypted inputs
+    /// @param allowListProof Merkle proof of the sender in the exam's allow-list (empty if unused)
+    /// @param inviteCode Invite code of the exam (zero if unused)
+    function submitEncryptedAnswers(
+        uint256 examId,
+        externalEuint32[] calldata answers,
+        bytes calldata inputProof,
+        bytes32[] calldata allowListProof,
+        bytes32 inviteCode
+    )
+        external
+        onlyActiveExam(examId)
+        onlyAllowedStudent(examId, allowListProof, inviteCode)
+        hasAttemptsLeft(examId)
+        withinTimeLimit(examId)
+    {
+        Exam storage exam = exams[examId];
+        require(exam.answerKey.length > 0, NoAnswerKey());
+        require(answers.length == exam.questionCount, AnswerCountMismatch());
         
-        // Track student list
-        examStudents[examId].push(msg.sender);
+        euint32[] memory encryptedScores = new euint32[](answers.length);
+        uint256[] memory keys = _drawKeys(exam, keccak256(abi.encodePacked(examId, msg.sender)));
+        for (uint256 i = 0; i < answers.length; i++) {
+            encryptedScores[i] = _gradeAnswer(exam, i, keys[i], answers[i], inputProof);
+        }
         
-        emit AnswersSubmitted(examId, msg.sender, block.timestamp);
+        // Scores produced from the answer key never exceed the question max
+        _recordSubmission(examId, encryptedScores, FHE.asEbool(false));
+    }
+    
+    /// @notice Start the sender's next attempt of a timed exam; answers must follow within the exam's duration
+    /// @dev A started attempt can only be restarted once its time is up, and the expired attempt still counts
+    ///      against the exam's attempt limit, so reading the questions always costs an attempt
+    /// @param examId The exam ID
+    /// @param allowListProof Merkle proof of the sender in the exam's allow-list (empty if unused)
+    /// @param inviteCode Invite code of the exam (zero if unused)
+    function startAttempt(
+        uint256 examId,
+        bytes32[] calldata allowListProof,
+        bytes32 inviteCode
+    )
+        external
+        onlyActiveExam(examId)
+        onlyAllowedStudent(examId, allowListProof, inviteCode)
+    {
+        uint32 duration = exams[examId].durationSeconds;
+        require(duration > 0, NoTimeLimit());
+        uint256 startedAt = attemptStartedAt[examId][msg.sender];
+        if (startedAt > 0) {
+            require(block.timestamp > startedAt + duration, AttemptAlreadyStarted());
+            expiredAttempts[examId][msg.sender]++;
+        }
+        _requireAttemptsLeft(examId);
+        
+        attemptStartedAt[examId][msg.sender] = block.timestamp;
+        
+        emit AttemptStarted(examId, msg.sender, block.timestamp);
     }
     
     /// @notice Compute total score and judge pass/fail in encrypted state
@@ -173,37 +577,822 @@ contract CipherExam is ZamaEthereumConfig {
     function computeTotalAndJudge(uint256 examId, address student) external {
         require(
             submissions[examId][student].exists,
-            "No submission found"
+            SubmissionNotFound()
         );
         require(
             student == msg.sender || exams[examId].creator == msg.sender,
-            "Not authorized"
+            NotAuthorized()
         );
         
+        _judge(examId, student);
+    }
+    
+    /// @notice Replace the score of one question in one of a student's attempts, e.g. after grading an essay
+    /// @dev The score is clamped to the question max and the total and pass/fail status are recomputed
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @param attemptIndex Index of the graded attempt, oldest first
+    /// @param questionIndex Index of the graded question
+    /// @param score Encrypted score awarded by the creator
+    /// @param inputProof Proof for the encrypted score
+    function gradeQuestion(
+        uint256 examId,
+        address student,
+        uint256 attemptIndex,
+        uint256 questionIndex,
+        externalEuint32 score,
+        bytes calldata inputProof
+    ) external onlyExamCreator(examId) {
         StudentSubmission storage submission = submissions[examId][student];
+        require(submission.exists, SubmissionNotFound());
+        require(!examStats[examId].isRevealed, StatisticsAlreadyRevealed());
+        require(attemptIndex < submission.attempts.length, InvalidAttemptIndex());
+        require(questionIndex < exams[examId].questionCount, InvalidQuestionIndex());
         
-        // Compute total score in encrypted state
-        euint32 total = FHE.asEuint32(0);
-        for (uint256 i = 0; i < submission.scores.length; i++) {
-            total = FHE.add(total, submission.scores[i]);
+        Exam storage exam = exams[examId];
+        Attempt storage attempt = submission.attempts[attemptIndex];
+        euint32 graded = FHE.min(FHE.fromExternal(score, inputProof), exam.questionScores[questionIndex]);
+        uint32 penalty = _penaltySum(exam, questionIndex, questionIndex + 1);
+        if (penalty > 0) {
+            graded = FHE.add(graded, FHE.asEuint32(penalty));
         }
         
+        attempt.scores[questionIndex] = graded;
+        attempt.total = _netTotal(attempt.scores, 0, exam.questionCount, _penaltySum(exam, 0, exam.questionCount));
+        
+        _allowResult(graded, student, msg.sender);
+        _allowResult(attempt.total, student, msg.sender);
+        
+        emit QuestionGraded(examId, student, attemptIndex, questionIndex);
+        
+        _judge(examId, student);
+    }
+    
+    /// @notice Publish the public key students encrypt essay answers to, for all of the sender's exams
+    /// @param graderKey Compressed secp256k1 public key
+    function setGraderKey(bytes calldata graderKey) external {
+        require(graderKey.length == 33, InvalidGraderKey());
+        graderKeys[msg.sender] = graderKey;
+        
+        emit GraderKeyUpdated(msg.sender, graderKey);
+    }
+    
+    /// @notice Publish a draft exam once its settings are in place
+    /// @param examId The exam ID
+    function publishExam(uint256 examId) external onlyExamCreator(examId) {
+        require(exams[examId].isDraft, ExamNotDraft());
+        
+        exams[examId].isDraft = false;
+        
+        emit ExamPublished(examId);
+    }
+    
+    /// @notice Cancel a scheduled or open exam; no further submissions are accepted
+    /// @param examId The exam ID
+    function cancelExam(uint256 examId) external onlyExamCreator(examId) {
+        ExamStatus status = _examStatus(exams[examId]);
+        require(status == ExamStatus.Scheduled || status == ExamStatus.Open, ExamAlreadyFinished());
+        
+        exams[examId].isCancelled = true;
+        
+        emit ExamCancelled(examId);
+    }
+    
+    /// @notice Push back the end time of a scheduled or open exam
+    /// @param examId The exam ID
+    /// @param newEndTime New end timestamp, later than the current one
+    function extendEndTime(uint256 examId, uint256 newEndTime) external onlyExamCreator(examId) {
+        Exam storage exam = exams[examId];
+        ExamStatus status = _examStatus(exam);
+        require(status == ExamStatus.Scheduled || status == ExamStatus.Open, ExamAlreadyFinished());
+        require(newEndTime > exam.endTime, EndTimeNotLater());
+        
+        exam.endTime = newEndTime;
+        
+        emit ExamEndTimeExtended(examId, newEndTime);
+    }
+    
+    /// @notice Close an open exam before its end time
+    /// @param examId The exam ID
+    function closeExam(uint256 examId) external onlyExamCreator(examId) {
+        Exam storage exam = exams[examId];
+        require(_examStatus(exam) == ExamStatus.Open, ExamNotOpen());
+        
+        exam.isClosed = true;
+        exam.endTime = block.timestamp;
+        
+        emit ExamClosed(examId, block.timestamp);
+    }
+    
+    /// @notice Restrict a scheduled or open exam to a Merkle allow-list of student addresses
+    /// @dev Leaves are keccak256(abi.encodePacked(student)), pairs are hashed in sorted order
+    /// @param examId The exam ID
+    /// @param allowListRoot Merkle root of the allowed addresses, or 0 to remove the allow-list
+    function setAllowListRoot(uint256 examId, bytes32 allowListRoot) external onlyExamCreator(examId) {
+        ExamStatus status = _examStatus(exams[examId]);
+        require(status == ExamStatus.Scheduled || status == ExamStatus.Open, ExamAlreadyFinished());
+        
+        exams[examId].allowListRoot = allowListRoot;
+        
+        emit AllowListUpdated(examId, allowListRoot);
+    }
+    
+    /// @notice Restrict a scheduled or open exam to holders of an invite code
+    /// @dev The code travels in clear in submission calldata, so it keeps out casual visitors
+    ///      rather than determined ones; combine it with an allow-list for strict rosters
+    /// @param examId The exam ID
+    /// @param inviteCodeHash keccak256 of the invite code, or 0 to remove the invite code
+    function setInviteCodeHash(uint256 examId, bytes32 inviteCodeHash) external onlyExamCreator(examId) {
+        ExamStatus status = _examStatus(exams[examId]);
+        require(status == ExamStatus.Scheduled || status == ExamStatus.Open, ExamAlreadyFinished());
+        
+        exams[examId].inviteCodeHash = inviteCodeHash;
+        
+        emit InviteCodeUpdated(examId, inviteCodeHash);
+    }
+    
+    /// @notice Allow several attempts per student and choose how they are scored
+    /// @dev Only possible before the first submission, so every student plays by the same rules
+    /// @param examId The exam ID
+    /// @param maxAttempts Attempts allowed per student (1 to MAX_ATTEMPTS)
+    /// @param scoringPolicy How the attempts combine into the effective total
+    function setAttemptPolicy(
+        uint256 examId,
+        uint8 maxAttempts,
+        ScoringPolicy scoringPolicy
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        require(maxAttempts > 0 && maxAttempts <= MAX_ATTEMPTS, InvalidAttemptCount());
+        
+        exams[examId].maxAttempts = maxAttempts;
+        exams[examId].scoringPolicy = scoringPolicy;
+        
+        emit AttemptPolicyUpdated(examId, maxAttempts, scoringPolicy);
+    }
+    
+    /// @notice Give every student a personal time limit, counted from their startAttempt call
+    /// @dev Only possible before the first submission, so every student plays by the same rules
+    /// @param examId The exam ID
+    /// @param durationSeconds Time allowed per attempt, or 0 to remove the limit
+    function setDuration(
+        uint256 examId,
+        uint32 durationSeconds
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        
+        exams[examId].durationSeconds = durationSeconds;
+        
+        emit DurationUpdated(examId, durationSeconds);
+    }
+    
+    /// @notice Show questions and/or choice options in a different order to every student
+    /// @dev The order is derived client-side from the exam ID and student address; answers keep
+    ///      their canonical positions, so grading is unaffected
+    /// @param examId The exam ID
+    /// @param shuffleQuestions Shuffle the question order
+    /// @param shuffleOptions Shuffle the options of choice questions
+    function setShuffle(
+        uint256 examId,
+        bool shuffleQuestions,
+        bool shuffleOptions
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        
+        exams[examId].shuffleQuestions = shuffleQuestions;
+        exams[examId].shuffleOptions = shuffleOptions;
+        
+        emit ShuffleUpdated(examId, shuffleQuestions, shuffleOptions);
+    }
+    
+    /// @notice Grade students into bands, e.g. A for 90 or more points, B for 80 or more
+    /// @dev Only possible before the first submission, so every student is graded against the same bands.
+    ///      Thresholds are absolute totals, so a client converts percentages against the exam maximum
+    /// @param examId The exam ID
+    /// @param labels Label of each band, best band first; empty to remove the bands
+    /// @param thresholds Encrypted minimum total of each band, in the same order
+    /// @param inputProof Proof for the encrypted thresholds
+    function setGradeBands(
+        uint256 examId,
+        string[] calldata labels,
+        externalEuint32[] calldata thresholds,
+        bytes calldata inputProof
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        Exam storage exam = exams[examId];
+        require(labels.length == thresholds.length && labels.length <= MAX_GRADE_BANDS, InvalidGradeBands());
+        
+        _storeThresholds(exam.gradeLabels, exam.gradeThresholds, labels, thresholds, inputProof);
+        
+        emit GradeBandsUpdated(examId, labels);
+    }
+    
+    /// @notice Split an exam into consecutive sections that must each be passed on their own
+    /// @dev Only possible before the first submission. A section's weight is its share of the question
+    ///      scores; the overall result passes only if the total and every section subtotal pass
+    /// @param examId The exam ID
+    /// @param names Name of each section; empty to remove the sections
+    /// @param ends Exclusive end question index of each section, increasing; the last one is the question count
+    /// @param thresholds Encrypted minimum subtotal of each section, in the same order
+    /// @param inputProof Proof for the encrypted thresholds
+    function setSections(
+        uint256 examId,
+        string[] calldata names,
+        uint32[] calldata ends,
+        externalEuint32[] calldata thresholds,
+        bytes calldata inputProof
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        Exam storage exam = exams[examId];
+        require(
+            names.length == ends.length && names.length == thresholds.length && names.length <= MAX_SECTIONS,
+            InvalidSections()
+        );
+        
+        delete exam.sectionEnds;
+        for (uint256 i = 0; i < ends.length; i++) {
+            require(ends[i] > (i == 0 ? 0 : ends[i - 1]), InvalidSections());
+            exam.sectionEnds.push(ends[i]);
+        }
+        require(ends.length == 0 || ends[ends.length - 1] == exam.questionCount, InvalidSections());
+        
+        _storeThresholds(exam.sectionNames, exam.sectionThresholds, names, thresholds, inputProof);
+        
+        emit SectionsUpdated(examId, names, ends);
+    }
+    
+    /// @notice Take points off for wrong answers; blank answers lose nothing and totals never go below zero
+    /// @dev Only possible before the first submission
+    /// @param examId The exam ID
+    /// @param penalties Points lost per wrong answer to each question (at most its score); empty to remove
+    function setPenalties(
+        uint256 examId,
+        uint32[] calldata penalties
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        Exam storage exam = exams[examId];
+        require(penalties.length == 0 || penalties.length == exam.questionCount, InvalidPenalties());
+        delete exam.penalties;
+        for (uint256 i = 0; i < penalties.length; i++) {
+            require(penalties[i] <= exam.questionScores[i], InvalidPenalties());
+            exam.penalties.push(penalties[i]);
+        }
+        
+        emit PenaltiesUpdated(examId, penalties);
+    }
+    
+    /// @notice Grade some questions of an on-chain graded exam by hand, e.g. essays or partial credit
+    /// @dev Only possible before the first submission. Their answers are not compared with the key;
+    ///      they score nothing until the creator grades them with gradeQuestion
+    /// @param examId The exam ID
+    /// @param manualQuestions Bit i set: answer key entry i is graded by hand
+    function setManualQuestions(
+        uint256 examId,
+        uint256 manualQuestions
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        Exam storage exam = exams[examId];
+        require(exam.answerKey.length > 0, NoAnswerKey());
+        require(manualQuestions >> exam.answerKey.length == 0, InvalidQuestionIndex());
+        exam.manualQuestions = manualQuestions;
+        
+        emit ManualQuestionsUpdated(examId, manualQuestions);
+    }
+    
+    /// @notice Fill groups of questions with entries drawn per student from larger pools of the answer key
+    /// @dev Only possible before the first submission. Answer key entries are laid out in question order,
+    ///      with a pool's entries in place of the questions it fills. Each student's draw is derived from
+    ///      keccak256(examId, student), so clients can show the same questions
+    /// @param examId The exam ID
+    /// @param firstQuestions First question each pool fills, ascending
+    /// @param draws Questions each pool fills
+    /// @param sizes Answer key entries each pool draws from (at least its draw); empty arrays remove the pools
+    function setPools(
+        uint256 examId,
+        uint32[] calldata firstQuestions,
+        uint32[] calldata draws,
+        uint32[] calldata sizes
+    ) external onlyExamCreator(examId) beforeSubmissions(examId) {
+        Exam storage exam = exams[examId];
+        require(exam.answerKey.length > 0, NoAnswerKey());
+        require(firstQuestions.length == draws.length && draws.length == sizes.length, InvalidPools());
+        
+        delete exam.pools;
+        uint256 nextQuestion = 0;
+        uint256 extraKeys = 0;
+        for (uint256 i = 0; i < firstQuestions.length; i++) {
+            require(firstQuestions[i] >= nextQuestion && draws[i] > 0 && sizes[i] >= draws[i], InvalidPools());
+            nextQuestion = firstQuestions[i] + draws[i];
+            exam.pools.push(Pool(firstQuestions[i], draws[i], uint32(firstQuestions[i] + extraKeys), sizes[i]));
+            extraKeys += sizes[i] - draws[i];
+        }
+        require(nextQuestion <= exam.questionCount, InvalidPools());
+        require(exam.questionCount + extraKeys == exam.answerKey.length, InvalidPools());
+        
+        emit PoolsUpdated(examId, firstQuestions, draws, sizes);
+    }
+    
+    /// @notice Make the encrypted class statistics publicly decryptable once the exam has ended
+    /// @dev A cancelled exam counts as ended, so results submitted before the cancellation can still
+    ///      be published. The statistics are revealed once and then frozen: two published aggregates
+    ///      that differ by one result would disclose that result, so no question can be regraded after
+    ///      the reveal and totals computed later are not counted
+    /// @param examId The exam ID
+    function revealStatistics(uint256 examId) external onlyExamCreator(examId) {
+        ExamStatus status = _examStatus(exams[examId]);
+        require(status == ExamStatus.Closed || status == ExamStatus.Cancelled, ExamNotEnded());
+        
+        ExamStats storage stats = examStats[examId];
+        require(!stats.isRevealed, StatisticsAlreadyRevealed());
+        require(stats.computedCount > 0, NoResultsToReveal());
+        
+        FHE.makePubliclyDecryptable(stats.totalSum);
+        FHE.makePubliclyDecryptable(stats.passCount);
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            FHE.makePubliclyDecryptable(stats.bucketCounts[i]);
+        }
+        stats.isRevealed = true;
+        
+        emit StatisticsRevealed(examId);
+    }
+    
+    /// @notice Replace a list of labelled encrypted thresholds (grade bands or sections)
+    /// @param storedLabels Stored labels to replace
+    /// @param storedThresholds Stored thresholds to replace, one per label
+    /// @param labels New labels
+    /// @param thresholds New encrypted thresholds, in the same order
+    /// @param inputProof Proof for the encrypted thresholds
+    function _storeThresholds(
+        string[] storage storedLabels,
+        euint32[] storage storedThresholds,
+        string[] calldata labels,
+        externalEuint32[] calldata thresholds,
+        bytes calldata inputProof
+    ) internal {
+        while (storedThresholds.length > 0) {
+            storedThresholds.pop();
+            storedLabels.pop();
+        }
+        for (uint256 i = 0; i < thresholds.length; i++) {
+            euint32 threshold = FHE.fromExternal(thresholds[i], inputProof);
+            storedThresholds.push(threshold);
+            storedLabels.push(labels[i]);
+            FHE.allow(threshold, msg.sender);
+            FHE.allowThis(threshold);
+        }
+    }
+    
+    /// @notice Recompute a student's effective total and pass/fail status and update the class statistics
+    /// @dev Revealed statistics are frozen and left as they are
+    /// @param examId The exam ID
+    /// @param student The student address
+    function _judge(uint256 examId, address student) internal {
+        StudentSubmission storage submission = submissions[examId][student];
+        
+        // Remove the previous result from the class statistics before recomputing
+        ExamStats storage stats = examStats[examId];
+        bool countStats = !stats.isRevealed;
+        if (countStats && submission.isComputed) {
+            _updateStats(stats, _maxTotal(examId), submission.totalScore, submission.isPassed, false);
+        }
+        
+        // Combine the attempt totals under the exam's scoring policy
+        Attempt[] storage attempts = submission.attempts;
+        euint32[] memory attemptTotals = new euint32[](attempts.length);
+        for (uint256 i = 0; i < attempts.length; i++) {
+            attemptTotals[i] = attempts[i].total;
+        }
+        ebool[] memory isBest = new ebool[](attempts.length);
+        euint32 total = _effectiveTotal(exams[examId].scoringPolicy, attemptTotals, isBest);
+        
         // Update total score and re-authorize
+        address creator = exams[examId].creator;
         submission.totalScore = total;
-        FHE.allow(total, student);
-        FHE.allowThis(total);
+        _allowResult(total, student, creator);
         
-        // Judge pass/fail in encrypted state
+        // Judge pass/fail in encrypted state; with sections, every section must pass as well
         ebool passed = FHE.ge(total, exams[examId].passingScore);
+        if (exams[examId].sectionEnds.length > 0) {
+            passed = FHE.and(passed, _judgeSections(exams[examId], submission, student, isBest));
+        }
         submission.isPassed = passed;
+        submission.isComputed = true;
+        
+        // Authorize student and exam creator to decrypt pass/fail status
+        _allowResult(passed, student, creator);
         
-        // Authorize student to decrypt pass/fail status
-        FHE.allow(passed, student);
-        FHE.allowThis(passed);
+        euint32[] storage thresholds = exams[examId].gradeThresholds;
+        if (thresholds.length > 0) {
+            euint32 grade = _gradeIndex(total, thresholds);
+            submission.gradeIndex = grade;
+            _allowResult(grade, student, creator);
+        }
+        
+        if (countStats) {
+            _updateStats(stats, _maxTotal(examId), total, passed, true);
+        }
         
         emit TotalComputed(examId, student);
     }
     
+    /// @notice Recompute a student's section subtotals and section results
+    /// @dev Under the Best policy the subtotals come from the attempt that gave the best total, so
+    ///      every section is judged on one and the same attempt
+    /// @param exam The exam
+    /// @param submission The student's submission
+    /// @param student The student address
+    /// @param isBest Per attempt, whether it replaced the best attempt before it (filled by _judge)
+    /// @return allPassed Encrypted AND of the section results
+    function _judgeSections(
+        Exam storage exam,
+        StudentSubmission storage submission,
+        address student,
+        ebool[] memory isBest
+    ) internal returns (ebool allPassed) {
+        Attempt[] storage attempts = submission.attempts;
+        euint32[] memory attemptSubtotals = new euint32[](attempts.length);
+        delete submission.sectionTotals;
+        delete submission.sectionPassed;
+        allPassed = FHE.asEbool(true);
+        
+        uint256 start = 0;
+        for (uint256 s = 0; s < exam.sectionEnds.length; s++) {
+            uint256 end = exam.sectionEnds[s];
+            uint32 penalties = _penaltySum(exam, start, end);
+            for (uint256 a = 0; a < attempts.length; a++) {
+                attemptSubtotals[a] = _netTotal(attempts[a].scores, start, end, penalties);
+            }
+            // Each section combines its attempt subtotals the same way as the attempt totals
+            euint32 sectionTotal = _effectiveTotal(exam.scoringPolicy, attemptSubtotals, isBest);
+            ebool sectionPassed = FHE.ge(sectionTotal, exam.sectionThresholds[s]);
+            allPassed = FHE.and(allPassed, sectionPassed);
+            
+            submission.sectionTotals.push(sectionTotal);
+            submission.sectionPassed.push(sectionPassed);
+            _allowResult(sectionTotal, student, exam.creator);
+            _allowResult(sectionPassed, student, exam.creator);
+            start = end;
+        }
+    }
+    
+    /// @notice Add a computed result to (or remove it from) the encrypted class statistics
+    /// @param stats The exam statistics
+    /// @param maxTotal Maximum achievable total of the exam
+    /// @param total Encrypted total score
+    /// @param passed Encrypted pass/fail status
+    /// @param add True to add the result, false to remove it
+    function _updateStats(
+        ExamStats storage stats,
+        uint32 maxTotal,
+        euint32 total,
+        ebool passed,
+        bool add
+    ) internal {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        
+        stats.totalSum = _accumulate(stats.totalSum, total, add);
+        stats.passCount = _accumulate(stats.passCount, FHE.select(passed, one, zero), add);
+        FHE.allowThis(stats.totalSum);
+        FHE.allowThis(stats.passCount);
+        
+        for (uint256 i = 0; i < HISTOGRAM_BUCKETS; i++) {
+            ebool inBucket = _inBucket(total, maxTotal, i);
+            stats.bucketCounts[i] = _accumulate(stats.bucketCounts[i], FHE.select(inBucket, one, zero), add);
+            FHE.allowThis(stats.bucketCounts[i]);
+        }
+        
+        stats.computedCount = add ? stats.computedCount + 1 : stats.computedCount - 1;
+    }
+    
+    /// @notice Add or subtract an encrypted value from an encrypted accumulator
+    /// @param acc Encrypted accumulator
+    /// @param value Encrypted value
+    /// @param add True to add the value, false to subtract it
+    /// @return The updated accumulator
+    function _accumulate(euint32 acc, euint32 value, bool add) internal returns (euint32) {
+        return add ? FHE.add(acc, value) : FHE.sub(acc, value);
+    }
+    
+    /// @notice Whether an encrypted total falls into a histogram bucket. Buckets split [0, maxTotal]
+    /// into equal ranges; the last one includes maxTotal.
+    /// @param total Encrypted total score
+    /// @param maxTotal Maximum achievable total of the exam
+    /// @param bucket Bucket index
+    /// @return Encrypted flag, true if the total is in the bucket
+    function _inBucket(euint32 total, uint32 maxTotal, uint256 bucket) internal returns (ebool) {
+        uint32 upper = uint32((uint256(maxTotal) * (bucket + 1)) / HISTOGRAM_BUCKETS);
+        if (bucket == HISTOGRAM_BUCKETS - 1) {
+            return FHE.ge(total, uint32((uint256(maxTotal) * bucket) / HISTOGRAM_BUCKETS));
+        }
+        ebool belowUpper = FHE.lt(total, upper);
+        if (bucket == 0) {
+            return belowUpper;
+        }
+        return FHE.and(FHE.ge(total, uint32((uint256(maxTotal) * bucket) / HISTOGRAM_BUCKETS)), belowUpper);
+    }
+    
+    /// @notice Index of the first grade band whose threshold `total` reaches, or the band count if none
+    /// @dev Walks from the last band to the first, so every band reached overrides the ones below it
+    /// @param total Encrypted total score
+    /// @param thresholds Encrypted minimum total of each band, best band first
+    /// @return grade Encrypted band index
+    function _gradeIndex(euint32 total, euint32[] storage thresholds) internal returns (euint32 grade) {
+        grade = FHE.asEuint32(uint32(thresholds.length));
+        for (uint256 i = thresholds.length; i > 0; i--) {
+            grade = FHE.select(FHE.ge(total, thresholds[i - 1]), FHE.asEuint32(uint32(i - 1)), grade);
+        }
+    }
+    
+    /// @notice Let the student, the exam creator and this contract use an encrypted result
+    /// @param value Encrypted result
+    /// @param student The student address
+    /// @param creator The exam creator
+    function _allowResult(euint32 value, address student, address creator) internal {
+        FHE.allow(value, student);
+        FHE.allow(value, creator);
+        FHE.allowThis(value);
+    }
+    
+    /// @notice Let the student, the exam creator and this contract use an encrypted flag
+    /// @param value Encrypted flag
+    /// @param student The student address
+    /// @param creator The exam creator
+    function _allowResult(ebool value, address student, address creator) internal {
+        FHE.allow(value, student);
+        FHE.allow(value, creator);
+        FHE.allowThis(value);
+    }
+    
+    /// @notice Sum of the penalties of questions [start, end), by which their stored scores are offset
+    /// @param exam The exam
+    /// @param start First question index
+    /// @param end Exclusive end question index
+    /// @return sum Sum of the penalties (0 without negative marking)
+    function _penaltySum(Exam storage exam, uint256 start, uint256 end) internal view returns (uint32 sum) {
+        if (exam.penalties.length == 0) return 0;
+        for (uint256 i = start; i < end; i++) {
+            sum += exam.penalties[i];
+        }
+    }
+    
+    /// @notice Sum of scores [start, end) minus their penalty offset, floored at zero without underflow
+    /// @param scores Encrypted scores of an attempt
+    /// @param start First question index
+    /// @param end Exclusive end question index
+    /// @param penalties Penalty offset of the questions, from _penaltySum
+    /// @return total Encrypted net total
+    function _netTotal(
+        euint32[] storage scores,
+        uint256 start,
+        uint256 end,
+        uint32 penalties
+    ) internal returns (euint32 total) {
+        total = scores[start];
+        for (uint256 i = start + 1; i < end; i++) {
+            total = FHE.add(total, scores[i]);
+        }
+        if (penalties > 0) {
+            euint32 offset = FHE.asEuint32(penalties);
+            total = FHE.sub(FHE.max(total, offset), offset);
+        }
+    }
+    
+    /// @notice Maximum achievable total of an exam (sum of the public question scores)
+    /// @param examId The exam ID
+    /// @return maxTotal Sum of the question scores
+    function _maxTotal(uint256 examId) internal view returns (uint32 maxTotal) {
+        uint32[] storage questionScores = exams[examId].questionScores;
+        for (uint256 i = 0; i < questionScores.length; i++) {
+            maxTotal += questionScores[i];
+        }
+    }
+    
+    /// @notice Effective total of a student's attempt totals (or section subtotals) under `policy`
+    /// @param policy The exam's scoring policy
+    /// @param totals Encrypted total (or subtotal) of each attempt, oldest first
+    /// @param isBest Under Best, whether each attempt beats the ones before it; computed from the
+    ///        totals when empty and reused as is otherwise, so subtotals follow the best total
+    /// @return total Encrypted effective total
+    function _effectiveTotal(
+        ScoringPolicy policy,
+        euint32[] memory totals,
+        ebool[] memory isBest
+    ) internal returns (euint32 total) {
+        uint256 count = totals.length;
+        if (policy == ScoringPolicy.Last) return totals[count - 1];
+        
+        total = totals[0];
+        for (uint256 i = 1; i < count; i++) {
+            if (policy == ScoringPolicy.Best) {
+                if (!FHE.isInitialized(isBest[i])) {
+                    isBest[i] = FHE.gt(totals[i], total);
+                }
+                total = FHE.select(isBest[i], totals[i], total);
+            } else {
+                total = FHE.add(total, totals[i]);
+            }
+        }
+        if (policy == ScoringPolicy.Average && count > 1) {
+            total = FHE.div(total, uint32(count));
+        }
+    }
+    
+    /// @notice Check a sorted-pair Merkle proof for `student` against `root`
+    /// @param proof Sibling hashes from the leaf up
+    /// @param root Merkle root of the allow-list
+    /// @param student The student address
+    /// @return True if the proof is valid
+    function _verifyAllowList(
+        bytes32[] calldata proof,
+        bytes32 root,
+        address student
+    ) internal pure returns (bool) {
+        bytes32 node = keccak256(abi.encodePacked(student));
+        for (uint256 i = 0; i < proof.length; i++) {
+            node = node < proof[i]
+                ? keccak256(abi.encodePacked(node, proof[i]))
+                : keccak256(abi.encodePacked(proof[i], node));
+        }
+        return node == root;
+    }
+    
+    /// @notice Store the public fields of a new exam and emit ExamCreated
+    /// @param title Exam title
+    /// @param questionScores Array of max scores per question (public)
+    /// @param startTime Exam start timestamp
+    /// @param endTime Exam end timestamp
+    /// @return exam The stored exam
+    function _storeExam(
+        string calldata title,
+        uint32[] calldata questionScores,
+        uint256 startTime,
+        uint256 endTime
+    ) internal returns (Exam storage exam) {
+        uint256 examId = nextExamId++;
+        exam = exams[examId];
+        exam.title = title;
+        exam.questionCount = questionScores.length;
+        exam.questionScores = questionScores;
+        exam.startTime = startTime;
+        exam.endTime = endTime;
+        exam.isActive = true;
+        exam.creator = msg.sender;
+        
+        emit ExamCreated(examId, msg.sender, title, questionScores.length, startTime, endTime);
+    }
+    
+    /// @notice Convert and store the encrypted passing score and answer key of a new exam
+    /// @param exam The exam being created
+    /// @param passingScore Encrypted passing score threshold
+    /// @param answerKey Encrypted expected answer per question (may be empty)
+    /// @param inputProof Proof for the encrypted inputs
+    function _storeEncryptedSettings(
+        Exam storage exam,
+        externalEuint32 passingScore,
+        externalEuint32[] calldata answerKey,
+        bytes calldata inputProof
+    ) internal {
+        // Convert encrypted passing score
+        euint32 encryptedPassingScore = FHE.fromExternal(passingScore, inputProof);
+        exam.passingScore = encryptedPassingScore;
+        
+        // Authorize creator to decrypt passing score
+        FHE.allow(encryptedPassingScore, msg.sender);
+        FHE.allowThis(encryptedPassingScore);
+        
+        // Store the answer key; only the creator and this contract may read it
+        for (uint256 i = 0; i < answerKey.length; i++) {
+            euint32 expected = FHE.fromExternal(answerKey[i], inputProof);
+            exam.answerKey.push(expected);
+            FHE.allow(expected, msg.sender);
+            FHE.allowThis(expected);
+        }
+    }
+    
+    /// @notice Encrypted score of one answer checked against the answer key
+    /// @param exam The exam
+    /// @param question Index of the question
+    /// @param key Index of the question's answer key entry
+    /// @param answer The encrypted answer
+    /// @param inputProof Proof for the encrypted answers
+    /// @return The encrypted score, offset by the question's penalty
+    function _gradeAnswer(
+        Exam storage exam,
+        uint256 question,
+        uint256 key,
+        externalEuint32 answer,
+        bytes calldata inputProof
+    ) internal returns (euint32) {
+        // Scores are offset by the penalty, so a wrong answer stores 0 and a blank one the penalty
+        uint32 penalty = _penaltySum(exam, question, question + 1);
+        if ((exam.manualQuestions >> key) & 1 == 1) return FHE.asEuint32(penalty);
+        euint32 value = FHE.fromExternal(answer, inputProof);
+        euint32 zero = FHE.asEuint32(0);
+        euint32 incorrect = penalty == 0 ? zero : FHE.select(FHE.eq(value, zero), FHE.asEuint32(penalty), zero);
+        euint32 correct = FHE.asEuint32(exam.questionScores[question] + penalty);
+        return FHE.select(FHE.eq(value, exam.answerKey[key]), correct, incorrect);
+    }
+    
+    /// @notice Answer key entry of every question for one student
+    /// @param exam The exam
+    /// @param seed keccak256(examId, student)
+    /// @return keys Index into the answer key for each question
+    function _drawKeys(Exam storage exam, bytes32 seed) internal view returns (uint256[] memory keys) {
+        keys = new uint256[](exam.questionCount);
+        uint256 question = 0;
+        uint256 key = 0;
+        for (uint256 p = 0; p < exam.pools.length; p++) {
+            Pool memory pool = exam.pools[p];
+            while (question < pool.firstQuestion) {
+                keys[question++] = key++;
+            }
+            _drawPool(keys, pool, key, seed);
+            question += pool.draw;
+            key += pool.size;
+        }
+        while (question < keys.length) {
+            keys[question++] = key++;
+        }
+    }
+    
+    /// @notice Draw the answer key entries of one pool with a partial Fisher-Yates shuffle
+    /// @param keys Answer key entry of each question, filled in for the pool's questions
+    /// @param pool The pool
+    /// @param key Answer key index of the pool's first entry
+    /// @param seed keccak256(examId, student)
+    function _drawPool(uint256[] memory keys, Pool memory pool, uint256 key, bytes32 seed) internal pure {
+        uint256[] memory order = new uint256[](pool.size);
+        for (uint256 i = 0; i < pool.size; i++) {
+            order[i] = i;
+        }
+        for (uint256 j = 0; j < pool.draw; j++) {
+            uint256 r = j + uint256(keccak256(abi.encodePacked(seed, uint256(pool.firstKey), j))) % (pool.size - j);
+            (order[j], order[r]) = (order[r], order[j]);
+            keys[pool.firstQuestion + j] = key + order[j];
+        }
+    }
+    
+    /// @notice Revert unless msg.sender has an attempt left; expired timed attempts count as used
+    /// @param examId The exam ID
+    function _requireAttemptsLeft(uint256 examId) internal view {
+        uint8 limit = exams[examId].maxAttempts;
+        uint256 used = submissions[examId][msg.sender].attempts.length + expiredAttempts[examId][msg.sender];
+        require(used < (limit == 0 ? 1 : limit), NoAttemptsLeft());
+    }
+    
+    /// @notice Store a graded attempt for msg.sender
+    /// @param examId The exam ID
+    /// @param encryptedScores Encrypted score per question
+    /// @param wasClamped Encrypted flag set when a submitted score had to be clamped
+    function _recordSubmission(uint256 examId, euint32[] memory encryptedScores, ebool wasClamped) internal {
+        StudentSubmission storage submission = submissions[examId][msg.sender];
+        
+        // The previous effective total no longer counts until it is recomputed with this attempt
+        if (submission.isComputed) {
+            _updateStats(examStats[examId], _maxTotal(examId), submission.totalScore, submission.isPassed, false);
+            submission.isComputed = false;
+        }
+        
+        _storeAttempt(submission.attempts.push(), encryptedScores, wasClamped, exams[examId]);
+        submission.submittedAt = block.timestamp;
+        // The next attempt of a timed exam needs a new start
+        delete attemptStartedAt[examId][msg.sender];
+        
+        if (!submission.exists) {
+            submission.exists = true;
+            hasSubmitted[examId][msg.sender] = true;
+            
+            // Track student list and the student's exams
+            examStudents[examId].push(msg.sender);
+            studentExams[msg.sender].push(examId);
+        }
+        
+        emit AnswersSubmitted(examId, msg.sender, block.timestamp);
+    }
+    
+    /// @notice Fill in a new attempt, sum its scores and grant ACLs on them
+    /// @param attempt The attempt being recorded
+    /// @param encryptedScores Encrypted score per question
+    /// @param wasClamped Encrypted flag set when a submitted score had to be clamped
+    /// @param exam The exam, for its creator and penalties
+    function _storeAttempt(
+        Attempt storage attempt,
+        euint32[] memory encryptedScores,
+        ebool wasClamped,
+        Exam storage exam
+    ) internal {
+        attempt.scores = encryptedScores;
+        attempt.wasClamped = wasClamped;
+        attempt.submittedAt = block.timestamp;
+        
+        // Authorize student and exam creator to decrypt the scores and the attempt total
+        address creator = exam.creator;
+        for (uint256 i = 0; i < encryptedScores.length; i++) {
+            _allowResult(encryptedScores[i], msg.sender, creator);
+        }
+        uint256 count = encryptedScores.length;
+        euint32 total = _netTotal(attempt.scores, 0, count, _penaltySum(exam, 0, count));
+        attempt.total = total;
+        _allowResult(total, msg.sender, creator);
+        
+        // Only the exam creator may learn whether the submission was clamped
+        FHE.allow(wasClamped, creator);
+        FHE.allowThis(wasClamped);
+    }
+    
     /// @notice Get encrypted total score for a student
     /// @param examId The exam ID
     /// @param student The student address
@@ -213,7 +1402,7 @@ contract CipherExam is ZamaEthereumConfig {
         view 
         returns (euint32) 
     {
-        require(submissions[examId][student].exists, "No submission found");
+        require(submissions[examId][student].exists, SubmissionNotFound());
         return submissions[examId][student].totalScore;
     }
     
@@ -226,11 +1415,34 @@ contract CipherExam is ZamaEthereumConfig {
         view 
         returns (ebool) 
     {
-        require(submissions[examId][student].exists, "No submission found");
+        require(submissions[examId][student].exists, SubmissionNotFound());
         return submissions[examId][student].isPassed;
     }
     
-    /// @notice Get encrypted scores array for a student
+    /// @notice Get the encrypted grade band index of a student; decrypts to the band count below every band
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @return Encrypted index into the exam's grade labels
+    function getGradeIndex(uint256 examId, address student) external view returns (euint32) {
+        require(submissions[examId][student].exists, SubmissionNotFound());
+        return submissions[examId][student].gradeIndex;
+    }
+    
+    /// @notice Get the encrypted "was clamped" flag of the latest attempt (decryptable by the exam creator)
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @return Encrypted flag, true if any submitted score exceeded its question max
+    function getClampedFlag(uint256 examId, address student) 
+        external 
+        view 
+        returns (ebool) 
+    {
+        require(submissions[examId][student].exists, SubmissionNotFound());
+        Attempt[] storage attempts = submissions[examId][student].attempts;
+        return attempts[attempts.length - 1].wasClamped;
+    }
+    
+    /// @notice Get encrypted scores array of the latest attempt
     /// @param examId The exam ID
     /// @param student The student address
     /// @return Array of encrypted scores
@@ -239,12 +1451,136 @@ contract CipherExam is ZamaEthereumConfig {
         view 
         returns (euint32[] memory) 
     {
-        require(submissions[examId][student].exists, "No submission found");
-        return submissions[examId][student].scores;
+        require(submissions[examId][student].exists, SubmissionNotFound());
+        Attempt[] storage attempts = submissions[examId][student].attempts;
+        return attempts[attempts.length - 1].scores;
+    }
+    
+    /// @notice Get the timestamps and encrypted totals of every attempt of a student
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @return submittedAt Time of each attempt, oldest first
+    /// @return totals Encrypted total of each attempt
+    function getAttempts(uint256 examId, address student)
+        external
+        view
+        returns (uint256[] memory submittedAt, euint32[] memory totals)
+    {
+        require(submissions[examId][student].exists, SubmissionNotFound());
+        Attempt[] storage attempts = submissions[examId][student].attempts;
+        submittedAt = new uint256[](attempts.length);
+        totals = new euint32[](attempts.length);
+        for (uint256 i = 0; i < attempts.length; i++) {
+            submittedAt[i] = attempts[i].submittedAt;
+            totals[i] = attempts[i].total;
+        }
+    }
+    
+    /// @notice Get the attempt settings of an exam
+    /// @param examId The exam ID
+    /// @return maxAttempts Attempts allowed per student
+    /// @return scoringPolicy How the attempts combine into the effective total
+    function getAttemptPolicy(uint256 examId) external view returns (uint8 maxAttempts, ScoringPolicy scoringPolicy) {
+        require(exams[examId].isActive, ExamNotFound());
+        Exam storage exam = exams[examId];
+        return (exam.maxAttempts == 0 ? 1 : exam.maxAttempts, exam.scoringPolicy);
+    }
+    
+    /// @notice Get the time limit of an exam and when a student started their current attempt
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @return durationSeconds Time allowed per attempt (0 = no limit)
+    /// @return startedAt Start of the student's current attempt (0 = not started)
+    /// @return expired Attempts the student started but never submitted in time
+    function getTimeLimit(uint256 examId, address student)
+        external
+        view
+        returns (uint32 durationSeconds, uint256 startedAt, uint256 expired)
+    {
+        require(exams[examId].isActive, ExamNotFound());
+        return (exams[examId].durationSeconds, attemptStartedAt[examId][student], expiredAttempts[examId][student]);
+    }
+    
+    /// @notice Get the shuffle settings of an exam
+    /// @param examId The exam ID
+    /// @return shuffleQuestions Whether the question order is shuffled per student
+    /// @return shuffleOptions Whether the option order is shuffled per student
+    function getShuffle(uint256 examId) external view returns (bool shuffleQuestions, bool shuffleOptions) {
+        require(exams[examId].isActive, ExamNotFound());
+        return (exams[examId].shuffleQuestions, exams[examId].shuffleOptions);
+    }
+    
+    /// @notice Get the grade band labels of an exam, best band first
+    /// @param examId The exam ID
+    /// @return labels Label of each band (empty = the exam has no grades)
+    function getGradeBands(uint256 examId) external view returns (string[] memory labels) {
+        require(exams[examId].isActive, ExamNotFound());
+        return exams[examId].gradeLabels;
+    }
+    
+    /// @notice Get the negative marking of an exam
+    /// @param examId The exam ID
+    /// @return penalties Points lost per wrong answer to each question (empty = no negative marking)
+    function getPenalties(uint256 examId) external view returns (uint32[] memory penalties) {
+        require(exams[examId].isActive, ExamNotFound());
+        return exams[examId].penalties;
+    }
+    
+    /// @notice Get the sections of an exam
+    /// @param examId The exam ID
+    /// @return names Name of each section (empty = the exam has no sections)
+    /// @return ends Exclusive end question index of each section
+    function getSections(uint256 examId) external view returns (string[] memory names, uint32[] memory ends) {
+        require(exams[examId].isActive, ExamNotFound());
+        return (exams[examId].sectionNames, exams[examId].sectionEnds);
+    }
+    
+    /// @notice Get a student's encrypted section subtotals and section results (empty until computed)
+    /// @param examId The exam ID
+    /// @param student The student address
+    /// @return totals Encrypted effective subtotal of each section
+    /// @return passed Encrypted pass/fail status of each section
+    function getSectionResults(uint256 examId, address student)
+        external
+        view
+        returns (euint32[] memory totals, ebool[] memory passed)
+    {
+        require(submissions[examId][student].exists, SubmissionNotFound());
+        return (submissions[examId][student].sectionTotals, submissions[examId][student].sectionPassed);
+    }
+    
+    /// @notice Get the encrypted class statistics of an exam
+    /// @param examId The exam ID
+    /// @return totalSum Encrypted sum of computed totals
+    /// @return passCount Encrypted number of passing students
+    /// @return bucketCounts Encrypted number of totals per score bucket
+    /// @return computedCount Number of submissions counted in the stats
+    /// @return isRevealed True once the handles are publicly decryptable
+    function getExamStatistics(uint256 examId)
+        external
+        view
+        returns (
+            euint32 totalSum,
+            euint32 passCount,
+            euint32[HISTOGRAM_BUCKETS] memory bucketCounts,
+            uint256 computedCount,
+            bool isRevealed
+        )
+    {
+        require(exams[examId].isActive, ExamNotFound());
+        ExamStats storage stats = examStats[examId];
+        return (stats.totalSum, stats.passCount, stats.bucketCounts, stats.computedCount, stats.isRevealed);
     }
     
     /// @notice Get exam info (public fields)
     /// @param examId The exam ID
+    /// @return title Exam title
+    /// @return questionCount Number of questions
+    /// @return questionScores Max score of each question
+    /// @return startTime Exam start timestamp
+    /// @return endTime Exam end timestamp
+    /// @return isActive True for every created exam
+    /// @return creator The exam creator
     function getExamInfo(uint256 examId) 
         external 
         view 
@@ -259,7 +1595,7 @@ contract CipherExam is ZamaEthereumConfig {
         ) 
     {
         Exam storage exam = exams[examId];
-        require(exam.isActive, "Exam does not exist");
+        require(exam.isActive, ExamNotFound());
         return (
             exam.title,
             exam.questionCount,
@@ -273,13 +1609,17 @@ contract CipherExam is ZamaEthereumConfig {
     
     /// @notice Get exam status (for UI display)
     /// @param examId The exam ID
-    /// @return status: 0 = not started, 1 = in progress, 2 = ended
-    function getExamStatus(uint256 examId) external view returns (uint8) {
-        Exam storage exam = exams[examId];
-        if (!exam.isActive) return 0;
-        if (block.timestamp < exam.startTime) return 0; // Not started
-        if (block.timestamp > exam.endTime) return 2; // Ended
-        return 1; // In progress
+    /// @return status Scheduled, Open, Closed or Cancelled
+    function getExamStatus(uint256 examId) external view returns (ExamStatus) {
+        require(exams[examId].isActive, ExamNotFound());
+        return _examStatus(exams[examId]);
+    }
+    
+    /// @notice Get every exam a student submitted to
+    /// @param student The student address
+    /// @return IDs of the exams, in order of the student's first submission
+    function getStudentExams(address student) external view returns (uint256[] memory) {
+        return studentExams[student];
     }
     
     /// @notice Get list of students who submitted
@@ -289,6 +1629,49 @@ contract CipherExam is ZamaEthereumConfig {
         return examStudents[examId];
     }
     
+    /// @notice Get the hash of an exam's question content
+    /// @param examId The exam ID
+    /// @return keccak256 of the canonical question JSON (without answers)
+    function getContentHash(uint256 examId) external view returns (bytes32) {
+        require(exams[examId].isActive, ExamNotFound());
+        return exams[examId].contentHash;
+    }
+    
+    /// @notice Get the access restrictions of an exam
+    /// @param examId The exam ID
+    /// @return allowListRoot Merkle root of allowed students (0 = none)
+    /// @return inviteCodeHash keccak256 of the invite code (0 = none)
+    function getAccessRules(uint256 examId) external view returns (bytes32 allowListRoot, bytes32 inviteCodeHash) {
+        require(exams[examId].isActive, ExamNotFound());
+        return (exams[examId].allowListRoot, exams[examId].inviteCodeHash);
+    }
+    
+    /// @notice Whether an exam is graded on-chain against an encrypted answer key
+    /// @param examId The exam ID
+    /// @return True if answers must be submitted through submitEncryptedAnswers
+    function isGradedOnChain(uint256 examId) external view returns (bool) {
+        require(exams[examId].isActive, ExamNotFound());
+        return exams[examId].answerKey.length > 0;
+    }
+    
+    /// @notice Revert unless the exam is scheduled or open and nobody has submitted yet
+    /// @param examId The exam ID
+    function _requireBeforeSubmissions(uint256 examId) internal view {
+        ExamStatus status = _examStatus(exams[examId]);
+        require(status == ExamStatus.Scheduled || status == ExamStatus.Open, ExamAlreadyFinished());
+        require(examStudents[examId].length == 0, ExamHasSubmissions());
+    }
+    
+    /// @notice Lifecycle status of an existing exam; a draft stays Scheduled until it is published
+    /// @param exam The exam
+    /// @return Scheduled, Open, Closed or Cancelled
+    function _examStatus(Exam storage exam) internal view returns (ExamStatus) {
+        if (exam.isCancelled) return ExamStatus.Cancelled;
+        if (exam.isClosed || block.timestamp > exam.endTime) return ExamStatus.Closed;
+        if (exam.isDraft || block.timestamp < exam.startTime) return ExamStatus.Scheduled;
+        return ExamStatus.Open;
+    }
+    
     /// @notice Get the next exam ID (total number of exams created)
     /// @return The next exam ID (which is also the total count)
     function getNextExamId() external view returns (uint256) {
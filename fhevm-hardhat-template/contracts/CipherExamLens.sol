@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {CipherExam} from "./CipherExam.sol";
+
+/// @title CipherExamLens - Batch views over CipherExam
+/// @author CipherExam dApp
+/// @notice Read-only helpers that gather many exams or submissions in one call. They live in their
+///         own contract so CipherExam stays under the EIP-170 code size limit
+contract CipherExamLens {
+    // ============ Constants ============
+
+    /// @notice Maximum number of exams returned by one getExamsPage call
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    // ============ Structs ============
+
+    /// @notice Public fields of an exam, as returned by getExamsPage
+    struct ExamSummary {
+        uint256 id;
+        string title;
+        address creator;
+        uint256 questionCount;
+        uint256 startTime;
+        uint256 endTime;
+        CipherExam.ExamStatus status;
+        bool isDraft; // Created but not published yet; reported as Scheduled by status
+    }
+
+    /// @notice A student's submission to one exam, as returned by getSubmissionsOf
+    struct SubmissionSummary {
+        uint256 examId;
+        uint256 submittedAt; // Time of the latest attempt
+        uint256[] attemptTimes; // Time of every attempt, oldest first
+        bool isComputed;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice The exam contract this lens reads from
+    CipherExam public immutable CIPHER_EXAM;
+
+    // ============ Functions ============
+
+    /// @notice Create a lens over an exam contract
+    /// @param cipherExam The exam contract to read from
+    constructor(CipherExam cipherExam) {
+        CIPHER_EXAM = cipherExam;
+    }
+
+    /// @notice Get the public fields of a range of exams
+    /// @param offset First exam ID to return
+    /// @param limit Maximum number of exams to return (capped at MAX_PAGE_SIZE)
+    /// @return page Exams with IDs in [offset, offset + limit), stopping at nextExamId
+    function getExamsPage(uint256 offset, uint256 limit) external view returns (ExamSummary[] memory page) {
+        uint256 examCount = CIPHER_EXAM.nextExamId();
+        if (offset >= examCount) return new ExamSummary[](0);
+        if (limit > MAX_PAGE_SIZE) limit = MAX_PAGE_SIZE;
+        uint256 end = offset + limit > examCount ? examCount : offset + limit;
+
+        page = new ExamSummary[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            ExamSummary memory summary = page[i - offset];
+            summary.id = i;
+            (
+                summary.title,
+                summary.questionCount,
+                ,
+                summary.startTime,
+                summary.endTime,
+                ,
+                summary.creator
+            ) = CIPHER_EXAM.getExamInfo(i);
+            summary.status = CIPHER_EXAM.getExamStatus(i);
+            (, , , , , , , , , , , , , , , , , summary.isDraft, ) = CIPHER_EXAM.exams(i);
+        }
+    }
+
+    /// @notice Get every exam a student submitted to
+    /// @param student The student address
+    /// @return Submissions of the student, in submission order
+    function getSubmissionsOf(address student) external view returns (SubmissionSummary[] memory) {
+        uint256[] memory examIds = CIPHER_EXAM.getStudentExams(student);
+        SubmissionSummary[] memory result = new SubmissionSummary[](examIds.length);
+        for (uint256 i = 0; i < examIds.length; i++) {
+            SubmissionSummary memory summary = result[i];
+            summary.examId = examIds[i];
+            (summary.attemptTimes, ) = CIPHER_EXAM.getAttempts(examIds[i], student);
+            (, , , summary.submittedAt, , summary.isComputed) = CIPHER_EXAM.submissions(examIds[i], student);
+        }
+        return result;
+    }
+}
@@ -11,9 +11,15 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   });
 
   console.log(`CipherExam contract: `, deployedCipherExam.address);
+
+  const deployedCipherExamLens = await deploy("CipherExamLens", {
+    from: deployer,
+    args: [deployedCipherExam.address],
+    log: true,
+  });
+
+  console.log(`CipherExamLens contract: `, deployedCipherExamLens.address);
 };
 export default func;
 func.id = "deploy_cipherExam"; // id required to prevent reexecution
 func.tags = ["CipherExam"];
-
-
@@ -80,6 +80,8 @@ const config: HardhatUserConfig = {
         runs: 800,
       },
       evmVersion: "cancun",
+      // CipherExam.createExam takes many calldata arguments; the IR pipeline avoids "stack too deep"
+      viaIR: true,
     },
   },
   typechain: {
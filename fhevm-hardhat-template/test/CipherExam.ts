@@ -1,6 +1,6 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
-import { CipherExam, CipherExam__factory } from "../types";
+import { CipherExam, CipherExam__factory, CipherExamLens } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
@@ -11,6 +11,10 @@ type Signers = {
   student: HardhatEthersSigner;
 };
 
+const contentHash = ethers.id("exam content");
+// Allow-list proof and invite code for exams without access restrictions
+const openAccess: [string[], string] = [[], ethers.ZeroHash];
+
 async function deployFixture() {
   const factory = (await ethers.getContractFactory("CipherExam")) as CipherExam__factory;
   const contract = (await factory.deploy()) as CipherExam;
@@ -59,12 +63,15 @@ describe("CipherExam", function () {
         .connect(signers.teacher)
         .createExam(
           title,
+          contentHash,
           questionCount,
           encryptedPassingScore.handles[0],
+          [],
           encryptedPassingScore.inputProof,
           questionScores,
           startTime,
-          endTime
+          endTime,
+          false
         );
       await tx.wait();
 
@@ -74,6 +81,7 @@ describe("CipherExam", function () {
       expect(examInfo.questionCount).to.eq(questionCount);
       expect(examInfo.questionScores.length).to.eq(3);
       expect(examInfo.questionScores[0]).to.eq(30);
+      expect(await contract.getContentHash(0)).to.eq(contentHash);
     });
 
     it("should reject invalid question count", async function () {
@@ -90,14 +98,17 @@ describe("CipherExam", function () {
           .connect(signers.teacher)
           .createExam(
             "Test",
+            contentHash,
             101, // Invalid: > 100
             encryptedPassingScore.handles[0],
+            [],
             encryptedPassingScore.inputProof,
             [50, 50],
             startTime,
-            endTime
+            endTime,
+            false
           )
-      ).to.be.revertedWith("Invalid question count");
+      ).to.be.revertedWithCustomError(contract, "InvalidQuestionCount");
     });
   });
 
@@ -120,12 +131,15 @@ describe("CipherExam", function () {
         .connect(signers.teacher)
         .createExam(
           "Test Exam",
+          contentHash,
           3,
           encryptedPassingScore.handles[0],
+          [],
           encryptedPassingScore.inputProof,
           questionScores,
           startTime,
-          endTime
+          endTime,
+          false
         );
       await tx.wait();
 
@@ -153,7 +167,8 @@ describe("CipherExam", function () {
         .submitAnswers(
           examId,
           encrypted.handles,
-          encrypted.inputProof
+          encrypted.inputProof,
+          ...openAccess
         );
       await tx.wait();
 
@@ -163,6 +178,59 @@ describe("CipherExam", function () {
       expect(submission.submittedAt).to.be.gt(0);
     });
 
+    it("should clamp over-max scores and flag the submission for the creator", async function () {
+      // Q1 claims 50 of 30 points: clamped to 30, total 30 + 28 + 35 = 93
+      const scores = [50, 28, 35];
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      scores.forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      const encryptedScores = await contract.getMyScores(examId, signers.student.address);
+      const clearFirst = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedScores[0],
+        contractAddress,
+        signers.student
+      );
+      expect(clearFirst).to.eq(30);
+
+      await contract
+        .connect(signers.student)
+        .computeTotalAndJudge(examId, signers.student.address);
+
+      const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+      const clearTotal = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedTotal,
+        contractAddress,
+        signers.student
+      );
+      expect(clearTotal).to.eq(93);
+
+      const encryptedClamped = await contract.getClampedFlag(examId, signers.student.address);
+      const clearClamped = await fhevm.userDecryptEbool(encryptedClamped, contractAddress, signers.teacher);
+      expect(clearClamped).to.eq(true);
+    });
+
+    it("should not flag an in-range submission", async function () {
+      const scores = [30, 30, 40];
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      scores.forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      const encryptedClamped = await contract.getClampedFlag(examId, signers.student.address);
+      const clearClamped = await fhevm.userDecryptEbool(encryptedClamped, contractAddress, signers.teacher);
+      expect(clearClamped).to.eq(false);
+    });
+
     it("should reject submission if exam not in progress", async function () {
       // Create an exam that hasn't started
       const currentTime = await time.latest();
@@ -178,12 +246,15 @@ describe("CipherExam", function () {
         .connect(signers.teacher)
         .createExam(
           "Future Exam",
+          contentHash,
           2,
           encryptedPassingScore.handles[0],
+          [],
           encryptedPassingScore.inputProof,
           [50, 50],
           startTime,
-          endTime
+          endTime,
+          false
         );
 
       const scores = [40, 45];
@@ -195,8 +266,8 @@ describe("CipherExam", function () {
       await expect(
         contract
           .connect(signers.student)
-          .submitAnswers(1n, encrypted.handles, encrypted.inputProof)
-      ).to.be.revertedWith("Exam is not in progress");
+          .submitAnswers(1n, encrypted.handles, encrypted.inputProof, ...openAccess)
+      ).to.be.revertedWithCustomError(contract, "ExamNotInProgress");
     });
   });
 
@@ -219,12 +290,15 @@ describe("CipherExam", function () {
         .connect(signers.teacher)
         .createExam(
           "Test Exam",
+          contentHash,
           3,
           encryptedPassingScore.handles[0],
+          [],
           encryptedPassingScore.inputProof,
           questionScores,
           startTime,
-          endTime
+          endTime,
+          false
         );
 
       // Move time forward to exam start time
@@ -241,7 +315,7 @@ describe("CipherExam", function () {
 
       await contract
         .connect(signers.student)
-        .submitAnswers(examId, encrypted.handles, encrypted.inputProof);
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
     });
 
     it("should compute total score and judge pass/fail in encrypted state", async function () {
@@ -275,6 +349,37 @@ describe("CipherExam", function () {
       expect(clearPassed).to.be.true;
     });
 
+    it("should let the exam creator decrypt a student's results", async function () {
+      await contract
+        .connect(signers.student)
+        .computeTotalAndJudge(examId, signers.student.address);
+
+      const submission = await contract.submissions(examId, signers.student.address);
+      expect(submission.isComputed).to.eq(true);
+
+      const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+      const clearTotal = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedTotal,
+        contractAddress,
+        signers.teacher
+      );
+      expect(clearTotal).to.eq(88);
+
+      const encryptedPassed = await contract.getMyPassedStatus(examId, signers.student.address);
+      const clearPassed = await fhevm.userDecryptEbool(encryptedPassed, contractAddress, signers.teacher);
+      expect(clearPassed).to.eq(true);
+
+      const encryptedScores = await contract.getMyScores(examId, signers.student.address);
+      const clearFirst = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedScores[0],
+        contractAddress,
+        signers.teacher
+      );
+      expect(clearFirst).to.eq(25);
+    });
+
     it("should correctly identify failing score", async function () {
       // Another student with failing score: 20, 20, 15 = 55 total (< 60)
       const failingScores = [20, 20, 15];
@@ -285,7 +390,7 @@ describe("CipherExam", function () {
 
       await contract
         .connect(signers.teacher)
-        .submitAnswers(examId, encrypted.handles, encrypted.inputProof);
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
 
       await contract
         .connect(signers.teacher)
@@ -300,6 +405,1538 @@ describe("CipherExam", function () {
       expect(clearPassed).to.be.false;
     });
   });
-});
 
+  describe("On-chain Grading", function () {
+    let examId: bigint;
+    const questionScores = [30, 30, 40];
+    // Answers are option bitmasks: Q1 = option 0, Q2 = option 2, Q3 = options 1 and 2
+    const answerKey = [1, 4, 6];
+
+    beforeEach(async function () {
+      const currentTime = await time.latest();
+      const startTime = currentTime + 10;
+      const endTime = currentTime + 3600;
+
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(60);
+      answerKey.forEach((k) => encryptedInput.add32(k));
+      const encrypted = await encryptedInput.encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Graded Exam",
+          contentHash,
+          3,
+          encrypted.handles[0],
+          encrypted.handles.slice(1),
+          encrypted.inputProof,
+          questionScores,
+          startTime,
+          endTime,
+          false
+        );
+
+      await time.increaseTo(startTime);
+
+      examId = 0n;
+    });
+
+    it("should report the exam as graded on-chain", async function () {
+      expect(await contract.isGradedOnChain(examId)).to.eq(true);
+    });
+
+    it("should grade encrypted answers against the answer key", async function () {
+      // Q2 is wrong: 30 + 0 + 40 = 70
+      const answers = [1, 2, 6];
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      answers.forEach((a) => encryptedInput.add32(a));
+      const encrypted = await encryptedInput.encrypt();
+
+      await contract
+        .connect(signers.student)
+        .submitEncryptedAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      const encryptedScores = await contract.getMyScores(examId, signers.student.address);
+      const clearScores: bigint[] = [];
+      for (const handle of encryptedScores) {
+        clearScores.push(
+          await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.student)
+        );
+      }
+      expect(clearScores).to.deep.eq([30n, 0n, 40n]);
+
+      await contract
+        .connect(signers.student)
+        .computeTotalAndJudge(examId, signers.student.address);
+
+      const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+      const clearTotal = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedTotal,
+        contractAddress,
+        signers.student
+      );
+      expect(clearTotal).to.eq(70);
+    });
+
+    it("should grade choice questions on-chain and an essay by hand in one exam", async function () {
+      await expect(contract.connect(signers.student).setManualQuestions(examId, 4)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+      await expect(contract.connect(signers.teacher).setManualQuestions(examId, 8)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidQuestionIndex"
+      );
+      // Q3 becomes an essay; even an answer equal to its key scores nothing until it is graded
+      await expect(contract.connect(signers.teacher).setManualQuestions(examId, 4))
+        .to.emit(contract, "ManualQuestionsUpdated")
+        .withArgs(examId, 4);
+
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      [1, 4, 6].forEach((a) => encryptedInput.add32(a));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitEncryptedAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+
+      const decryptTotal = async () => {
+        const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+        return fhevm.userDecryptEuint(FhevmType.euint32, encryptedTotal, contractAddress, signers.student);
+      };
+      expect(await decryptTotal()).to.eq(60);
+
+      const grade = await fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(25).encrypt();
+      await contract
+        .connect(signers.teacher)
+        .gradeQuestion(examId, signers.student.address, 0, 2, grade.handles[0], grade.inputProof);
+      expect(await decryptTotal()).to.eq(85);
+    });
+
+    it("should reject self-computed scores for a graded exam", async function () {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      questionScores.forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+
+      await expect(
+        contract
+          .connect(signers.student)
+          .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess)
+      ).to.be.revertedWithCustomError(contract, "ExamGradedOnChain");
+    });
+
+    it("should reject encrypted answers for a self-scored exam", async function () {
+      const currentTime = await time.latest();
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Self-scored Exam",
+          contentHash,
+          1,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [100],
+          currentTime + 10,
+          currentTime + 3600,
+          false
+        );
+      await time.increaseTo(currentTime + 10);
+
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.student.address)
+        .add32(1)
+        .encrypt();
+
+      await expect(
+        contract
+          .connect(signers.student)
+          .submitEncryptedAnswers(1n, encrypted.handles, encrypted.inputProof, ...openAccess)
+      ).to.be.revertedWithCustomError(contract, "NoAnswerKey");
+    });
+  });
+
+  describe("Question Pools", function () {
+    let examId: bigint;
+    const questionScores = [30, 30, 40];
+    // Q1 has its own entry; Q2 and Q3 draw two of the four pool entries
+    const answerKey = [1, 10, 20, 30, 40];
+
+    // Answer key entries drawn for a student, mirroring the contract's partial Fisher-Yates shuffle
+    function drawKeys(student: string): number[] {
+      const seed = ethers.solidityPackedKeccak256(["uint256", "address"], [examId, student]);
+      const order = [0, 1, 2, 3];
+      for (let j = 0; j < 2; j++) {
+        const hash = BigInt(ethers.solidityPackedKeccak256(["bytes32", "uint256", "uint256"], [seed, 1, j]));
+        const r = j + Number(hash % BigInt(order.length - j));
+        [order[j], order[r]] = [order[r], order[j]];
+      }
+      return [0, 1 + order[0], 1 + order[1]];
+    }
+
+    beforeEach(async function () {
+      const currentTime = await time.latest();
+      const startTime = currentTime + 10;
+
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(60);
+      answerKey.forEach((k) => encryptedInput.add32(k));
+      const encrypted = await encryptedInput.encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Pooled Exam",
+          contentHash,
+          3,
+          encrypted.handles[0],
+          encrypted.handles.slice(1),
+          encrypted.inputProof,
+          questionScores,
+          startTime,
+          currentTime + 3600,
+          false
+        );
+
+      examId = 0n;
+    });
+
+    it("should validate pool layouts", async function () {
+      await expect(contract.connect(signers.student).setPools(examId, [1], [2], [4])).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+      const teacher = contract.connect(signers.teacher);
+      await expect(teacher.setPools(examId, [1], [2], [3])).to.be.revertedWithCustomError(contract, "InvalidPools");
+      await expect(teacher.setPools(examId, [1], [3], [2])).to.be.revertedWithCustomError(contract, "InvalidPools");
+      await expect(teacher.setPools(examId, [2], [2], [4])).to.be.revertedWithCustomError(contract, "InvalidPools");
+      await expect(teacher.setPools(examId, [1, 1], [1, 1], [2, 3])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidPools"
+      );
+      await expect(teacher.setPools(examId, [1], [2], [4]))
+        .to.emit(contract, "PoolsUpdated")
+        .withArgs(examId, [1], [2], [4]);
+    });
+
+    it("should grade each student's drawn questions against their answer key entries", async function () {
+      await contract.connect(signers.teacher).setPools(examId, [1], [2], [4]);
+      await time.increase(10);
+
+      // Q1 and Q2 are right, Q3 is wrong: 30 + 30 + 0 = 60
+      const keys = drawKeys(signers.student.address);
+      const answers = [answerKey[keys[0]], answerKey[keys[1]], answerKey[keys[1]]];
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      answers.forEach((a) => encryptedInput.add32(a));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitEncryptedAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+
+      const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+      const clearTotal = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedTotal,
+        contractAddress,
+        signers.student
+      );
+      expect(clearTotal).to.eq(60);
+    });
+  });
+
+  describe("Class Statistics", function () {
+    let examId: bigint;
+    let endTime: number;
+    const questionScores = [30, 30, 40];
+
+    async function submitAndCompute(signer: HardhatEthersSigner, scores: number[]) {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signer.address);
+      scores.forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+
+      await contract.connect(signer).submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await contract.connect(signer).computeTotalAndJudge(examId, signer.address);
+    }
+
+    beforeEach(async function () {
+      const currentTime = await time.latest();
+      const startTime = currentTime + 10;
+      endTime = currentTime + 3600;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Stats Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          questionScores,
+          startTime,
+          endTime,
+          false
+        );
+
+      await time.increaseTo(startTime);
+
+      examId = 0n;
+
+      // 88 (passed, bucket 80-100) and 55 (failed, bucket 40-59)
+      await submitAndCompute(signers.student, [25, 28, 35]);
+      await submitAndCompute(signers.deployer, [20, 20, 15]);
+    });
+
+    it("should reject revealing statistics before the exam ends", async function () {
+      await expect(contract.connect(signers.teacher).revealStatistics(examId)).to.be.revertedWithCustomError(
+        contract,
+        "ExamNotEnded"
+      );
+    });
+
+    it("should reveal statistics of a cancelled exam", async function () {
+      await contract.connect(signers.teacher).cancelExam(examId);
+      await contract.connect(signers.teacher).revealStatistics(examId);
+
+      const stats = await contract.getExamStatistics(examId);
+      expect(stats.isRevealed).to.eq(true);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, stats.totalSum)).to.eq(143);
+    });
+
+    it("should freeze revealed statistics and the results they count", async function () {
+      await time.increaseTo(endTime + 1);
+      const teacher = contract.connect(signers.teacher);
+      await teacher.revealStatistics(examId);
+      const revealed = await contract.getExamStatistics(examId);
+
+      await expect(teacher.revealStatistics(examId)).to.be.revertedWithCustomError(
+        contract,
+        "StatisticsAlreadyRevealed"
+      );
+      const grade = await fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(0).encrypt();
+      await expect(
+        teacher.gradeQuestion(examId, signers.student.address, 0, 0, grade.handles[0], grade.inputProof)
+      ).to.be.revertedWithCustomError(contract, "StatisticsAlreadyRevealed");
+
+      // A later computation leaves the published handles in place
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+      const stats = await contract.getExamStatistics(examId);
+      expect(stats.totalSum).to.eq(revealed.totalSum);
+      expect(stats.computedCount).to.eq(2);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, stats.totalSum)).to.eq(143);
+    });
+
+    it("should only let the creator reveal statistics", async function () {
+      await time.increaseTo(endTime + 1);
+      await expect(contract.connect(signers.student).revealStatistics(examId)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+    });
+
+    it("should publicly reveal sum, pass count and histogram after the exam ends", async function () {
+      // Recomputing a total must not count the student twice
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+
+      await time.increaseTo(endTime + 1);
+      await contract.connect(signers.teacher).revealStatistics(examId);
+
+      const stats = await contract.getExamStatistics(examId);
+      expect(stats.computedCount).to.eq(2);
+      expect(stats.isRevealed).to.eq(true);
+
+      const clearSum = await fhevm.publicDecryptEuint(FhevmType.euint32, stats.totalSum);
+      expect(clearSum).to.eq(143);
+
+      const clearPassCount = await fhevm.publicDecryptEuint(FhevmType.euint32, stats.passCount);
+      expect(clearPassCount).to.eq(1);
+
+      const clearBuckets: bigint[] = [];
+      for (const handle of stats.bucketCounts) {
+        clearBuckets.push(await fhevm.publicDecryptEuint(FhevmType.euint32, handle));
+      }
+      expect(clearBuckets).to.deep.eq([0n, 0n, 1n, 0n, 1n]);
+    });
+  });
+
+  describe("Batch Views", function () {
+    let startTime: number;
+    let lens: CipherExamLens;
+
+    async function createExam(title: string, asDraft = false) {
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          title,
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          startTime + 3600,
+          asDraft
+        );
+    }
 
+    beforeEach(async function () {
+      lens = await ethers.deployContract("CipherExamLens", [contractAddress]);
+      startTime = (await time.latest()) + 10;
+      for (const title of ["Exam A", "Exam B", "Exam C"]) {
+        await createExam(title);
+      }
+    });
+
+    it("should return exams in pages", async function () {
+      const first = await lens.getExamsPage(0, 2);
+      expect(first.map((e) => e.title)).to.deep.eq(["Exam A", "Exam B"]);
+      expect(first[1].id).to.eq(1);
+      expect(first[1].creator).to.eq(signers.teacher.address);
+      expect(first[1].questionCount).to.eq(3);
+      expect(first[1].status).to.eq(0);
+
+      const rest = await lens.getExamsPage(2, 2);
+      expect(rest.map((e) => e.title)).to.deep.eq(["Exam C"]);
+
+      expect(await lens.getExamsPage(3, 2)).to.have.length(0);
+    });
+
+    it("should report the current status of each exam", async function () {
+      await time.increaseTo(startTime);
+      const page = await lens.getExamsPage(0, 10);
+      expect(page.map((e) => e.status)).to.deep.eq([1n, 1n, 1n]);
+    });
+
+    it("should report drafts until they are published", async function () {
+      await createExam("Exam D", true);
+      expect((await lens.getExamsPage(0, 10)).map((e) => e.isDraft)).to.deep.eq([false, false, false, true]);
+
+      await contract.connect(signers.teacher).publishExam(3);
+      const [published] = await lens.getExamsPage(3, 1);
+      expect(published.isDraft).to.eq(false);
+    });
+
+    it("should list the exams a student submitted to", async function () {
+      await time.increaseTo(startTime);
+
+      for (const examId of [2n, 0n]) {
+        const encrypted = await fhevm
+          .createEncryptedInput(contractAddress, signers.student.address)
+          .add32(10)
+          .add32(10)
+          .add32(10)
+          .encrypt();
+        await contract
+          .connect(signers.student)
+          .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      }
+      await contract.connect(signers.student).computeTotalAndJudge(0n, signers.student.address);
+
+      const submissions = await lens.getSubmissionsOf(signers.student.address);
+      expect(submissions.map((s) => s.examId)).to.deep.eq([2n, 0n]);
+      expect(submissions.map((s) => s.isComputed)).to.deep.eq([false, true]);
+      expect(submissions[0].submittedAt).to.be.gt(0);
+
+      expect(await lens.getSubmissionsOf(signers.teacher.address)).to.have.length(0);
+    });
+  });
+
+  describe("Exam Lifecycle", function () {
+    const examId = 0n;
+    const Status = { Scheduled: 0n, Open: 1n, Closed: 2n, Cancelled: 3n };
+    let startTime: number;
+    let endTime: number;
+
+    async function submit(signer: HardhatEthersSigner) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add32(10)
+        .add32(10)
+        .add32(10)
+        .encrypt();
+      return contract.connect(signer).submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+    }
+
+    beforeEach(async function () {
+      startTime = (await time.latest()) + 10;
+      endTime = startTime + 3600;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Lifecycle Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          endTime,
+          false
+        );
+    });
+
+    it("should move from Scheduled to Open to Closed over time", async function () {
+      expect(await contract.getExamStatus(examId)).to.eq(Status.Scheduled);
+      await time.increaseTo(startTime);
+      expect(await contract.getExamStatus(examId)).to.eq(Status.Open);
+      await time.increaseTo(endTime + 1);
+      expect(await contract.getExamStatus(examId)).to.eq(Status.Closed);
+    });
+
+    it("should hold a draft exam back from students until it is published", async function () {
+      const draftId = 1n;
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Draft Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          endTime,
+          true
+        );
+
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.student.address)
+        .add32(10)
+        .add32(10)
+        .add32(10)
+        .encrypt();
+      const submitDraft = () =>
+        contract
+          .connect(signers.student)
+          .submitAnswers(draftId, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      await time.increaseTo(startTime);
+      expect(await contract.getExamStatus(draftId)).to.eq(Status.Scheduled);
+      await expect(submitDraft()).to.be.revertedWithCustomError(contract, "ExamNotInProgress");
+      await expect(contract.connect(signers.student).publishExam(draftId)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+
+      // Settings still apply while the draft is held back
+      await contract.connect(signers.teacher).setAttemptPolicy(draftId, 2, 0);
+      await expect(contract.connect(signers.teacher).publishExam(draftId))
+        .to.emit(contract, "ExamPublished")
+        .withArgs(draftId);
+      expect(await contract.getExamStatus(draftId)).to.eq(Status.Open);
+      await submitDraft();
+
+      await expect(contract.connect(signers.teacher).publishExam(draftId)).to.be.revertedWithCustomError(
+        contract,
+        "ExamNotDraft"
+      );
+    });
+
+    it("should reject status queries for a nonexistent exam", async function () {
+      await expect(contract.getExamStatus(1n)).to.be.revertedWithCustomError(contract, "ExamNotFound");
+    });
+
+    it("should only let the creator manage the exam", async function () {
+      await expect(contract.connect(signers.student).cancelExam(examId)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+      await expect(contract.connect(signers.student).extendEndTime(examId, endTime + 60)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+      await expect(contract.connect(signers.student).closeExam(examId)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+    });
+
+    it("should cancel an exam and reject further submissions", async function () {
+      await time.increaseTo(startTime);
+      await expect(contract.connect(signers.teacher).cancelExam(examId))
+        .to.emit(contract, "ExamCancelled")
+        .withArgs(examId);
+
+      expect(await contract.getExamStatus(examId)).to.eq(Status.Cancelled);
+      await expect(submit(signers.student)).to.be.revertedWithCustomError(contract, "ExamNotInProgress");
+      await expect(contract.connect(signers.teacher).cancelExam(examId)).to.be.revertedWithCustomError(
+        contract,
+        "ExamAlreadyFinished"
+      );
+    });
+
+    it("should extend the end time of an open exam", async function () {
+      await expect(contract.connect(signers.teacher).extendEndTime(examId, endTime)).to.be.revertedWithCustomError(
+        contract,
+        "EndTimeNotLater"
+      );
+      await expect(contract.connect(signers.teacher).extendEndTime(examId, endTime + 600))
+        .to.emit(contract, "ExamEndTimeExtended")
+        .withArgs(examId, endTime + 600);
+
+      await time.increaseTo(endTime + 1);
+      expect(await contract.getExamStatus(examId)).to.eq(Status.Open);
+      await submit(signers.student);
+    });
+
+    it("should close an open exam early", async function () {
+      await expect(contract.connect(signers.teacher).closeExam(examId)).to.be.revertedWithCustomError(
+        contract,
+        "ExamNotOpen"
+      );
+
+      await time.increaseTo(startTime);
+      await submit(signers.student);
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+      await expect(contract.connect(signers.teacher).closeExam(examId)).to.emit(contract, "ExamClosed");
+
+      expect(await contract.getExamStatus(examId)).to.eq(Status.Closed);
+      await expect(submit(signers.deployer)).to.be.revertedWithCustomError(contract, "ExamNotInProgress");
+      await expect(
+        contract.connect(signers.teacher).extendEndTime(examId, endTime + 600)
+      ).to.be.revertedWithCustomError(contract, "ExamAlreadyFinished");
+
+      // Closed exams can publish their statistics right away
+      await contract.connect(signers.teacher).revealStatistics(examId);
+    });
+  });
+
+  describe("Access Control", function () {
+    const examId = 0n;
+    let outsider: HardhatEthersSigner;
+
+    // Sorted-pair Merkle tree over keccak256(address) leaves, matching CipherExam._verifyAllowList
+    function merkleProof(addresses: string[], target: string) {
+      const hashPair = (a: string, b: string) =>
+        ethers.solidityPackedKeccak256(["bytes32", "bytes32"], a < b ? [a, b] : [b, a]);
+      let level = addresses.map((a) => ethers.solidityPackedKeccak256(["address"], [a]));
+      let index = level.indexOf(ethers.solidityPackedKeccak256(["address"], [target]));
+      const proof: string[] = [];
+      while (level.length > 1) {
+        const sibling = index ^ 1;
+        if (sibling < level.length) proof.push(level[sibling]);
+        const next: string[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+          next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+        }
+        level = next;
+        index = Math.floor(index / 2);
+      }
+      return { root: level[0], proof };
+    }
+
+    async function submit(signer: HardhatEthersSigner, proof: string[], inviteCode: string) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add32(10)
+        .add32(10)
+        .add32(10)
+        .encrypt();
+      return contract.connect(signer).submitAnswers(examId, encrypted.handles, encrypted.inputProof, proof, inviteCode);
+    }
+
+    beforeEach(async function () {
+      outsider = (await ethers.getSigners())[3];
+      const startTime = (await time.latest()) + 10;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Restricted Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          startTime + 3600,
+          false
+        );
+
+      await time.increaseTo(startTime);
+    });
+
+    it("should only let the creator update access rules", async function () {
+      await expect(
+        contract.connect(signers.student).setAllowListRoot(examId, ethers.id("root"))
+      ).to.be.revertedWithCustomError(contract, "NotAuthorized");
+      await expect(
+        contract.connect(signers.student).setInviteCodeHash(examId, ethers.id("code"))
+      ).to.be.revertedWithCustomError(contract, "NotAuthorized");
+    });
+
+    it("should admit students in the allow-list only", async function () {
+      const roster = [signers.student.address, signers.deployer.address, signers.teacher.address];
+      const { root, proof } = merkleProof(roster, signers.student.address);
+
+      await expect(contract.connect(signers.teacher).setAllowListRoot(examId, root))
+        .to.emit(contract, "AllowListUpdated")
+        .withArgs(examId, root);
+      expect((await contract.getAccessRules(examId)).allowListRoot).to.eq(root);
+
+      await expect(submit(outsider, proof, ethers.ZeroHash)).to.be.revertedWithCustomError(contract, "NotAllowed");
+      await submit(signers.student, proof, ethers.ZeroHash);
+
+      const deployerProof = merkleProof(roster, signers.deployer.address).proof;
+      await submit(signers.deployer, deployerProof, ethers.ZeroHash);
+    });
+
+    it("should admit holders of the invite code", async function () {
+      const inviteCode = ethers.id("CRYPTO-101");
+      await contract.connect(signers.teacher).setInviteCodeHash(examId, ethers.keccak256(inviteCode));
+
+      await expect(submit(outsider, [], ethers.id("wrong"))).to.be.revertedWithCustomError(contract, "NotAllowed");
+      await submit(signers.student, [], inviteCode);
+    });
+
+    it("should accept either the allow-list or the invite code when both are set", async function () {
+      const { root } = merkleProof([signers.student.address, signers.deployer.address], signers.student.address);
+      const inviteCode = ethers.id("CRYPTO-101");
+      await contract.connect(signers.teacher).setAllowListRoot(examId, root);
+      await contract.connect(signers.teacher).setInviteCodeHash(examId, ethers.keccak256(inviteCode));
+
+      await expect(submit(outsider, [], ethers.ZeroHash)).to.be.revertedWithCustomError(contract, "NotAllowed");
+      await submit(outsider, [], inviteCode);
+    });
+  });
+
+  describe("Multiple Attempts", function () {
+    const examId = 0n;
+    const Policy = { Best: 0, Last: 1, Average: 2 };
+
+    async function submit(scores: number[]) {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      scores.forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+    }
+
+    async function effectiveTotal() {
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+      const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+      return fhevm.userDecryptEuint(FhevmType.euint32, encryptedTotal, contractAddress, signers.student);
+    }
+
+    // Attempts totalling 40, 88 and 50
+    async function submitThreeAttempts() {
+      await submit([10, 10, 20]);
+      await submit([25, 28, 35]);
+      await submit([20, 20, 10]);
+    }
+
+    beforeEach(async function () {
+      const startTime = (await time.latest()) + 10;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Practice Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          startTime + 3600,
+          false
+        );
+
+      await time.increaseTo(startTime);
+    });
+
+    it("should allow a single attempt by default", async function () {
+      const [maxAttempts] = await contract.getAttemptPolicy(examId);
+      expect(maxAttempts).to.eq(1);
+
+      await submit([10, 10, 10]);
+      await expect(submit([10, 10, 10])).to.be.revertedWithCustomError(contract, "NoAttemptsLeft");
+    });
+
+    it("should validate attempt policy updates", async function () {
+      await expect(
+        contract.connect(signers.student).setAttemptPolicy(examId, 3, Policy.Best)
+      ).to.be.revertedWithCustomError(contract, "NotAuthorized");
+      await expect(
+        contract.connect(signers.teacher).setAttemptPolicy(examId, 11, Policy.Best)
+      ).to.be.revertedWithCustomError(contract, "InvalidAttemptCount");
+
+      await submit([10, 10, 10]);
+      await expect(
+        contract.connect(signers.teacher).setAttemptPolicy(examId, 3, Policy.Best)
+      ).to.be.revertedWithCustomError(contract, "ExamHasSubmissions");
+    });
+
+    it("should keep the best attempt", async function () {
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 3, Policy.Best);
+      await submitThreeAttempts();
+      expect(await effectiveTotal()).to.eq(88);
+      await expect(submit([10, 10, 10])).to.be.revertedWithCustomError(contract, "NoAttemptsLeft");
+    });
+
+    it("should keep the last attempt", async function () {
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 3, Policy.Last);
+      await submitThreeAttempts();
+      expect(await effectiveTotal()).to.eq(50);
+    });
+
+    it("should average the attempts", async function () {
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 3, Policy.Average);
+      await submitThreeAttempts();
+      // (40 + 88 + 50) / 3, rounded down
+      expect(await effectiveTotal()).to.eq(59);
+    });
+
+    it("should record every attempt and count the student once in the statistics", async function () {
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 2, Policy.Best);
+
+      await submit([10, 10, 20]);
+      await effectiveTotal();
+      await submit([25, 28, 35]);
+
+      let submission = await contract.submissions(examId, signers.student.address);
+      expect(submission.isComputed).to.eq(false);
+      expect((await contract.getExamStatistics(examId)).computedCount).to.eq(0);
+
+      await effectiveTotal();
+      submission = await contract.submissions(examId, signers.student.address);
+      expect(submission.isComputed).to.eq(true);
+      expect((await contract.getExamStatistics(examId)).computedCount).to.eq(1);
+      expect(await contract.getExamStudents(examId)).to.deep.eq([signers.student.address]);
+
+      const [submittedAt, totals] = await contract.getAttempts(examId, signers.student.address);
+      expect(submittedAt).to.have.length(2);
+      const secondTotal = await fhevm.userDecryptEuint(FhevmType.euint32, totals[1], contractAddress, signers.student);
+      expect(secondTotal).to.eq(88);
+
+      const lens = await ethers.deployContract("CipherExamLens", [contractAddress]);
+      const [summary] = await lens.getSubmissionsOf(signers.student.address);
+      expect(summary.attemptTimes).to.deep.eq(submittedAt);
+    });
+  });
+
+  describe("Time Limit", function () {
+    const examId = 0n;
+    const duration = 600;
+
+    async function submit() {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      [10, 10, 10].forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+      return contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+    }
+
+    beforeEach(async function () {
+      const startTime = (await time.latest()) + 10;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Timed Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          startTime + 3600,
+          false
+        );
+
+      await time.increaseTo(startTime);
+    });
+
+    it("should not require a start on exams without a time limit", async function () {
+      await expect(contract.connect(signers.student).startAttempt(examId, ...openAccess)).to.be.revertedWithCustomError(
+        contract,
+        "NoTimeLimit"
+      );
+      await submit();
+      expect(await contract.hasSubmitted(examId, signers.student.address)).to.eq(true);
+    });
+
+    it("should validate duration updates", async function () {
+      await expect(contract.connect(signers.student).setDuration(examId, duration)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+
+      await submit();
+      await expect(contract.connect(signers.teacher).setDuration(examId, duration)).to.be.revertedWithCustomError(
+        contract,
+        "ExamHasSubmissions"
+      );
+    });
+
+    it("should accept answers within the duration of a started attempt", async function () {
+      await contract.connect(signers.teacher).setDuration(examId, duration);
+      await expect(submit()).to.be.revertedWithCustomError(contract, "AttemptNotStarted");
+
+      await contract.connect(signers.student).startAttempt(examId, ...openAccess);
+      const [limit, startedAt] = await contract.getTimeLimit(examId, signers.student.address);
+      expect(limit).to.eq(duration);
+      expect(startedAt).to.eq(await time.latest());
+      await expect(contract.connect(signers.student).startAttempt(examId, ...openAccess)).to.be.revertedWithCustomError(
+        contract,
+        "AttemptAlreadyStarted"
+      );
+
+      await time.increase(duration - 60);
+      await submit();
+
+      const [, nextStart] = await contract.getTimeLimit(examId, signers.student.address);
+      expect(nextStart).to.eq(0);
+      await expect(contract.connect(signers.student).startAttempt(examId, ...openAccess)).to.be.revertedWithCustomError(
+        contract,
+        "NoAttemptsLeft"
+      );
+    });
+
+    it("should reject answers after the duration", async function () {
+      await contract.connect(signers.teacher).setDuration(examId, duration);
+      await contract.connect(signers.student).startAttempt(examId, ...openAccess);
+
+      await time.increase(duration + 1);
+      await expect(submit()).to.be.revertedWithCustomError(contract, "TimeLimitExceeded");
+    });
+
+    it("should time every attempt separately", async function () {
+      await contract.connect(signers.teacher).setDuration(examId, duration);
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 2, 0); // Best
+
+      await contract.connect(signers.student).startAttempt(examId, ...openAccess);
+      await submit();
+
+      await time.increase(duration * 2);
+      await contract.connect(signers.student).startAttempt(examId, ...openAccess);
+      await submit();
+
+      const [submittedAt] = await contract.getAttempts(examId, signers.student.address);
+      expect(submittedAt).to.have.length(2);
+    });
+
+    it("should restart an attempt that expired without a submission", async function () {
+      await contract.connect(signers.teacher).setDuration(examId, duration);
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 2, 0); // Best
+
+      await contract.connect(signers.student).startAttempt(examId, ...openAccess);
+      await time.increase(duration + 1);
+      await contract.connect(signers.student).startAttempt(examId, ...openAccess);
+
+      const [, startedAt, expired] = await contract.getTimeLimit(examId, signers.student.address);
+      expect(startedAt).to.eq(await time.latest());
+      expect(expired).to.eq(1);
+      await submit();
+
+      // The expired attempt counts against the limit of two
+      await expect(contract.connect(signers.student).startAttempt(examId, ...openAccess)).to.be.revertedWithCustomError(
+        contract,
+        "NoAttemptsLeft"
+      );
+    });
+
+    it("should not restart an expired attempt when no attempts are left", async function () {
+      await contract.connect(signers.teacher).setDuration(examId, duration);
+
+      await contract.connect(signers.student).startAttempt(examId, ...openAccess);
+      await time.increase(duration + 1);
+      await expect(contract.connect(signers.student).startAttempt(examId, ...openAccess)).to.be.revertedWithCustomError(
+        contract,
+        "NoAttemptsLeft"
+      );
+    });
+  });
+
+  describe("Manual Grading", function () {
+    const examId = 0n;
+
+    async function grade(questionIndex: number, score: number, signer = signers.teacher, attemptIndex = 0) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(score).encrypt();
+      return contract
+        .connect(signer)
+        .gradeQuestion(
+          examId,
+          signers.student.address,
+          attemptIndex,
+          questionIndex,
+          encrypted.handles[0],
+          encrypted.inputProof
+        );
+    }
+
+    async function decryptTotal() {
+      const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+      return fhevm.userDecryptEuint(FhevmType.euint32, encryptedTotal, contractAddress, signers.student);
+    }
+
+    beforeEach(async function () {
+      const startTime = (await time.latest()) + 10;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Essay Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          startTime + 3600,
+          false
+        );
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 2, 0); // Best
+
+      await time.increaseTo(startTime);
+
+      // The essay (question 3) scores 0 until it is graded
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      [30, 0, 0].forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+    });
+
+    it("should only let the creator grade existing questions", async function () {
+      await expect(grade(2, 35, signers.student)).to.be.revertedWithCustomError(contract, "NotAuthorized");
+      await expect(grade(3, 35)).to.be.revertedWithCustomError(contract, "InvalidQuestionIndex");
+      await expect(grade(2, 35, signers.teacher, 1)).to.be.revertedWithCustomError(contract, "InvalidAttemptIndex");
+
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(1).encrypt();
+      await expect(
+        contract
+          .connect(signers.teacher)
+          .gradeQuestion(examId, signers.deployer.address, 0, 0, encrypted.handles[0], encrypted.inputProof)
+      ).to.be.revertedWithCustomError(contract, "SubmissionNotFound");
+    });
+
+    it("should replace the question score and recompute the result", async function () {
+      expect(await decryptTotal()).to.eq(30);
+
+      await expect(grade(2, 35)).to.emit(contract, "QuestionGraded").withArgs(examId, signers.student.address, 0, 2);
+
+      const scores = await contract.getMyScores(examId, signers.student.address);
+      const essayScore = await fhevm.userDecryptEuint(FhevmType.euint32, scores[2], contractAddress, signers.student);
+      expect(essayScore).to.eq(35);
+      expect(await decryptTotal()).to.eq(65);
+
+      const encryptedPassed = await contract.getMyPassedStatus(examId, signers.student.address);
+      const passed = await fhevm.userDecryptEbool(encryptedPassed, contractAddress, signers.student);
+      expect(passed).to.eq(true);
+
+      // Regrading replaces the previous grade and the student still counts once in the statistics
+      await grade(2, 10);
+      expect(await decryptTotal()).to.eq(40);
+      expect((await contract.getExamStatistics(examId)).computedCount).to.eq(1);
+    });
+
+    it("should clamp grades to the question max", async function () {
+      await grade(2, 80);
+      expect(await decryptTotal()).to.eq(70);
+    });
+
+    it("should grade an earlier attempt", async function () {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      [30, 30, 0].forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+      expect(await decryptTotal()).to.eq(60);
+
+      // Grading the first attempt's essay makes it the best one: 30 + 0 + 40
+      await grade(2, 40, signers.teacher, 0);
+      expect(await decryptTotal()).to.eq(70);
+    });
+
+    it("should store the grader key of a creator", async function () {
+      await expect(contract.connect(signers.teacher).setGraderKey("0x1234")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidGraderKey"
+      );
+
+      const graderKey = ethers.SigningKey.computePublicKey(ethers.Wallet.createRandom().privateKey, true);
+      await contract.connect(signers.teacher).setGraderKey(graderKey);
+      expect(await contract.graderKeys(signers.teacher.address)).to.eq(graderKey);
+    });
+  });
+
+  describe("Shuffle", function () {
+    const examId = 0n;
+
+    beforeEach(async function () {
+      const startTime = (await time.latest()) + 10;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Shuffled Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          startTime + 3600,
+          false
+        );
+
+      await time.increaseTo(startTime);
+    });
+
+    it("should store the shuffle settings", async function () {
+      const [questionsBefore, optionsBefore] = await contract.getShuffle(examId);
+      expect(questionsBefore).to.eq(false);
+      expect(optionsBefore).to.eq(false);
+
+      await expect(contract.connect(signers.teacher).setShuffle(examId, true, false))
+        .to.emit(contract, "ShuffleUpdated")
+        .withArgs(examId, true, false);
+
+      const [shuffleQuestions, shuffleOptions] = await contract.getShuffle(examId);
+      expect(shuffleQuestions).to.eq(true);
+      expect(shuffleOptions).to.eq(false);
+    });
+
+    it("should validate shuffle updates", async function () {
+      await expect(contract.connect(signers.student).setShuffle(examId, true, true)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      [10, 10, 10].forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      await expect(contract.connect(signers.teacher).setShuffle(examId, true, true)).to.be.revertedWithCustomError(
+        contract,
+        "ExamHasSubmissions"
+      );
+    });
+  });
+
+  describe("Grade Bands", function () {
+    const examId = 0n;
+
+    async function setBands(signer: HardhatEthersSigner, labels: string[], thresholds: number[]) {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signer.address);
+      thresholds.forEach((t) => encryptedInput.add32(t));
+      const encrypted = await encryptedInput.encrypt();
+      return contract.connect(signer).setGradeBands(examId, labels, encrypted.handles, encrypted.inputProof);
+    }
+
+    async function submit(scores: number[]) {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      scores.forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+    }
+
+    async function decryptGrade() {
+      const encryptedGrade = await contract.getGradeIndex(examId, signers.student.address);
+      return fhevm.userDecryptEuint(FhevmType.euint32, encryptedGrade, contractAddress, signers.student);
+    }
+
+    beforeEach(async function () {
+      const startTime = (await time.latest()) + 10;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(60)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Graded Exam",
+          contentHash,
+          3,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [30, 30, 40],
+          startTime,
+          startTime + 3600,
+          false
+        );
+
+      await time.increaseTo(startTime);
+    });
+
+    it("should compute the encrypted grade band of a student", async function () {
+      await expect(setBands(signers.teacher, ["A", "B", "C"], [90, 80, 60]))
+        .to.emit(contract, "GradeBandsUpdated")
+        .withArgs(examId, ["A", "B", "C"]);
+      expect(await contract.getGradeBands(examId)).to.deep.eq(["A", "B", "C"]);
+
+      // 25 + 28 + 35 = 88 reaches B but not A
+      await submit([25, 28, 35]);
+      expect(await decryptGrade()).to.eq(1n);
+
+      // Regrading a question recomputes the band: 25 + 28 + 10 = 63 is a C
+      const graded = await fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(10).encrypt();
+      await contract
+        .connect(signers.teacher)
+        .gradeQuestion(examId, signers.student.address, 0, 2, graded.handles[0], graded.inputProof);
+      expect(await decryptGrade()).to.eq(2n);
+    });
+
+    it("should report the band count below every band", async function () {
+      await setBands(signers.teacher, ["A", "B", "C"], [90, 80, 60]);
+      await submit([10, 10, 10]);
+      expect(await decryptGrade()).to.eq(3n);
+    });
+
+    it("should validate grade band updates", async function () {
+      await expect(setBands(signers.student, ["A"], [90])).to.be.revertedWithCustomError(contract, "NotAuthorized");
+      await expect(setBands(signers.teacher, ["A", "B"], [90])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidGradeBands"
+      );
+
+      await submit([10, 10, 10]);
+      await expect(setBands(signers.teacher, ["A"], [90])).to.be.revertedWithCustomError(
+        contract,
+        "ExamHasSubmissions"
+      );
+    });
+  });
+
+  describe("Sections", function () {
+    const examId = 0n;
+
+    async function setSections(signer: HardhatEthersSigner, names: string[], ends: number[], thresholds: number[]) {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signer.address);
+      thresholds.forEach((t) => encryptedInput.add32(t));
+      const encrypted = await encryptedInput.encrypt();
+      return contract.connect(signer).setSections(examId, names, ends, encrypted.handles, encrypted.inputProof);
+    }
+
+    async function submit(scores: number[]) {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      scores.forEach((s) => encryptedInput.add32(s));
+      const encrypted = await encryptedInput.encrypt();
+      await contract
+        .connect(signers.student)
+        .submitAnswers(examId, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+    }
+
+    async function decryptResults() {
+      const [totals, passed] = await contract.getSectionResults(examId, signers.student.address);
+      const overall = await contract.getMyPassedStatus(examId, signers.student.address);
+      // The mock coprocessor decrypts one handle at a time
+      const results = { totals: [] as bigint[], passed: [] as boolean[], overall: false };
+      for (const t of totals) {
+        results.totals.push(await fhevm.userDecryptEuint(FhevmType.euint32, t, contractAddress, signers.student));
+      }
+      for (const p of passed) {
+        results.passed.push(await fhevm.userDecryptEbool(p, contractAddress, signers.student));
+      }
+      results.overall = await fhevm.userDecryptEbool(overall, contractAddress, signers.student);
+      return results;
+    }
+
+    beforeEach(async function () {
+      const startTime = (await time.latest()) + 10;
+
+      const encryptedPassingScore = await fhevm
+        .createEncryptedInput(contractAddress, signers.teacher.address)
+        .add32(50)
+        .encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Certification Exam",
+          contentHash,
+          4,
+          encryptedPassingScore.handles[0],
+          [],
+          encryptedPassingScore.inputProof,
+          [25, 25, 25, 25],
+          startTime,
+          startTime + 3600,
+          false
+        );
+
+      await time.increaseTo(startTime);
+    });
+
+    it("should require every section to pass", async function () {
+      await expect(setSections(signers.teacher, ["Theory", "Practice"], [2, 4], [30, 30]))
+        .to.emit(contract, "SectionsUpdated")
+        .withArgs(examId, ["Theory", "Practice"], [2, 4]);
+      const [names, ends] = await contract.getSections(examId);
+      expect(names).to.deep.eq(["Theory", "Practice"]);
+      expect(ends).to.deep.eq([2n, 4n]);
+
+      // 75 passes overall, but Practice (20 + 5) is below its threshold of 30
+      await submit([25, 25, 20, 5]);
+      let results = await decryptResults();
+      expect(results.totals).to.deep.eq([50n, 25n]);
+      expect(results.passed).to.deep.eq([true, false]);
+      expect(results.overall).to.eq(false);
+
+      // Regrading the last question lifts Practice to 30
+      const graded = await fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(10).encrypt();
+      await contract
+        .connect(signers.teacher)
+        .gradeQuestion(examId, signers.student.address, 0, 3, graded.handles[0], graded.inputProof);
+      results = await decryptResults();
+      expect(results.totals).to.deep.eq([50n, 30n]);
+      expect(results.passed).to.deep.eq([true, true]);
+      expect(results.overall).to.eq(true);
+    });
+
+    it("should judge every section on the attempt with the best total", async function () {
+      await contract.connect(signers.teacher).setAttemptPolicy(examId, 3, 0); // Best
+      await setSections(signers.teacher, ["Theory", "Practice"], [2, 4], [30, 30]);
+
+      // Theory passes in the first attempt and Practice in the second, but neither attempt passes both
+      await submit([25, 25, 0, 0]);
+      await submit([0, 0, 20, 20]);
+      let results = await decryptResults();
+      expect(results.totals).to.deep.eq([50n, 0n]);
+      expect(results.passed).to.deep.eq([true, false]);
+      expect(results.overall).to.eq(false);
+
+      // A better third attempt replaces the first one for every section
+      await submit([20, 15, 15, 15]);
+      results = await decryptResults();
+      expect(results.totals).to.deep.eq([35n, 30n]);
+      expect(results.passed).to.deep.eq([true, true]);
+      expect(results.overall).to.eq(true);
+    });
+
+    it("should validate section updates", async function () {
+      await expect(setSections(signers.student, ["All"], [4], [50])).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+      await expect(setSections(signers.teacher, ["A", "B"], [2, 4], [30])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSections"
+      );
+      await expect(setSections(signers.teacher, ["A", "B"], [2, 3], [30, 30])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSections"
+      );
+      await expect(setSections(signers.teacher, ["A", "B"], [0, 4], [30, 30])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSections"
+      );
+      await expect(setSections(signers.teacher, ["A", "B", "C"], [2, 2, 4], [1, 1, 1])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSections"
+      );
+
+      await submit([10, 10, 10, 10]);
+      await expect(setSections(signers.teacher, ["All"], [4], [50])).to.be.revertedWithCustomError(
+        contract,
+        "ExamHasSubmissions"
+      );
+    });
+  });
+
+  describe("Negative Marking", function () {
+    const questionScores = [10, 10, 10];
+    // Option bitmasks; 0 is a blank answer
+    const answerKey = [1, 2, 4];
+
+    async function createExam(withKey: boolean) {
+      const startTime = (await time.latest()) + 10;
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(5);
+      if (withKey) answerKey.forEach((k) => encryptedInput.add32(k));
+      const encrypted = await encryptedInput.encrypt();
+
+      await contract
+        .connect(signers.teacher)
+        .createExam(
+          "Penalised Exam",
+          contentHash,
+          3,
+          encrypted.handles[0],
+          encrypted.handles.slice(1),
+          encrypted.inputProof,
+          questionScores,
+          startTime,
+          startTime + 3600,
+          false
+        );
+      await time.increaseTo(startTime);
+    }
+
+    async function encryptValues(values: number[]) {
+      const encryptedInput = fhevm.createEncryptedInput(contractAddress, signers.student.address);
+      values.forEach((v) => encryptedInput.add32(v));
+      return encryptedInput.encrypt();
+    }
+
+    async function decryptResult(examId: bigint) {
+      await contract.connect(signers.student).computeTotalAndJudge(examId, signers.student.address);
+      const scores: bigint[] = [];
+      for (const handle of await contract.getMyScores(examId, signers.student.address)) {
+        scores.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.student));
+      }
+      const encryptedTotal = await contract.getMyEncryptedTotal(examId, signers.student.address);
+      const total = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedTotal, contractAddress, signers.student);
+      return { scores, total };
+    }
+
+    it("should take penalties off wrong answers but not blank ones", async function () {
+      await createExam(true);
+      await expect(contract.connect(signers.teacher).setPenalties(0n, [5, 5, 5]))
+        .to.emit(contract, "PenaltiesUpdated")
+        .withArgs(0n, [5, 5, 5]);
+      expect(await contract.getPenalties(0n)).to.deep.eq([5n, 5n, 5n]);
+
+      // Correct, wrong and blank: 10 - 5 + 0 = 5; scores are offset by the penalty
+      const encrypted = await encryptValues([1, 1, 0]);
+      await contract
+        .connect(signers.student)
+        .submitEncryptedAnswers(0n, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      const result = await decryptResult(0n);
+      expect(result.scores).to.deep.eq([15n, 0n, 5n]);
+      expect(result.total).to.eq(5n);
+    });
+
+    it("should floor the total at zero", async function () {
+      await createExam(true);
+      await contract.connect(signers.teacher).setPenalties(0n, [5, 10, 10]);
+
+      // Correct, wrong and wrong: 10 - 10 - 10 is floored at 0
+      const encrypted = await encryptValues([1, 1, 1]);
+      await contract
+        .connect(signers.student)
+        .submitEncryptedAnswers(0n, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      const result = await decryptResult(0n);
+      expect(result.total).to.eq(0n);
+
+      const encryptedPassed = await contract.getMyPassedStatus(0n, signers.student.address);
+      expect(await fhevm.userDecryptEbool(encryptedPassed, contractAddress, signers.student)).to.eq(false);
+    });
+
+    it("should clamp offset scores of self-scored exams to the score plus the penalty", async function () {
+      await createExam(false);
+      await contract.connect(signers.teacher).setPenalties(0n, [5, 5, 0]);
+
+      // 15 is full marks on Q1, 0 a wrong Q2 and 100 is clamped to Q3's max of 10: 10 - 5 + 10 = 15
+      const encrypted = await encryptValues([15, 0, 100]);
+      await contract
+        .connect(signers.student)
+        .submitAnswers(0n, encrypted.handles, encrypted.inputProof, ...openAccess);
+
+      const result = await decryptResult(0n);
+      expect(result.scores).to.deep.eq([15n, 0n, 10n]);
+      expect(result.total).to.eq(15n);
+
+      // Manual grades are in points and stored with the same offset
+      const graded = await fhevm.createEncryptedInput(contractAddress, signers.teacher.address).add32(4).encrypt();
+      await contract
+        .connect(signers.teacher)
+        .gradeQuestion(0n, signers.student.address, 0, 1, graded.handles[0], graded.inputProof);
+      const regraded = await decryptResult(0n);
+      expect(regraded.scores).to.deep.eq([15n, 9n, 10n]);
+      expect(regraded.total).to.eq(24n);
+    });
+
+    it("should validate penalty updates", async function () {
+      await createExam(true);
+      await expect(contract.connect(signers.student).setPenalties(0n, [1, 1, 1])).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized"
+      );
+      await expect(contract.connect(signers.teacher).setPenalties(0n, [1, 1])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidPenalties"
+      );
+      await expect(contract.connect(signers.teacher).setPenalties(0n, [1, 11, 1])).to.be.revertedWithCustomError(
+        contract,
+        "InvalidPenalties"
+      );
+
+      const encrypted = await encryptValues([1, 2, 4]);
+      await contract
+        .connect(signers.student)
+        .submitEncryptedAnswers(0n, encrypted.handles, encrypted.inputProof, ...openAccess);
+      await expect(contract.connect(signers.teacher).setPenalties(0n, [1, 1, 1])).to.be.revertedWithCustomError(
+        contract,
+        "ExamHasSubmissions"
+      );
+    });
+  });
+});